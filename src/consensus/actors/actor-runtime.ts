@@ -0,0 +1,75 @@
+import { Message, ProcessId, ProcessState } from '../types';
+import { ProcessActor, ProcessInspection } from './process-actor';
+import { ProcessContext, ProcessProtocol, ProcessTask, WorkResult } from './process-protocol';
+import { ProcessRuntime, RuntimeMode } from './process-runtime';
+
+/**
+ * Runs every process's actor on the engine's own event loop
+ * Delivery is synchronous: the recipient reacts as soon as a message is delivered, one unit of work at a time
+ */
+export class ActorRuntime implements ProcessRuntime {
+  readonly mode: RuntimeMode = 'inline';
+  private readonly actors = new Map<ProcessId, ProcessActor>();
+
+  constructor(states: ProcessState[], private readonly protocol: ProcessProtocol) {
+    for (const state of states) {
+      this.actors.set(state.id, new ProcessActor(state));
+    }
+  }
+
+  get ids(): ProcessId[] {
+    return Array.from(this.actors.keys());
+  }
+
+  has(id: ProcessId): boolean {
+    return this.actors.has(id);
+  }
+
+  snapshot(): ProcessState[] {
+    return Array.from(this.actors.values(), actor => actor.snapshot());
+  }
+
+  snapshotOf(id: ProcessId): ProcessState | undefined {
+    return this.actors.get(id)?.snapshot();
+  }
+
+  inspect(id: ProcessId): ProcessInspection | undefined {
+    return this.actors.get(id)?.inspect();
+  }
+
+  async deliver(message: Message, context: ProcessContext): Promise<WorkResult> {
+    const actor = this.actors.get(message.to);
+    if (!actor) return { sent: [], exchanges: 0 };
+
+    let exchanges = 0;
+    const sent = actor.receive(message, (self, delivered, outbox) => {
+      exchanges += this.protocol.receive(self, delivered, context, outbox);
+    });
+    return { sent, exchanges };
+  }
+
+  async act(id: ProcessId, task: ProcessTask, context: ProcessContext): Promise<WorkResult> {
+    const actor = this.actors.get(id);
+    if (!actor) return { sent: [], exchanges: 0 };
+
+    return { sent: actor.act((self, outbox) => this.protocol.act(self, task, context, outbox)), exchanges: 0 };
+  }
+
+  override(edit: (states: ProcessState[]) => void): void {
+    edit(Array.from(this.actors.values(), actor => actor.unwrap()));
+  }
+
+  add(state: ProcessState): void {
+    this.actors.set(state.id, new ProcessActor(state));
+  }
+
+  remove(id: ProcessId): ProcessState | undefined {
+    const state = this.actors.get(id)?.snapshot();
+    this.actors.delete(id);
+    return state;
+  }
+
+  close(): void {
+    // Nothing to release: the actors live on the engine's event loop
+  }
+}
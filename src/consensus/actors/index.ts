@@ -0,0 +1,32 @@
+import { ConsensusInputError } from '../errors';
+import { RuntimeMode, RUNTIME_MODES, DEFAULT_RUNTIME_MODE } from './process-runtime';
+
+export {
+  ProcessActor,
+  ProcessAction,
+  ProcessBehavior,
+  ProcessInspection,
+  cloneState
+} from './process-actor';
+export {
+  ProcessProtocol,
+  ProtocolSettings,
+  ProtocolStrategies,
+  ProtocolServices,
+  ProcessContext,
+  ProcessTask,
+  WorkResult
+} from './process-protocol';
+export { ProcessRuntime, RuntimeMode, RUNTIME_MODES, DEFAULT_RUNTIME_MODE } from './process-runtime';
+export { ActorRuntime } from './actor-runtime';
+export { WorkerRuntime, WorkerPool, sharedWorkerPool } from './worker-runtime';
+
+/**
+ * Resolve a configured runtime mode; without one, the CONSENSUS_RUNTIME environment variable decides, then inline
+ */
+export function resolveRuntimeMode(mode: RuntimeMode = (process.env.CONSENSUS_RUNTIME as RuntimeMode) || DEFAULT_RUNTIME_MODE): RuntimeMode {
+  if (!RUNTIME_MODES.includes(mode)) {
+    throw new ConsensusInputError(`Unknown runtime mode "${mode}" (available: ${RUNTIME_MODES.join(', ')})`);
+  }
+  return mode;
+}
@@ -0,0 +1,81 @@
+import { Message, ProcessId, ProcessState } from '../types';
+
+/**
+ * How a process reacts to one delivered message: `self` is its own state, whatever it sends goes to `outbox`
+ */
+export type ProcessBehavior = (self: ProcessState, message: Message, outbox: Message[]) => void;
+
+/**
+ * Something a process does on its own initiative (start-up, a timer tick, a self-check)
+ */
+export type ProcessAction = (self: ProcessState, outbox: Message[]) => void;
+
+/**
+ * What one process looks like from the outside
+ */
+export interface ProcessInspection {
+  state: ProcessState;
+  received: number;       // messages it reacted to since the last reset or reconfiguration
+  sent: number;           // messages it sent since the last reset or reconfiguration
+}
+
+/**
+ * A process as an actor: it owns its state, and its state changes only while it
+ * reacts to a delivered message or acts on its own initiative
+ * Messages wait in the engine's network until the scheduler delivers them, so an actor holds no mail of its own
+ * Everyone else sees copies
+ */
+export class ProcessActor {
+  private readonly state: ProcessState;
+  private received = 0;
+  private sent = 0;
+
+  constructor(initial: ProcessState) {
+    this.state = cloneState(initial);
+  }
+
+  get id(): ProcessId {
+    return this.state.id;
+  }
+
+  /**
+   * React to a delivered message; returns what was sent
+   */
+  receive(message: Message, behavior: ProcessBehavior): Message[] {
+    const outbox: Message[] = [];
+    this.received++;
+    behavior(this.state, message, outbox);
+    this.sent += outbox.length;
+    return outbox;
+  }
+
+  act(action: ProcessAction): Message[] {
+    const outbox: Message[] = [];
+    action(this.state, outbox);
+    this.sent += outbox.length;
+    return outbox;
+  }
+
+  /**
+   * Live state, for edits made from outside the protocol only (see ProcessRuntime.override)
+   */
+  unwrap(): ProcessState {
+    return this.state;
+  }
+
+  inspect(): ProcessInspection {
+    return {
+      state: cloneState(this.state),
+      received: this.received,
+      sent: this.sent
+    };
+  }
+
+  snapshot(): ProcessState {
+    return cloneState(this.state);
+  }
+}
+
+export function cloneState(state: ProcessState): ProcessState {
+  return { ...state, stack: [...state.stack] };
+}
@@ -0,0 +1,244 @@
+import type { ColorPriorityTable, Message, ProcessId, ProcessState } from '../types';
+import type { KnowledgeMode } from '../knowledge';
+import type {
+  PartnerSelectionConfig,
+  PartnerSelectionStrategy,
+  WantedColorStrategy,
+  WantedColorStrategyName
+} from '../strategies';
+import type { ColorSelectionService, MessageHandlingService, PartnerSelectionService } from '../services';
+
+/**
+ * Everything a process needs to know to follow the protocol, in a form that can be posted to a worker thread
+ */
+export interface ProtocolSettings {
+  wantedColorStrategy?: WantedColorStrategyName;
+  partnerSelection?: PartnerSelectionConfig;
+  knowledge: KnowledgeMode;
+  colorPriorities: ColorPriorityTable;
+}
+
+/**
+ * What a process may consult, besides its own state, during one unit of work
+ */
+export interface ProcessContext {
+  peers: ProcessState[];                 // every process as this one knows it, itself included (replaced by its live state)
+  knowsEveryPeer: boolean;               // with gossip: it has heard about every peer at least once
+  messagesInTransit: Message[];          // for wanted-color strategies that avoid contested colors; with gossip, only its own
+  perfectMonochromeAchievable: boolean;  // with gossip: as judged from its own view of its peers
+  terminationForced: boolean;            // a forced ending is final: finished processes stay done
+  neighbours?: ProcessId[];              // on a sparse topology, the processes it may talk to directly; absent for all of them
+}
+
+/**
+ * Something a process does on its own initiative: its first request, a request after a quiet spell, a self-check,
+ * a second look at its state after processes joined or left
+ */
+export type ProcessTask = 'start' | 'tick' | 'check-completion' | 'membership-change';
+
+/**
+ * What came out of one unit of work
+ */
+export interface WorkResult {
+  sent: Message[];
+  exchanges: number;   // balls the process accepted
+}
+
+export interface ProtocolStrategies {
+  wantedColor: WantedColorStrategy;
+  partnerSelection: PartnerSelectionStrategy;
+}
+
+export interface ProtocolServices {
+  messageHandling: MessageHandlingService;
+  colorSelection: ColorSelectionService;
+  partnerSelection: PartnerSelectionService;
+}
+
+/**
+ * How a single process follows the protocol; the same code runs inline and inside a worker thread
+ * A process only ever changes its own state and learns about the others from the context it is given
+ */
+export class ProcessProtocol {
+  constructor(
+    private readonly settings: ProtocolSettings,
+    private readonly strategies: ProtocolStrategies,
+    private readonly services: ProtocolServices
+  ) {}
+
+  /**
+   * React to a delivered message; returns the number of balls accepted
+   */
+  receive(self: ProcessState, message: Message, context: ProcessContext, outbox: Message[]): number {
+    const exchanges = { count: 0 };
+    if (this.settings.knowledge === 'gossip') {
+      this.reconsider(self, context);
+    }
+
+    switch (message.type) {
+      case 'REQUEST':
+        this.services.messageHandling.handleRequest(
+          message,
+          self,
+          outbox,
+          (process) => this.checkCompletion(process, context, outbox),
+          (process) => this.computeWantedColor(process, context),
+          (process) => this.choosePartner(process, context)
+        );
+        // A refused requester that had never heard of the recipient gets its news instead of a ball
+        if (this.settings.knowledge === 'gossip' && !message.gossip?.some(summary => summary.id === self.id)
+          && !outbox.some(m => m.type === 'SEND' && m.to === message.from)) {
+          this.services.messageHandling.sendInfo(self, message.from, outbox);
+        }
+        if (context.neighbours && !outbox.some(m => m.type === 'SEND' && m.to === (message.origin ?? message.from))) {
+          this.passOn(self, message, context, outbox);
+        }
+        break;
+      case 'SEND':
+        this.services.messageHandling.handleSend(
+          message,
+          self,
+          exchanges,
+          (process) => this.checkCompletion(process, context, outbox),
+          (process) => this.computeWantedColor(process, context),
+          (process) => this.choosePartner(process, context),
+          outbox
+        );
+        break;
+      case 'DONE':
+        this.services.messageHandling.handleDone(message, self);
+        break;
+      case 'INFO':
+        // Nothing to hand over, but what the recipient just learned may be enough to finish
+        this.checkCompletion(self, context, outbox);
+        break;
+      case 'TOKEN':
+        // The holder re-examines itself before deciding whether it is passive
+        this.checkCompletion(self, context, outbox);
+        break;
+    }
+    return exchanges.count;
+  }
+
+  act(self: ProcessState, task: ProcessTask, context: ProcessContext, outbox: Message[]): void {
+    switch (task) {
+      case 'start':
+        if (!self.isDone) {
+          this.computeWantedColor(self, context);
+          this.choosePartner(self, context);
+          if (self.partner) {
+            this.services.messageHandling.sendRequest(self, outbox);
+          }
+        }
+        break;
+      case 'tick':
+        this.services.messageHandling.triggerNewRequests(
+          [self],
+          outbox,
+          (process) => this.computeWantedColor(process, context),
+          (process) => this.choosePartner(process, context)
+        );
+        break;
+      case 'check-completion':
+        this.checkCompletion(self, context, outbox);
+        break;
+      case 'membership-change':
+        this.rejoin(self, context, outbox);
+        break;
+    }
+  }
+
+  /**
+   * The peers `process` reasons about, with itself as it is right now
+   */
+  private peersOf(process: ProcessState, context: ProcessContext): ProcessState[] {
+    return context.peers.map(p => p.id === process.id ? process : p);
+  }
+
+  /**
+   * Let a process decide whether it is finished, judging only by what it knows
+   * With gossip it waits until it has heard about every peer: an unknown peer might still hold balls for it
+   */
+  private checkCompletion(process: ProcessState, context: ProcessContext, outbox: Message[]): void {
+    if (this.settings.knowledge === 'gossip' && !context.knowsEveryPeer) return;
+    this.services.messageHandling.checkMonochrome(process, this.peersOf(process, context), outbox, context.perfectMonochromeAchievable);
+  }
+
+  /**
+   * With gossip, a process that finished may have judged on stale news of the others;
+   * if what it just learned shows balls it could still collect, it takes part again
+   */
+  private reconsider(self: ProcessState, context: ProcessContext): void {
+    if (self.isDone && !context.terminationForced && this.services.messageHandling.mayStillReceive(self, this.peersOf(self, context))) {
+      self.isDone = false;
+    }
+  }
+
+  /**
+   * After processes joined or left, a partner that is gone is forgotten, and a finished process whose state
+   * is no longer optimal among the new set takes part again; either way it asks for a ball right away
+   */
+  private rejoin(self: ProcessState, context: ProcessContext, outbox: Message[]): void {
+    const partnerLeft = self.partner !== null && !context.peers.some(p => p.id === self.partner);
+    if (partnerLeft) {
+      self.partner = null;
+    }
+    const wakes = self.isDone && !context.terminationForced
+      && !this.services.messageHandling.isFinished(self, this.peersOf(self, context), context.perfectMonochromeAchievable);
+    if (wakes) {
+      self.isDone = false;
+    }
+    if (partnerLeft || wakes) {
+      this.act(self, 'start', context, outbox);
+    }
+  }
+
+  /**
+   * On a sparse topology the requester can ask only its neighbours, so a neighbour that cannot serve a request
+   * passes it on, once, to the process it believes holds the most balls of the color without wanting them;
+   * the network relays it there and relays the ball back
+   */
+  private passOn(self: ProcessState, message: Message, context: ProcessContext, outbox: Message[]): void {
+    if (message.origin !== undefined) return;
+
+    const spare = (p: ProcessState) => p.wanted === message.color ? 0 : p.stack.filter(color => color === message.color).length;
+    const holders = context.peers.filter(p => p.id !== self.id && p.id !== message.from && spare(p) > 0);
+    if (holders.length === 0) return;
+
+    const holder = holders.reduce((best, p) => spare(p) > spare(best) ? p : best);
+    this.services.messageHandling.forwardRequest(message, self, holder.id, outbox);
+  }
+
+  private computeWantedColor(process: ProcessState, context: ProcessContext): void {
+    this.services.colorSelection.computeWantedColor(
+      process, context.messagesInTransit, this.settings.colorPriorities, this.strategies.wantedColor
+    );
+    if (this.settings.knowledge === 'gossip') {
+      this.yieldContestedColor(process, context);
+    }
+  }
+
+  /**
+   * With gossip the engine does not resolve color conflicts: a process that knows of an active peer with a stronger
+   * claim on the color it chose settles the conflict itself, by the same rule, on its own view
+   */
+  private yieldContestedColor(process: ProcessState, context: ProcessContext): void {
+    const view = context.peers.map(p => p.id === process.id ? { ...process } : { ...p });
+    this.services.colorSelection.resolveColorConflicts(view, this.settings.colorPriorities);
+    process.wanted = view.find(p => p.id === process.id)!.wanted;
+  }
+
+  /**
+   * With gossip, a process that believes every peer is done asks them anyway:
+   * they may have finished on stale news of it, and its request tells them otherwise
+   * On a sparse topology it asks a done neighbour too: that neighbour passes the request on to the processes behind it
+   */
+  private choosePartner(process: ProcessState, context: ProcessContext): void {
+    const peers = this.peersOf(process, context);
+    this.services.partnerSelection.choosePartner(process, peers, this.strategies.partnerSelection, context.neighbours);
+    if (process.partner === null && (this.settings.knowledge === 'gossip' || context.neighbours)) {
+      const everyPeerActive = peers.map(p => p.id === process.id ? p : { ...p, isDone: false });
+      this.services.partnerSelection.choosePartner(process, everyPeerActive, this.strategies.partnerSelection, context.neighbours);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { Message, ProcessId, ProcessState } from '../types';
+import { ProcessInspection } from './process-actor';
+import { ProcessContext, ProcessTask, WorkResult } from './process-protocol';
+
+export const RUNTIME_MODES = ['inline', 'workers'] as const;
+
+export type RuntimeMode = typeof RUNTIME_MODES[number];
+
+export const DEFAULT_RUNTIME_MODE: RuntimeMode = 'inline';
+
+/**
+ * Hosts one actor per process and hands it the messages delivered to it
+ * The engine stays the network: it decides which message arrives next and hands it to the runtime,
+ * one unit of work at a time; the runtime decides where the processes live
+ */
+export interface ProcessRuntime {
+  readonly mode: RuntimeMode;
+  readonly ids: ProcessId[];
+
+  has(id: ProcessId): boolean;
+
+  /**
+   * Copies of every process's state, in creation order
+   */
+  snapshot(): ProcessState[];
+  snapshotOf(id: ProcessId): ProcessState | undefined;
+  inspect(id: ProcessId): ProcessInspection | undefined;
+
+  /**
+   * Deliver a message to its recipient and let it react; messages for unknown processes are discarded
+   */
+  deliver(message: Message, context: ProcessContext): Promise<WorkResult>;
+
+  /**
+   * Let a process act on its own initiative
+   */
+  act(id: ProcessId, task: ProcessTask, context: ProcessContext): Promise<WorkResult>;
+
+  /**
+   * Edit process state from outside the protocol: corruption injection, conflict resolution, forced completion
+   * The edit is visible in snapshots immediately
+   */
+  override(edit: (states: ProcessState[]) => void): void;
+
+  /**
+   * Host a process joining mid-run
+   */
+  add(state: ProcessState): void;
+
+  /**
+   * Stop hosting a process that left; returns its last state
+   */
+  remove(id: ProcessId): ProcessState | undefined;
+
+  /**
+   * Release whatever hosts the processes; the runtime is not used afterwards
+   */
+  close(): void;
+}
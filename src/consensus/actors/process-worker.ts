@@ -0,0 +1,75 @@
+import { MessagePort, parentPort } from 'worker_threads';
+import { format } from 'util';
+import { Message } from '../types';
+import { ColorSelectionService } from '../services/color-selection.service';
+import { MessageHandlingService } from '../services/message-handling.service';
+import { PartnerSelectionService } from '../services/partner-selection.service';
+import { PartnerSelectionStrategy, createPartnerSelectionStrategy, createWantedColorStrategy } from '../strategies';
+import { ProcessActor } from './process-actor';
+import { ProcessProtocol } from './process-protocol';
+import { WorkerAttachment, WorkerReply, WorkerRequest } from './worker-messages';
+
+/**
+ * Entry point of a worker thread hosting one process at a time (see WorkerRuntime)
+ * The process's state exists only here; the engine sees what the worker reports after each unit of work
+ */
+
+const colorSelection = new ColorSelectionService();
+const services = {
+  messageHandling: new MessageHandlingService(),
+  colorSelection,
+  partnerSelection: new PartnerSelectionService(colorSelection)
+};
+
+let port: MessagePort | null = null;
+let actor: ProcessActor;
+let protocol: ProcessProtocol;
+let partnerSelection: PartnerSelectionStrategy;
+
+// Console output travels to the engine's thread, where it is logged (or silenced) like everything else
+for (const level of ['log', 'warn', 'error'] as const) {
+  console[level] = (...args: unknown[]) => reply({ kind: 'log', level, text: format(...args) });
+}
+
+parentPort!.on('message', (attachment: WorkerAttachment) => {
+  port?.close();
+  port = attachment.port;
+  actor = new ProcessActor(attachment.state);
+  partnerSelection = createPartnerSelectionStrategy(attachment.settings.partnerSelection);
+  protocol = new ProcessProtocol(
+    attachment.settings,
+    { wantedColor: createWantedColorStrategy(attachment.settings.wantedColorStrategy), partnerSelection },
+    services
+  );
+  port.on('message', handle);
+});
+
+function handle(request: WorkerRequest): void {
+  if (request.kind === 'patch') {
+    Object.assign(actor.unwrap(), request.changes);
+    return;
+  }
+
+  try {
+    let exchanges = 0;
+    let sent: Message[];
+    if (request.kind === 'deliver') {
+      partnerSelection.messageDelivered?.(request.message);
+      sent = actor.receive(request.message, (self, message, outbox) => {
+        exchanges += protocol.receive(self, message, request.context, outbox);
+      });
+    } else {
+      sent = actor.act((self, outbox) => protocol.act(self, request.task, request.context, outbox));
+    }
+    for (const message of sent) {
+      partnerSelection.messageSent?.(message);
+    }
+    reply({ kind: 'done', seq: request.seq, state: actor.snapshot(), result: { sent, exchanges } });
+  } catch (error) {
+    reply({ kind: 'failed', seq: request.seq, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+function reply(message: WorkerReply): void {
+  port?.postMessage(message);
+}
@@ -0,0 +1,28 @@
+import { MessagePort } from 'worker_threads';
+import { Message, ProcessState } from '../types';
+import { ProcessContext, ProcessTask, ProtocolSettings, WorkResult } from './process-protocol';
+
+/**
+ * Hands a pooled worker the process it hosts from now on, with a fresh port for everything that follows
+ */
+export interface WorkerAttachment {
+  state: ProcessState;
+  settings: ProtocolSettings;
+  port: MessagePort;
+}
+
+/**
+ * What the engine posts to a process over its port; `seq` orders requests and patches per process
+ */
+export type WorkerRequest =
+  | { kind: 'deliver'; seq: number; message: Message; context: ProcessContext }
+  | { kind: 'act'; seq: number; task: ProcessTask; context: ProcessContext }
+  | { kind: 'patch'; seq: number; changes: Partial<ProcessState> };
+
+/**
+ * What a process posts back: the outcome of a request with its state afterwards, or a line of console output
+ */
+export type WorkerReply =
+  | { kind: 'done'; seq: number; state: ProcessState; result: WorkResult }
+  | { kind: 'failed'; seq: number; error: string }
+  | { kind: 'log'; level: 'log' | 'warn' | 'error'; text: string };
@@ -0,0 +1,266 @@
+import { MessageChannel, MessagePort, Worker } from 'worker_threads';
+import { extname, join } from 'path';
+import { Message, ProcessId, ProcessState } from '../types';
+import { ProcessInspection, cloneState } from './process-actor';
+import { ProcessContext, ProcessTask, ProtocolSettings, WorkResult } from './process-protocol';
+import { ProcessRuntime, RuntimeMode } from './process-runtime';
+import { WorkerAttachment, WorkerReply, WorkerRequest } from './worker-messages';
+import { workerSource } from './worker-source';
+
+const WORKER_ENTRY = join(__dirname, `process-worker${extname(__filename)}`);
+
+// How long a released worker waits for another run before it is stopped
+const WORKER_IDLE_TIMEOUT_MS = 10_000;
+
+/**
+ * Worker threads kept alive between runs and shared by every engine: starting one costs far more than a whole run
+ * Idle workers do not keep the Node process alive, and stop on their own after a while
+ */
+export class WorkerPool {
+  private readonly idle = new Map<Worker, NodeJS.Timeout>();
+  private readonly all = new Set<Worker>();
+
+  constructor(private readonly idleTimeoutMs = WORKER_IDLE_TIMEOUT_MS) {}
+
+  acquire(): Worker {
+    const [worker] = this.idle.keys();
+    if (!worker) return this.spawn();
+
+    clearTimeout(this.idle.get(worker));
+    this.idle.delete(worker);
+    return worker;
+  }
+
+  release(worker: Worker): void {
+    if (!this.all.has(worker) || this.idle.has(worker)) return;
+
+    const timer = setTimeout(() => void worker.terminate(), this.idleTimeoutMs);
+    timer.unref();
+    this.idle.set(worker, timer);
+  }
+
+  async terminate(): Promise<void> {
+    const workers = Array.from(this.all);
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private spawn(): Worker {
+    const source = workerSource(WORKER_ENTRY);
+    const worker = new Worker(source.script, { eval: source.eval, workerData: source.workerData });
+    worker.unref();
+    worker.on('error', () => {
+      // Reported to whoever is waiting on the worker when it exits
+    });
+    worker.once('exit', () => {
+      this.all.delete(worker);
+      clearTimeout(this.idle.get(worker));
+      this.idle.delete(worker);
+    });
+    this.all.add(worker);
+    return worker;
+  }
+}
+
+export const sharedWorkerPool = new WorkerPool();
+
+interface PendingWork {
+  message: Message | null;   // the delivered message, null when the process acts on its own
+  resolve: (result: WorkResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * The engine's end of one worker hosting one process: a mirror of the state the worker last reported,
+ * and the requests it has not answered yet
+ */
+class WorkerHost {
+  private readonly port: MessagePort;
+  private state: ProcessState;
+  private readonly pending = new Map<number, PendingWork>();
+  private patches: { seq: number; changes: Partial<ProcessState> }[] = [];
+  private nextSeq = 0;
+  private received = 0;
+  private sent = 0;
+  private readonly onExit = () => this.failPending(`The worker hosting process ${this.state.id} exited`);
+
+  constructor(readonly worker: Worker, initial: ProcessState, settings: ProtocolSettings) {
+    const channel = new MessageChannel();
+    this.port = channel.port1;
+    this.state = cloneState(initial);
+
+    const attachment: WorkerAttachment = { state: initial, settings, port: channel.port2 };
+    worker.postMessage(attachment, [channel.port2]);
+    this.port.on('message', (reply: WorkerReply) => this.receive(reply));
+    this.port.unref();
+    worker.once('exit', this.onExit);
+  }
+
+  request(work: { kind: 'deliver'; message: Message; context: ProcessContext } | { kind: 'act'; task: ProcessTask; context: ProcessContext }): Promise<WorkResult> {
+    const seq = this.nextSeq++;
+    return new Promise((resolve, reject) => {
+      // Keep the Node process alive only while an answer is outstanding
+      if (this.pending.size === 0) this.port.ref();
+      this.pending.set(seq, { message: work.kind === 'deliver' ? work.message : null, resolve, reject });
+      this.post({ ...work, seq });
+    });
+  }
+
+  /**
+   * Overwrite the fields of the process that differ from `state`; the worker applies them after whatever it is doing
+   */
+  overwrite(state: ProcessState): void {
+    const changes: Partial<ProcessState> = {};
+    for (const field of Object.keys(state) as (keyof ProcessState)[]) {
+      if (JSON.stringify(state[field]) !== JSON.stringify(this.state[field])) {
+        Object.assign(changes, { [field]: state[field] });
+      }
+    }
+    if (Object.keys(changes).length === 0) return;
+
+    const seq = this.nextSeq++;
+    this.patches.push({ seq, changes });
+    this.state = cloneState(state);
+    this.post({ kind: 'patch', seq, changes });
+  }
+
+  snapshot(): ProcessState {
+    return cloneState(this.state);
+  }
+
+  inspect(): ProcessInspection {
+    return {
+      state: this.snapshot(),
+      received: this.received,
+      sent: this.sent
+    };
+  }
+
+  detach(): void {
+    this.failPending('The process runtime was closed');
+    this.worker.off('exit', this.onExit);
+    this.port.close();
+  }
+
+  private post(request: WorkerRequest): void {
+    this.port.postMessage(request);
+  }
+
+  private receive(reply: WorkerReply): void {
+    if (reply.kind === 'log') {
+      console[reply.level](reply.text);
+      return;
+    }
+
+    const work = this.pending.get(reply.seq);
+    if (!work) return;
+    this.pending.delete(reply.seq);
+    if (this.pending.size === 0) this.port.unref();
+
+    if (reply.kind === 'failed') {
+      work.reject(new Error(`Process ${this.state.id} failed: ${reply.error}`));
+      return;
+    }
+
+    // Patches posted after the request reached the worker after it, too
+    this.patches = this.patches.filter(patch => patch.seq > reply.seq);
+    this.state = Object.assign(reply.state, ...this.patches.map(patch => patch.changes));
+    if (work.message) this.received++;
+    this.sent += reply.result.sent.length;
+    work.resolve(reply.result);
+  }
+
+  private failPending(reason: string): void {
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+    this.port.unref();
+    for (const work of pending) {
+      work.reject(new Error(reason));
+    }
+  }
+}
+
+/**
+ * Runs every process in a worker thread of its own
+ * Processes exchange messages over MessagePorts with the engine, which stays the network between them,
+ * and report their state back after every unit of work; snapshots show the last report
+ * An isolation layer only: workers have no ports to each other, and one unit of work runs at a time,
+ * so runs interleave exactly as they do inline; the scheduler, faults, replay and termination detection
+ * all act on each delivery, which is why it stays with the engine (see README, Worker-Thread Runtime)
+ */
+export class WorkerRuntime implements ProcessRuntime {
+  readonly mode: RuntimeMode = 'workers';
+  private readonly hosts = new Map<ProcessId, WorkerHost>();
+
+  constructor(states: ProcessState[], private readonly settings: ProtocolSettings, private readonly pool: WorkerPool = sharedWorkerPool) {
+    for (const state of states) {
+      this.hosts.set(state.id, new WorkerHost(pool.acquire(), state, settings));
+    }
+  }
+
+  get ids(): ProcessId[] {
+    return Array.from(this.hosts.keys());
+  }
+
+  has(id: ProcessId): boolean {
+    return this.hosts.has(id);
+  }
+
+  snapshot(): ProcessState[] {
+    return Array.from(this.hosts.values(), host => host.snapshot());
+  }
+
+  snapshotOf(id: ProcessId): ProcessState | undefined {
+    return this.hosts.get(id)?.snapshot();
+  }
+
+  inspect(id: ProcessId): ProcessInspection | undefined {
+    return this.hosts.get(id)?.inspect();
+  }
+
+  async deliver(message: Message, context: ProcessContext): Promise<WorkResult> {
+    const host = this.hosts.get(message.to);
+    if (!host) return { sent: [], exchanges: 0 };
+    return host.request({ kind: 'deliver', message, context });
+  }
+
+  async act(id: ProcessId, task: ProcessTask, context: ProcessContext): Promise<WorkResult> {
+    const host = this.hosts.get(id);
+    if (!host) return { sent: [], exchanges: 0 };
+    return host.request({ kind: 'act', task, context });
+  }
+
+  /**
+   * Applied to the reported states and posted to the workers as patches of the changed fields
+   */
+  override(edit: (states: ProcessState[]) => void): void {
+    const hosts = Array.from(this.hosts.values());
+    const states = hosts.map(host => host.snapshot());
+    edit(states);
+    hosts.forEach((host, index) => host.overwrite(states[index]));
+  }
+
+  /**
+   * The new worker gets the settings as they are now, so color priorities added for the process reach it
+   */
+  add(state: ProcessState): void {
+    this.hosts.set(state.id, new WorkerHost(this.pool.acquire(), state, this.settings));
+  }
+
+  remove(id: ProcessId): ProcessState | undefined {
+    const host = this.hosts.get(id);
+    if (!host) return undefined;
+
+    this.hosts.delete(id);
+    host.detach();
+    this.pool.release(host.worker);
+    return host.snapshot();
+  }
+
+  close(): void {
+    for (const host of this.hosts.values()) {
+      host.detach();
+      this.pool.release(host.worker);
+    }
+    this.hosts.clear();
+  }
+}
@@ -0,0 +1,84 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import type * as TypeScript from 'typescript';
+
+/**
+ * How to start a worker thread running `entry`: a script path, or when running from source (ts-node, Jest)
+ * a loader evaluated in the worker with the compiled sources as its worker data
+ */
+export interface WorkerSource {
+  script: string;
+  eval: boolean;
+  workerData?: CompiledSources;
+}
+
+interface CompiledSources {
+  entry: string;
+  files: Record<string, string>;    // JavaScript compiled from each TypeScript file the entry imports, by path
+}
+
+// Serves `require` of a TypeScript file from the compiled sources, so that the worker loads no compiler of its own
+const LOADER = `
+const { workerData } = require('worker_threads');
+require.extensions['.ts'] = (module, filename) => {
+  const code = workerData.files[filename];
+  if (code === undefined) throw new Error('No compiled source for ' + filename);
+  module._compile(code, filename);
+};
+require(workerData.entry);
+`;
+
+const compiled = new Map<string, CompiledSources>();
+
+/**
+ * Compiled JavaScript is started as it is; TypeScript is compiled here, once per entry, because loading the
+ * compiler takes each worker far longer than a whole run
+ */
+export function workerSource(entry: string): WorkerSource {
+  if (!entry.endsWith('.ts')) {
+    return { script: entry, eval: false };
+  }
+
+  if (!compiled.has(entry)) {
+    compiled.set(entry, compileSources(entry));
+  }
+  return { script: LOADER, eval: true, workerData: compiled.get(entry) };
+}
+
+/**
+ * Transpile `entry` and every TypeScript file it imports, with the compiler options of the nearest tsconfig
+ */
+function compileSources(entry: string): CompiledSources {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const ts: typeof TypeScript = require('typescript');
+  const compilerOptions = compilerOptionsFor(ts, entry);
+  const files: Record<string, string> = {};
+
+  const queue = [entry];
+  while (queue.length > 0) {
+    const file = queue.pop()!;
+    if (file in files) continue;
+
+    const text = readFileSync(file, 'utf8');
+    files[file] = ts.transpileModule(text, { compilerOptions, fileName: file }).outputText;
+    for (const { fileName } of ts.preProcessFile(text, true, false).importedFiles) {
+      if (fileName.startsWith('.')) {
+        queue.push(resolveSource(dirname(file), fileName));
+      }
+    }
+  }
+  return { entry, files };
+}
+
+function compilerOptionsFor(ts: typeof TypeScript, entry: string): TypeScript.CompilerOptions {
+  const configFile = ts.findConfigFile(dirname(entry), ts.sys.fileExists);
+  const options = configFile
+    ? ts.parseJsonConfigFileContent(ts.readConfigFile(configFile, ts.sys.readFile).config, ts.sys, dirname(configFile)).options
+    : {};
+  return { ...options, module: ts.ModuleKind.CommonJS, sourceMap: false, inlineSourceMap: true, declaration: false };
+}
+
+function resolveSource(from: string, specifier: string): string {
+  const base = resolve(from, specifier);
+  return existsSync(`${base}.ts`) ? `${base}.ts` : join(base, 'index.ts');
+}
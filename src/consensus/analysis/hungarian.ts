@@ -0,0 +1,66 @@
+/**
+ * Maximum-weight perfect matching on a square weight matrix (Hungarian algorithm, O(n³))
+ * Returns, for every row, the column it is assigned to
+ */
+export function maxWeightAssignment(weights: number[][]): number[] {
+  const n = weights.length;
+  if (n === 0) return [];
+
+  const maxWeight = Math.max(...weights.map(row => Math.max(...row)));
+  const cost = (row: number, column: number) => maxWeight - weights[row][column];
+
+  // Potentials and matching are 1-indexed; column 0 is a virtual start column
+  const u = new Array<number>(n + 1).fill(0);
+  const v = new Array<number>(n + 1).fill(0);
+  const matchedRow = new Array<number>(n + 1).fill(0);
+  const way = new Array<number>(n + 1).fill(0);
+
+  for (let row = 1; row <= n; row++) {
+    matchedRow[0] = row;
+    let column = 0;
+    const minSlack = new Array<number>(n + 1).fill(Infinity);
+    const used = new Array<boolean>(n + 1).fill(false);
+
+    do {
+      used[column] = true;
+      const currentRow = matchedRow[column];
+      let delta = Infinity;
+      let nextColumn = 0;
+
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const slack = cost(currentRow - 1, j - 1) - u[currentRow] - v[j];
+        if (slack < minSlack[j]) {
+          minSlack[j] = slack;
+          way[j] = column;
+        }
+        if (minSlack[j] < delta) {
+          delta = minSlack[j];
+          nextColumn = j;
+        }
+      }
+
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[matchedRow[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minSlack[j] -= delta;
+        }
+      }
+      column = nextColumn;
+    } while (matchedRow[column] !== 0);
+
+    do {
+      const previous = way[column];
+      matchedRow[column] = matchedRow[previous];
+      column = previous;
+    } while (column !== 0);
+  }
+
+  const assignment = new Array<number>(n).fill(-1);
+  for (let j = 1; j <= n; j++) {
+    assignment[matchedRow[j] - 1] = j - 1;
+  }
+  return assignment;
+}
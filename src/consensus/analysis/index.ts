@@ -0,0 +1,2 @@
+export { maxWeightAssignment } from './hungarian';
+export { analyzeOptimality, OptimalityAnalysis, ColorAssignment } from './optimality';
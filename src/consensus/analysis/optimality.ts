@@ -0,0 +1,144 @@
+import { Color, ProcessId, ProcessState } from '../types';
+import { maxWeightAssignment } from './hungarian';
+
+/**
+ * Color each process ends up holding (null when empty)
+ */
+export type ColorAssignment = Record<ProcessId, Color | null>;
+
+/**
+ * How far a run is from the cheapest way to sort the same initial distributions
+ */
+export interface OptimalityAnalysis {
+  everyColorPlaceable: boolean;         // at least as many processes as colors
+  optimalAssignment: ColorAssignment;
+  minimumTransfers: number;             // single-ball transfers needed to reach the optimal assignment
+  unplaceableBalls: number;             // balls of colors left without a process when colors outnumber processes
+  exchanges: number;
+  excessTransfers: number;
+  efficiency: number | null;            // minimumTransfers / exchanges; 1 is optimal, null before any transfer
+  isComplete: boolean;
+  finalAssignment: ColorAssignment;
+  finalAssignmentTransfers: number;     // transfers the final assignment needs from the initial distributions
+  finalAssignmentOptimal: boolean;
+}
+
+interface AssignmentCost {
+  unplaceableBalls: number;
+  transfers: number;
+}
+
+/**
+ * Lower bound on single-ball transfers and the assignment that achieves it
+ *
+ * A target state gives every process one color (or none); several processes may share a color.
+ * A ball must move exactly once if it does not sit on a process of its color and its color has a
+ * process somewhere; balls of colors without any process cannot be placed and stay put.
+ * The optimum first minimizes unplaceable balls (only non-zero with more colors than processes),
+ * then transfers. It is found as a maximum-weight matching of colors to processes, padded with
+ * "free" rows (a process taking its own majority color) or "nowhere" columns (a color left without a process)
+ */
+export function analyzeOptimality(
+  initialDistributions: Record<ProcessId, Color[]>,
+  finalProcesses: ProcessState[],
+  exchanges: number,
+  palette: Color[],
+  isComplete: boolean
+): OptimalityAnalysis {
+  const processIds = Object.keys(initialDistributions).map(Number);
+  const counts = processIds.map(id => countColors(initialDistributions[id]));
+  const totals = countColors(processIds.flatMap(id => initialDistributions[id]));
+  const colors = orderColors(Array.from(totals.keys()), palette);
+  const totalBalls = processIds.reduce((sum, id) => sum + initialDistributions[id].length, 0);
+
+  const size = Math.max(colors.length, processIds.length);
+  const bigWeight = totalBalls + 1; // homing more balls always outweighs keeping more in place
+  const weights: number[][] = [];
+  for (let row = 0; row < size; row++) {
+    weights.push(Array.from({ length: size }, (_, column) => {
+      if (column >= processIds.length) return 0;                                     // color without a process
+      if (row >= colors.length) return majority(counts[column], palette)?.[1] ?? 0;  // free process
+      return bigWeight * totals.get(colors[row])! + (counts[column].get(colors[row]) || 0);
+    }));
+  }
+
+  const matching = maxWeightAssignment(weights);
+  const optimalAssignment: ColorAssignment = {};
+  matching.forEach((column, row) => {
+    if (column >= processIds.length) return;
+    optimalAssignment[processIds[column]] = row < colors.length
+      ? colors[row]
+      : majority(counts[column], palette)?.[0] ?? null;
+  });
+
+  const optimum = assignmentCost(optimalAssignment, processIds, counts, totals);
+  const finalAssignment: ColorAssignment = {};
+  for (const id of processIds) {
+    const process = finalProcesses.find(p => p.id === id);
+    finalAssignment[id] = process ? majority(countColors(process.stack), palette)?.[0] ?? null : null;
+  }
+  const achieved = assignmentCost(finalAssignment, processIds, counts, totals);
+
+  return {
+    everyColorPlaceable: colors.length <= processIds.length,
+    optimalAssignment,
+    minimumTransfers: optimum.transfers,
+    unplaceableBalls: optimum.unplaceableBalls,
+    exchanges,
+    excessTransfers: exchanges - optimum.transfers,
+    efficiency: exchanges > 0 ? Math.round(optimum.transfers / exchanges * 1000) / 1000 : (optimum.transfers === 0 ? 1 : null),
+    isComplete,
+    finalAssignment,
+    finalAssignmentTransfers: achieved.transfers,
+    finalAssignmentOptimal: achieved.unplaceableBalls === optimum.unplaceableBalls && achieved.transfers === optimum.transfers
+  };
+}
+
+function assignmentCost(
+  assignment: ColorAssignment,
+  processIds: ProcessId[],
+  counts: Map<Color, number>[],
+  totals: Map<Color, number>
+): AssignmentCost {
+  const homed = new Set(Object.values(assignment).filter((c): c is Color => c !== null));
+  let placed = 0;
+  let kept = 0;
+  for (const [color, total] of totals) {
+    if (homed.has(color)) placed += total;
+  }
+  processIds.forEach((id, index) => {
+    const color = assignment[id];
+    if (color !== null) kept += counts[index].get(color) || 0;
+  });
+
+  const totalBalls = Array.from(totals.values()).reduce((sum, n) => sum + n, 0);
+  return { unplaceableBalls: totalBalls - placed, transfers: placed - kept };
+}
+
+function countColors(stack: Color[]): Map<Color, number> {
+  const counts = new Map<Color, number>();
+  for (const ball of stack) {
+    counts.set(ball, (counts.get(ball) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Most frequent color, ties broken by palette order; null for an empty stack
+ */
+function majority(counts: Map<Color, number>, palette: Color[]): [Color, number] | null {
+  let best: [Color, number] | null = null;
+  for (const color of orderColors(Array.from(counts.keys()), palette)) {
+    const count = counts.get(color)!;
+    if (!best || count > best[1]) best = [color, count];
+  }
+  return best;
+}
+
+function orderColors(colors: Color[], palette: Color[]): Color[] {
+  const rank = (color: Color) => {
+    const index = palette.indexOf(color);
+    return index === -1 ? palette.length : index;
+  };
+  return [...colors].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
@@ -2,135 +2,115 @@ import {
   Controller, 
   Get, 
   Post, 
-  Logger, 
-  HttpException, 
-  HttpStatus,
+  Body,
+  Query,
+  Res,
   HttpCode
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { Response } from 'express';
+import { BaseConsensusController } from './base-consensus.controller';
 import { ConsensusService } from './consensus.service';
+import { SessionRegistryService, SessionSummary } from './session-registry.service';
+import { ResetConsensusDto, ExperimentConfigDto, ExperimentFormatDto, InboundMessageDto } from './dto';
+import { Message } from './types';
+import { ExperimentRunnerService, ExperimentReport, toCsv } from './experiments';
 
 /**
  * REST API Controller for the Consensus Algorithm
  * Provides endpoints to control and monitor the ball sorting process
+ * Engine routes here act on the default session; see SessionController for others
  */
 @ApiTags('consensus')
 @Controller('consensus')
-export class ApiController {
-  private readonly logger = new Logger(ApiController.name);
-
-  constructor(private readonly consensusService: ConsensusService) {}
-
-  /**
-   * Start the consensus algorithm
-   */
-  @Post('start')
-  @HttpCode(200)
-  @ApiOperation({ summary: 'Start the consensus algorithm' })
-  @ApiResponse({ status: 200, description: 'Consensus algorithm started successfully' })
-  @ApiResponse({ status: 500, description: 'Internal server error' })
-  async startConsensus(): Promise<{ message: string; started: boolean }> {
-    try {
-      this.logger.log('Starting consensus algorithm via REST API');
-      
-      // Start the real consensus algorithm
-      await this.consensusService.startConsensus();
-      
-      return {
-        message: 'Consensus algorithm completed',
-        started: true
-      };
-    } catch (error) {
-      this.logger.error('Error starting consensus:', error);
-      throw new HttpException(
-        'Failed to start consensus algorithm',
-        HttpStatus.INTERNAL_SERVER_ERROR
-      );
-    }
+export class ApiController extends BaseConsensusController {
+  constructor(
+    private readonly sessionRegistry: SessionRegistryService,
+    private readonly experimentRunner: ExperimentRunnerService
+  ) {
+    super();
   }
 
-  /**
-   * Reset the system to initial state
-   */
-  @Post('reset')
-  @HttpCode(200)
-  @ApiOperation({ summary: 'Reset the system to initial state' })
-  @ApiResponse({ status: 200, description: 'System reset successfully' })
-  reset(): { message: string; reset: boolean } {
-    this.logger.log('Resetting system via REST API');
-    
-    // Reset the real consensus service
-    this.consensusService.reset();
-    
-    return {
-      message: 'System reset to initial state',
-      reset: true
-    };
+  protected resolveEngine(): ConsensusService {
+    return this.sessionRegistry.getDefaultSession().engine;
   }
 
   /**
-   * Get current system state
+   * Create a new isolated simulation session
    */
-  @Get('state')
-  @ApiOperation({ summary: 'Get current system state' })
-  @ApiResponse({ status: 200, description: 'Current system state' })
-  getState(): any {
-    return this.consensusService.getSystemState();
+  @Post('sessions')
+  @HttpCode(201)
+  @ApiOperation({
+    summary: 'Create a simulation session',
+    description: 'Optionally provide custom distributions (and a palette) for the new session'
+  })
+  @ApiBody({ type: ResetConsensusDto, required: false })
+  @ApiResponse({ status: 201, description: 'Session created' })
+  @ApiResponse({ status: 400, description: 'Invalid distributions or palette' })
+  async createSession(@Body() body: ResetConsensusDto = {}): Promise<SessionSummary> {
+    const session = await this.sessionRegistry.createSession();
+    if (body.distributions) {
+      try {
+        await this.runCommand(() => this.applyReset(session.engine, body));
+      } catch (error) {
+        this.sessionRegistry.deleteSession(session.id); // A session whose distributions were rejected is never handed out
+        throw error;
+      }
+    }
+
+    return this.sessionRegistry.summarize(session);
   }
 
   /**
-   * Get system history
+   * List all simulation sessions
    */
-  @Get('history')
-  @ApiOperation({ summary: 'Get system history' })
-  @ApiResponse({ status: 200, description: 'System history' })
-  getHistory(): any[] {
-    return this.consensusService.getSystemHistory();
+  @Get('sessions')
+  @ApiOperation({ summary: 'List simulation sessions' })
+  @ApiResponse({ status: 200, description: 'All active sessions' })
+  listSessions(): SessionSummary[] {
+    return this.sessionRegistry.listSessions().map(session => this.sessionRegistry.summarize(session));
   }
 
   /**
-   * Get current potential function value
+   * Run a batch of headless runs and return per-run results with summary statistics
    */
-  @Get('potential')
-  @ApiOperation({ summary: 'Get current potential function value' })
-  @ApiResponse({ status: 200, description: 'Current potential function value' })
-  getPotentialFunction(): { value: number; description: string } {
-    return {
-      value: this.consensusService.calculatePotentialFunction(),
-      description: 'Total number of miscolored balls across all processes'
-    };
+  @Post('experiments')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Run a batch experiment',
+    description: 'Executes runs over generated or supplied distributions and seeds on a private engine; reports exchanges, iterations, messages by type, final Φ, forced terminations and wall time per run, plus summary statistics'
+  })
+  @ApiBody({ type: ExperimentConfigDto })
+  @ApiResponse({ status: 200, description: 'Experiment report (JSON) or one CSV line per run' })
+  @ApiResponse({ status: 400, description: 'Invalid experiment configuration' })
+  async runExperiment(
+    @Body() body: ExperimentConfigDto,
+    @Query() query: ExperimentFormatDto,
+    @Res({ passthrough: true }) response: Response
+  ): Promise<ExperimentReport | string> {
+    const report = await this.runCommand(() => this.experimentRunner.run(body));
+    if (query.format === 'csv') {
+      response.type('text/csv');
+      return toCsv(report.runs);
+    }
+    return report;
   }
 
   /**
-   * Get algorithm information
+   * Take a message sent by a process on another instance to the process hosted here
    */
-  @Get('info')
-  @ApiOperation({ summary: 'Get algorithm information' })
-  @ApiResponse({ status: 200, description: 'Algorithm information' })
-  getInfo(): any {
-    return {
-      name: 'Distributed Ball Sorting Consensus Algorithm',
-      description: 'A self-stabilizing distributed algorithm for sorting colored balls across independent processes',
-      properties: [
-        'No global state visibility',
-        'One ball per message constraint',
-        'Local decision making only',
-        'Guaranteed convergence via potential function',
-        'Self-stabilizing behavior'
-      ],
-      rules: [
-        'Processes start without knowledge of others\' balls',
-        'Can only request/send one ball at a time',
-        'Process exits when it has all balls of single color',
-        'Uses round-robin partner selection',
-        'Majority color becomes the wanted color'
-      ],
-      potentialFunction: 'Φ = total number of miscolored balls (decreases with each exchange)',
-      references: [
-        'Dijkstra\'s self-stabilizing token-ring',
-        'Token-based dynamic load-balancing',
-        'Locally-greedy self-stabilising algorithms'
-      ]
-    };
+  @Post('inbox')
+  @HttpCode(202)
+  @ApiOperation({
+    summary: 'Receive a message from another instance',
+    description: 'Used by the HTTP transport: the message joins the queue and is delivered when the scheduler picks it'
+  })
+  @ApiBody({ type: InboundMessageDto })
+  @ApiResponse({ status: 202, description: 'Message queued' })
+  @ApiResponse({ status: 400, description: 'The recipient is not hosted here or the sender is not a peer' })
+  async receiveMessage(@Body() body: InboundMessageDto): Promise<{ queued: boolean }> {
+    const engine = this.resolveEngine();
+    await this.runCommand(() => engine.receiveMessage(body as Message));
+    return { queued: true };
   }
-}
\ No newline at end of file
+}
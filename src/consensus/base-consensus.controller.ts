@@ -0,0 +1,540 @@
+import { 
+  Get, 
+  Post, 
+  Body,
+  Query,
+  Param,
+  ParseIntPipe,
+  Req,
+  Logger, 
+  ConflictException,
+  BadRequestException,
+  NotFoundException,
+  HttpCode,
+  Header
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { Request } from 'express';
+import { ConsensusService } from './consensus.service';
+import { ResetConsensusDto, StartConsensusDto, StepConsensusDto, CorruptStateDto, ReplayRunDto, HistoryQueryDto, JoinProcessDto } from './dto';
+import { ConsensusStateError, ConsensusInputError } from './errors';
+import { RecoveryRecord, RecoveryReport } from './corruption';
+import { InvariantReport } from './invariants';
+import { toJsonLines } from './tracing';
+import { RecordedRun, ReplayResult } from './replay';
+import { HistoryPage } from './history';
+import { OptimalityAnalysis } from './analysis';
+import { TerminationStatus } from './termination';
+import { KnowledgeReport } from './knowledge';
+import { ProcessInspection } from './actors';
+import { TransportStatus } from './transport';
+import { TopologyGraph } from './topology';
+import { MembershipRecord, MembershipReport } from './membership';
+import { Color, ProcessId, RunInfo, RunOptions, StepResult, FaultReport, SystemState } from './types';
+
+/**
+ * Base REST API Controller for the Consensus Algorithm
+ * Declares every engine route once; subclasses decide which engine a request targets
+ */
+export abstract class BaseConsensusController {
+  protected readonly logger = new Logger(this.constructor.name);
+
+  /**
+   * Resolve the engine (session) addressed by the current request
+   */
+  protected abstract resolveEngine(request: Request): ConsensusService;
+
+  /**
+   * Start the consensus algorithm without waiting for it to finish
+   */
+  @Post('start')
+  @HttpCode(202)
+  @ApiOperation({
+    summary: 'Start the consensus algorithm',
+    description: 'Returns a run handle immediately; poll /status or subscribe to the event stream for progress. Optionally choose the message delivery scheduler'
+  })
+  @ApiBody({ type: StartConsensusDto, required: false })
+  @ApiResponse({ status: 202, description: 'Consensus algorithm started' })
+  @ApiResponse({ status: 400, description: 'Invalid scheduler configuration' })
+  @ApiResponse({ status: 409, description: 'A run is already in progress' })
+  async startConsensus(@Req() request: Request, @Body() body: StartConsensusDto = {}): Promise<{ message: string; started: boolean; run: RunInfo }> {
+    const engine = this.resolveEngine(request);
+    this.logger.log('Starting consensus algorithm via REST API');
+
+    const run = await this.runCommand(() => engine.startRun(this.toRunOptions(body)));
+    
+    return {
+      message: 'Consensus algorithm started',
+      started: true,
+      run
+    };
+  }
+
+  /**
+   * Pause the running algorithm
+   */
+  @Post('pause')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Pause the running consensus algorithm' })
+  @ApiResponse({ status: 200, description: 'Run paused' })
+  @ApiResponse({ status: 409, description: 'No running run to pause' })
+  pause(@Req() request: Request): Promise<RunInfo> {
+    const engine = this.resolveEngine(request);
+    return this.runCommand(() => engine.pauseConsensus());
+  }
+
+  /**
+   * Resume a paused algorithm
+   */
+  @Post('resume')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Resume a paused consensus algorithm' })
+  @ApiResponse({ status: 200, description: 'Run resumed' })
+  @ApiResponse({ status: 409, description: 'No paused run to resume' })
+  resume(@Req() request: Request): Promise<RunInfo> {
+    const engine = this.resolveEngine(request);
+    return this.runCommand(() => engine.resumeConsensus());
+  }
+
+  /**
+   * Stop the running or paused algorithm
+   */
+  @Post('stop')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Stop the running consensus algorithm' })
+  @ApiResponse({ status: 200, description: 'Run stopped' })
+  @ApiResponse({ status: 409, description: 'No active run to stop' })
+  stop(@Req() request: Request): Promise<RunInfo> {
+    const engine = this.resolveEngine(request);
+    return this.runCommand(() => engine.stopConsensus());
+  }
+
+  /**
+   * Execute the protocol one message (or request tick) at a time
+   */
+  @Post('step')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Step through the protocol',
+    description: 'Delivers exactly `count` messages (or request ticks when the queue is empty) and reports the affected processes and the change in Φ'
+  })
+  @ApiBody({ type: StepConsensusDto, required: false })
+  @ApiResponse({ status: 200, description: 'Executed steps' })
+  @ApiResponse({ status: 409, description: 'A run is in progress and not paused' })
+  step(@Req() request: Request, @Body() body: StepConsensusDto = {}): Promise<StepResult> {
+    const engine = this.resolveEngine(request);
+    return this.runCommand(() => engine.step(body.count ?? 1, this.toRunOptions(body)));
+  }
+
+  /**
+   * Get the status of the current or last run
+   */
+  @Get('status')
+  @ApiOperation({ summary: 'Get the current run status' })
+  @ApiResponse({ status: 200, description: 'Run status (idle, running, paused, stopped, completed or failed)' })
+  getStatus(@Req() request: Request): RunInfo {
+    return this.resolveEngine(request).getRunInfo();
+  }
+
+  /**
+   * Get the faults injected into the current run
+   */
+  @Get('faults')
+  @ApiOperation({ summary: 'Get the network fault report', description: 'Faults injected since the last reset, REQUEST retransmissions and whether ball conservation still holds' })
+  @ApiResponse({ status: 200, description: 'Fault report' })
+  getFaults(@Req() request: Request): FaultReport {
+    return this.resolveEngine(request).getFaultReport();
+  }
+
+  /**
+   * Export the causal message trace
+   */
+  @Get('trace')
+  @Header('Content-Type', 'application/x-ndjson')
+  @ApiOperation({
+    summary: 'Export the message trace as JSON Lines',
+    description: 'A header line with the configuration and initial distributions, then one send/deliver event per line with message IDs, Lamport (and optionally vector) clocks and causal parents'
+  })
+  @ApiResponse({ status: 200, description: 'JSON Lines trace' })
+  getTrace(@Req() request: Request): string {
+    const { header, events } = this.resolveEngine(request).getTrace();
+    return toJsonLines(header, events);
+  }
+
+  /**
+   * Get invariant checks and violations
+   */
+  @Get('invariants')
+  @ApiOperation({
+    summary: 'Get the invariant report',
+    description: 'Ball and per-color conservation, no mixed DONE process when perfect monochrome is achievable and Φ never rising on SEND, checked after every delivery'
+  })
+  @ApiResponse({ status: 200, description: 'Invariant report' })
+  getInvariants(@Req() request: Request): InvariantReport {
+    return this.resolveEngine(request).getInvariantReport();
+  }
+
+  /**
+   * Corrupt process state to exercise self-stabilization
+   */
+  @Post('corrupt')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Inject corrupted state',
+    description: 'Overwrites isDone, wanted or partner on processes and/or appends stale REQUEST/DONE messages, at any point of a run'
+  })
+  @ApiBody({ type: CorruptStateDto })
+  @ApiResponse({ status: 200, description: 'Recovery record tracking the corruption' })
+  @ApiResponse({ status: 400, description: 'Unknown process, color or empty corruption' })
+  corrupt(@Req() request: Request, @Body() body: CorruptStateDto): Promise<RecoveryRecord> {
+    const engine = this.resolveEngine(request);
+    this.logger.warn('Injecting corrupted state via REST API');
+    return this.runCommand(() => engine.injectCorruption(body));
+  }
+
+  /**
+   * Get the recovery report for injected corruptions
+   */
+  @Get('recovery')
+  @ApiOperation({ summary: 'Get the recovery report', description: 'Whether and how many deliveries it took to re-converge after each corruption' })
+  @ApiResponse({ status: 200, description: 'Recovery report' })
+  getRecovery(@Req() request: Request): RecoveryReport {
+    return this.resolveEngine(request).getRecoveryReport();
+  }
+
+  /**
+   * Export the current run for deterministic replay
+   */
+  @Get('recording')
+  @ApiOperation({
+    summary: 'Export a replayable recording of the run',
+    description: 'Initial distributions, run options, the exact delivery order since the last reset and a digest of every history snapshot'
+  })
+  @ApiResponse({ status: 200, description: 'Recorded run' })
+  getRecording(@Req() request: Request): RecordedRun {
+    return this.resolveEngine(request).getRecording();
+  }
+
+  /**
+   * Re-execute a recorded run and report the first divergence
+   */
+  @Post('replay')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Replay a recorded run',
+    description: 'Resets to the recording\'s initial state, re-delivers its messages in the recorded order and compares every history snapshot; the first divergence is reported'
+  })
+  @ApiBody({ type: ReplayRunDto })
+  @ApiResponse({ status: 200, description: 'Replay result' })
+  @ApiResponse({ status: 400, description: 'Malformed recording' })
+  @ApiResponse({ status: 409, description: 'A run is in progress' })
+  replay(@Req() request: Request, @Body() body: ReplayRunDto): Promise<ReplayResult> {
+    const engine = this.resolveEngine(request);
+    this.logger.log('Replaying recorded run via REST API');
+    return this.runCommand(() => engine.replay(body as RecordedRun));
+  }
+
+  /**
+   * Reset the system to initial state
+   */
+  @Post('reset')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Reset the system to initial state',
+    description: 'Optionally provide custom distributions (and a palette) to start from a new scenario'
+  })
+  @ApiBody({ type: ResetConsensusDto, required: false })
+  @ApiResponse({ status: 200, description: 'System reset successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid distributions or palette' })
+  @ApiResponse({ status: 409, description: 'A run is in progress' })
+  async reset(@Req() request: Request, @Body() body: ResetConsensusDto = {}): Promise<{ message: string; reset: boolean }> {
+    const engine = this.resolveEngine(request);
+    this.logger.log('Resetting system via REST API');
+    
+    // Reset the real consensus service
+    await this.runCommand(() => this.applyReset(engine, body));
+    
+    return {
+      message: body.distributions ? 'System reset with custom distributions' : 'System reset to initial state',
+      reset: true
+    };
+  }
+
+  /**
+   * Get current system state
+   */
+  @Get('state')
+  @ApiOperation({ summary: 'Get current system state' })
+  @ApiResponse({ status: 200, description: 'Current system state' })
+  getState(@Req() request: Request): any {
+    return this.resolveEngine(request).getSystemState();
+  }
+
+  /**
+   * Get a page of system history
+   */
+  @Get('history')
+  @ApiOperation({
+    summary: 'Get system history',
+    description: 'Snapshots [from, to) as a full keyframe followed by per-step deltas (changed processes, removed and inserted messages)'
+  })
+  @ApiResponse({ status: 200, description: 'History page' })
+  @ApiResponse({ status: 400, description: 'Invalid range: reversed, or outside the retained snapshots' })
+  getHistory(@Req() request: Request, @Query() query: HistoryQueryDto): Promise<HistoryPage> {
+    const engine = this.resolveEngine(request);
+    return this.runCommand(() => engine.getHistoryPage(query.from, query.to));
+  }
+
+  /**
+   * Get one reconstructed history snapshot
+   */
+  @Get('history/:index')
+  @ApiOperation({ summary: 'Get the full system state at a history index' })
+  @ApiResponse({ status: 200, description: 'Reconstructed system state' })
+  @ApiResponse({ status: 404, description: 'Snapshot not recorded yet or beyond the retention limit' })
+  getHistoryState(@Req() request: Request, @Param('index', ParseIntPipe) index: number): SystemState {
+    const state = this.resolveEngine(request).getHistoryState(index);
+    if (!state) {
+      throw new NotFoundException(`History snapshot ${index} is not retained`);
+    }
+    return state;
+  }
+
+  /**
+   * Inspect a single process actor
+   */
+  @Get('processes/:id')
+  @ApiOperation({
+    summary: 'Inspect one process',
+    description: "A copy of the process's state and how many messages it received and sent since the last reset; messages still in transit to it are listed in GET /consensus/state"
+  })
+  @ApiResponse({ status: 200, description: 'Process inspection' })
+  @ApiResponse({ status: 404, description: 'No such process' })
+  getProcess(@Req() request: Request, @Param('id', ParseIntPipe) id: number): ProcessInspection {
+    const inspection = this.resolveEngine(request).getProcessInspection(id);
+    if (!inspection) {
+      throw new NotFoundException(`Process ${id} does not exist`);
+    }
+    return inspection;
+  }
+
+  /**
+   * Add a process with balls of its own, during a run or between runs
+   */
+  @Post('processes')
+  @HttpCode(201)
+  @ApiOperation({
+    summary: 'Add a process',
+    description: 'The process joins with its own balls (and optionally a capacity and target size); DONE processes that could now do better take part again'
+  })
+  @ApiBody({ type: JoinProcessDto })
+  @ApiResponse({ status: 201, description: 'Membership record of the join' })
+  @ApiResponse({ status: 400, description: 'ID in use or used before, unknown color, or target sizes that cannot be met' })
+  @ApiResponse({ status: 409, description: 'This instance hosts only some of the processes' })
+  addProcess(@Req() request: Request, @Body() body: JoinProcessDto): Promise<MembershipRecord> {
+    const engine = this.resolveEngine(request);
+    this.logger.log(`Process ${body.id} joining via REST API`);
+    return this.runCommand(() => engine.changeMembership({ kind: 'join', ...body }));
+  }
+
+  /**
+   * Let a process leave, handing its balls to its peers
+   */
+  @Post('processes/:id/leave')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Remove a process gracefully',
+    description: 'The process sends every ball it holds to a peer with room, preferring one that wants its color; balls that reach it later are passed on the same way'
+  })
+  @ApiResponse({ status: 200, description: 'Membership record of the leave, with the balls handed off' })
+  @ApiResponse({ status: 400, description: 'No such process, the last process, or no peer has room for its balls' })
+  @ApiResponse({ status: 409, description: 'This instance hosts only some of the processes' })
+  leaveProcess(@Req() request: Request, @Param('id', ParseIntPipe) id: number): Promise<MembershipRecord> {
+    const engine = this.resolveEngine(request);
+    this.logger.log(`Process ${id} leaving via REST API`);
+    return this.runCommand(() => engine.changeMembership({ kind: 'leave', id }));
+  }
+
+  /**
+   * Crash a process, losing its balls
+   */
+  @Post('processes/:id/crash')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Crash a process',
+    description: 'The process stops without a word; the balls it held, and any that reach it later, are lost and reported'
+  })
+  @ApiResponse({ status: 200, description: 'Membership record of the crash, with the balls lost' })
+  @ApiResponse({ status: 400, description: 'No such process or the last process' })
+  @ApiResponse({ status: 409, description: 'This instance hosts only some of the processes' })
+  crashProcess(@Req() request: Request, @Param('id', ParseIntPipe) id: number): Promise<MembershipRecord> {
+    const engine = this.resolveEngine(request);
+    this.logger.warn(`Crashing process ${id} via REST API`);
+    return this.runCommand(() => engine.changeMembership({ kind: 'crash', id }));
+  }
+
+  /**
+   * Get the membership changes since the last reset
+   */
+  @Get('membership')
+  @ApiOperation({
+    summary: 'Get the membership report',
+    description: 'Processes taking part, those that left or crashed, every change with the balls handed off, lost and the processes woken, and the balls that joined or were lost in total'
+  })
+  @ApiResponse({ status: 200, description: 'Membership report' })
+  getMembership(@Req() request: Request): MembershipReport {
+    return this.resolveEngine(request).getMembershipReport();
+  }
+
+  /**
+   * Compare the run with the cheapest way to sort the same initial distributions
+   */
+  @Get('analysis')
+  @ApiOperation({
+    summary: 'Get the optimality analysis',
+    description: 'Optimal color-to-process assignment for the initial distributions, the minimum number of single-ball transfers to reach it, the exchanges made so far against that bound and whether the final assignment is optimal'
+  })
+  @ApiResponse({ status: 200, description: 'Optimality analysis' })
+  getAnalysis(@Req() request: Request): OptimalityAnalysis {
+    return this.resolveEngine(request).getOptimalityAnalysis();
+  }
+
+  /**
+   * Get the state of the termination detection protocol
+   */
+  @Get('termination')
+  @ApiOperation({
+    summary: 'Get the termination detector state',
+    description: "Safra's token-ring detection: per-process message counters and colors, waves started, the token's position and whether termination has been detected"
+  })
+  @ApiResponse({ status: 200, description: 'Termination detector state' })
+  getTermination(@Req() request: Request): TerminationStatus {
+    return this.resolveEngine(request).getTerminationStatus();
+  }
+
+  /**
+   * Get how messages leave this instance
+   */
+  @Get('transport')
+  @ApiOperation({
+    summary: 'Get the transport state',
+    description: 'In memory, or over HTTP: the process hosted here and, per peer instance, messages delivered, given up on and pending'
+  })
+  @ApiResponse({ status: 200, description: 'Transport state' })
+  getTransport(@Req() request: Request): TransportStatus {
+    return this.resolveEngine(request).getTransportStatus();
+  }
+
+  /**
+   * Get the communication graph of the current run
+   */
+  @Get('topology')
+  @ApiOperation({
+    summary: 'Get the communication topology',
+    description: 'The processes and the links between them; partners are chosen among neighbours and messages to others are relayed along shortest routes'
+  })
+  @ApiResponse({ status: 200, description: 'Topology graph' })
+  getTopology(@Req() request: Request): TopologyGraph {
+    return this.resolveEngine(request).getTopology();
+  }
+
+  /**
+   * Get what each process knows about its peers
+   */
+  @Get('knowledge')
+  @ApiOperation({
+    summary: 'Get per-process knowledge of peers',
+    description: 'The summaries (color counts, wanted color, done flag, version) each process last received through gossip, and the peers it has not heard about yet'
+  })
+  @ApiResponse({ status: 200, description: 'Knowledge report' })
+  getKnowledge(@Req() request: Request): KnowledgeReport {
+    return this.resolveEngine(request).getKnowledgeReport();
+  }
+
+  /**
+   * Get current potential function value
+   */
+  @Get('potential')
+  @ApiOperation({ summary: 'Get current potential function value' })
+  @ApiResponse({ status: 200, description: 'Current potential function value' })
+  getPotentialFunction(@Req() request: Request): { value: number; description: string } {
+    return {
+      value: this.resolveEngine(request).calculatePotentialFunction(),
+      description: 'Total number of miscolored balls across all processes'
+    };
+  }
+
+  /**
+   * Get algorithm information
+   */
+  @Get('info')
+  @ApiOperation({ summary: 'Get algorithm information' })
+  @ApiResponse({ status: 200, description: 'Algorithm information' })
+  getInfo(): any {
+    return {
+      name: 'Distributed Ball Sorting Consensus Algorithm',
+      description: 'A self-stabilizing distributed algorithm for sorting colored balls across independent processes',
+      properties: [
+        'No global state visibility',
+        'One ball per message constraint',
+        'Local decision making only',
+        'Guaranteed convergence via potential function',
+        'Self-stabilizing behavior'
+      ],
+      rules: [
+        'Processes start without knowledge of others\' balls',
+        'Peers are known only through gossip piggybacked on messages, and may be stale',
+        'Can only request/send one ball at a time',
+        'Process exits when it has all balls of single color',
+        'Knowledge is gossip by default: a process yields a contested color to a peer it knows has the stronger claim',
+        'Global knowledge reads the actual peer state and lets the engine resolve color conflicts, for comparison',
+        'Partners are chosen by scoring by default (round-robin, random and others are per-run options)',
+        'The wanted color is the bottom of the stack by default (majority and others are per-run options)'
+      ],
+      potentialFunction: 'Φ = total number of miscolored balls (decreases with each exchange)',
+      references: [
+        'Dijkstra\'s self-stabilizing token-ring',
+        'Token-based dynamic load-balancing',
+        'Locally-greedy self-stabilising algorithms'
+      ]
+    };
+  }
+
+  /**
+   * Execute an engine command, translating run-state violations into 409 Conflict
+   * and references to things the system does not have into 400 Bad Request
+   */
+  protected async runCommand<T>(command: () => T | Promise<T>): Promise<T> {
+    try {
+      return await command();
+    } catch (error) {
+      if (error instanceof ConsensusStateError) {
+        throw new ConflictException(error.message);
+      }
+      if (error instanceof ConsensusInputError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run options from a request body, or undefined to keep the engine's current ones
+   */
+  protected toRunOptions(body: StartConsensusDto): RunOptions | undefined {
+    const { count, ...options } = body as StepConsensusDto;
+    return Object.values(options).some(value => value !== undefined) ? options : undefined;
+  }
+
+  /**
+   * Reset an engine to the defaults or to the distributions in the request body
+   */
+  protected applyReset(engine: ConsensusService, body: ResetConsensusDto): void {
+    if (body.distributions) {
+      const distributions = body.distributions as Record<ProcessId, Color[]>;
+      engine.reset(distributions, body.colors, { capacities: body.capacities, targetSizes: body.targetSizes });
+    } else {
+      engine.reset();
+    }
+  }
+}
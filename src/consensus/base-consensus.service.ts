@@ -1,5 +1,7 @@
-import { Injectable } from '@nestjs/common';
-import { Color, ProcessId, ProcessState, Message, SystemState } from './types';
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Color, ProcessId, ProcessState, Message, SystemState, ColorPriorityTable, RunInfo, RunOptions, RunStatus, FaultReport, StackLimits, StepRecord, StepResult } from './types';
+import { ConsensusStateError, ConsensusInputError, InvariantViolationError, ReplayDivergenceError } from './errors';
 import {
   ColorSelectionService,
   PartnerSelectionService,
@@ -7,18 +9,105 @@ import {
   LoggingSystemService,
   SystemStateService
 } from './services';
+import { MessageScheduler, createScheduler } from './schedulers';
+import { FaultInjector } from './faults';
+import { CorruptionSpec, RecoveryRecord, RecoveryReport, RecoveryTracker, validateCorruption, applyCorruption } from './corruption';
+import { INVARIANTS, LOCAL_INVARIANTS, InvariantChecker, InvariantReport, InvariantViolation } from './invariants';
+import { MessageTracer, TraceEvent, TraceHeader } from './tracing';
+import { RunHistory, HistoryPage, RetentionBuffer } from './history';
+import { OptimalityAnalysis, analyzeOptimality } from './analysis';
+import { SafraDetector, TerminationKind, TerminationStatus } from './termination';
+import { KnowledgeBase, KnowledgeMode, KnowledgeReport, resolveKnowledgeMode } from './knowledge';
+import {
+  ActorRuntime,
+  ProcessContext,
+  ProcessInspection,
+  ProcessProtocol,
+  ProcessRuntime,
+  ProcessTask,
+  ProtocolSettings,
+  RuntimeMode,
+  WorkerRuntime,
+  resolveRuntimeMode
+} from './actors';
+import {
+  WantedColorStrategy,
+  WantedColorStrategyName,
+  PartnerSelectionStrategy,
+  createWantedColorStrategy,
+  createPartnerSelectionStrategy
+} from './strategies';
+import { InMemoryTransport, Transport, TransportStatus } from './transport';
+import { Topology, TopologyGraph, createTopology } from './topology';
+import { validateStackLimits, validateTargetTotals } from './limits';
+import { DepartureKind, MembershipChange, MembershipLog, MembershipRecord, MembershipReport, planHandoff, validateMembershipChange } from './membership';
+import { JournalEntry, RecordedRun, ReplayDivergence, ReplayResult, ReplayScheduler, RECORDING_VERSION, digestState } from './replay';
+
+const DEFAULT_STEP_DELAY_MS = 10;
 
 /**
  * Base Consensus Service Implementation
  * Contains the core algorithm logic, injectable by NestJS
  */
 @Injectable()
-export class BaseConsensusService {
-  protected processes: ProcessState[] = [];
+export class BaseConsensusService implements OnModuleDestroy {
+  protected runtime: ProcessRuntime; // One actor per process, owning its state: inline or in worker threads
   protected messageQueue: Message[] = [];
-  protected systemHistory: SystemState[] = [];
+  protected systemHistory = new RunHistory();
+  private historyDigests = new RetentionBuffer<string>(this.systemHistory.getConfig().retentionLimit); // One per retained snapshot
   protected totalExchanges = 0;
   protected isRunning = false;
+  private lastPotentialFunction: number | null = null;
+
+  // Run lifecycle: pause gate, stop flag and completion signal for the active run
+  private currentRun: RunInfo = BaseConsensusService.createIdleRun('fifo', 'bottom-of-stack', 'scoring', 'gossip', 'inline', 'complete');
+  private stopRequested = false;
+  private pauseGate: Promise<void> | null = null;
+  private releasePauseGate: (() => void) | null = null;
+  private runFinished: Promise<void> = Promise.resolve();
+
+  // Units of work run one after another: with worker threads each one spans real awaits
+  private workInProgress: Promise<unknown> = Promise.resolve();
+  private unitsInFlight = 0;
+
+  // Delivery order and network faults: rebuilt from the run options on every reset so seeded runs replay identically
+  private runOptions: RunOptions = {};
+  private scheduler: MessageScheduler = createScheduler();
+  private faultInjector: FaultInjector | null = null;
+  private wantedColorStrategy: WantedColorStrategy = createWantedColorStrategy();
+  private partnerSelectionStrategy: PartnerSelectionStrategy = createPartnerSelectionStrategy();
+  private knowledgeMode: KnowledgeMode = resolveKnowledgeMode();
+  private runtimeMode: RuntimeMode = resolveRuntimeMode();
+  private topology: Topology = createTopology(undefined, []); // Who may talk to whom directly; messages to others are relayed
+  private retiredBallAdjustments: Record<Color, number> = {}; // Balls changed by fault layers replaced since the last reset
+  private membershipLog = new MembershipLog(); // Processes that joined or left since the last reset, and the balls that came and went with them
+  private membershipVersion = 0; // Grows with every membership change, so a run in progress gives the new set of processes a fresh allowance
+  private analysisBaseline: { distributions: Record<ProcessId, Color[]>; exchanges: number } | null = null; // Stacks right after the last membership change
+
+  // Injected corruptions and whether the system re-converged after them
+  private recoveryTracker = new RecoveryTracker();
+  private terminationForced = false; // Last completion was forced by stagnation or the iteration limit
+
+  // Invariants checked after every delivery since the last reset
+  private invariantChecker = new InvariantChecker();
+
+  // Logical clocks and the send/deliver trace since the last reset
+  private tracer = new MessageTracer([]);
+
+  // Token-ring termination detection running alongside the protocol; it, not the loop, ends a run
+  private terminationDetector = new SafraDetector([]);
+
+  // Each process's picture of its peers, built only from gossip carried by the messages it received
+  private knowledgeBase = new KnowledgeBase([]);
+
+  // Where sent messages go: this engine's queue, or the instance hosting their recipient
+  private transport: Transport = new InMemoryTransport();
+  private processIds: ProcessId[] = []; // Every process of the run, hosted here or not
+  private wakeOnInbound: (() => void) | null = null; // Ends the wait for mail from other instances
+
+  // Everything that changed state since the last reset, in order, so the run can be replayed
+  private journal = new RetentionBuffer<JournalEntry>(this.systemHistory.getConfig().retentionLimit); // Within the history's retention window
+  private journalOptions: RunOptions = {}; // Run options in effect at the last reset
 
   // Service dependencies
   protected colorSelectionService: ColorSelectionService;
@@ -34,7 +123,14 @@ export class BaseConsensusService {
     3: ["B","B","B","B","R","G","G","G","G","R"]
   };
 
+  // Color preferences derived from the palette and the process set
+  protected configuredPalette: Color[] | null = null;
+  protected stackLimits: StackLimits = {}; // Optional capacities and target sizes of the processes
+  protected colorPalette: Color[] = [];
+  protected colorPriorities: ColorPriorityTable = {};
+
   private perfectMonochromeAchievable: boolean = false; // Cache for perfect monochrome check
+  private protocolStarted = false; // Initial requests sent since the last reset
 
   constructor(
     colorSelectionService: ColorSelectionService,
@@ -55,9 +151,13 @@ export class BaseConsensusService {
 
   /**
    * Set custom color distributions for processes
+   * An explicit palette fixes the color priority order; otherwise it is derived from the distributions
+   * Capacities and target sizes, when given, bound the processes' stacks
    */
-  setCustomDistributions(distributions: Record<ProcessId, Color[]>): void {
+  setCustomDistributions(distributions: Record<ProcessId, Color[]>, palette?: Color[], limits: StackLimits = {}): void {
     this.initialDistributions = { ...distributions };
+    this.configuredPalette = palette ? [...palette] : null;
+    this.stackLimits = { capacities: { ...limits.capacities }, targetSizes: { ...limits.targetSizes } };
   }
 
   /**
@@ -65,29 +165,63 @@ export class BaseConsensusService {
    * Dynamically creates processes based on available distributions
    */
   protected initializeProcesses(): void {
-    this.processes = [];
-    
-    // Create processes dynamically based on available distributions
-    for (const [processIdStr, distribution] of Object.entries(this.initialDistributions)) {
-      const processId = parseInt(processIdStr) as ProcessId;
-      this.processes.push({
-        id: processId,
-        stack: [...distribution],
-        wanted: null,
-        partner: null,
-        isDone: false
-      });
-    }
+    const processes = this.createInitialProcesses();
+
+    this.colorPalette = this.configuredPalette || this.colorSelectionService.derivePalette(this.initialDistributions);
+    this.colorPriorities = this.colorSelectionService.buildColorPriorities(
+      processes.map(p => p.id),
+      this.colorPalette
+    );
 
     this.messageQueue = [];
     this.totalExchanges = 0;
     this.isRunning = false;
-    this.systemHistory = [];
+    this.processIds = processes.map(p => p.id);
+    this.installRunOptions(processes.filter(p => this.transport.hosts(p.id)));
+    this.currentRun = BaseConsensusService.createIdleRun(
+      this.scheduler.description, this.wantedColorStrategy.name, this.partnerSelectionStrategy.description, this.knowledgeMode, this.runtimeMode,
+      this.topology.description
+    );
+    this.protocolStarted = false;
+    this.recoveryTracker = new RecoveryTracker();
+    this.terminationForced = false;
+    this.invariantChecker = new InvariantChecker(this.hostsEveryProcess() ? INVARIANTS : LOCAL_INVARIANTS);
+    this.retiredBallAdjustments = {};
+    this.membershipLog = new MembershipLog();
+    this.analysisBaseline = null;
+    this.tracer = new MessageTracer(this.processIds, !!this.runOptions.vectorClocks);
+    this.terminationDetector = new SafraDetector(this.processIds, this.runtime.ids);
+    this.knowledgeBase = new KnowledgeBase(this.processIds, this.runtime.ids);
+    this.journalOptions = { ...this.runOptions };
+    this.systemHistory = new RunHistory();
+    this.journal = new RetentionBuffer(this.systemHistory.getConfig().retentionLimit);
+    this.historyDigests = new RetentionBuffer(this.systemHistory.getConfig().retentionLimit);
+    this.lastPotentialFunction = null;
     
-    this.systemStateService.saveSystemState(this.processes, this.messageQueue, this.totalExchanges, this.systemHistory);
+    this.recordSystemState();
     this.onProcessesInitialized();
   }
 
+  /**
+   * Create processes dynamically based on available distributions
+   */
+  private createInitialProcesses(): ProcessState[] {
+    return Object.entries(this.initialDistributions).map(([processIdStr, distribution]) => {
+      const id = parseInt(processIdStr) as ProcessId;
+      const capacity = this.stackLimits.capacities?.[id];
+      const targetSize = this.stackLimits.targetSizes?.[id];
+      return {
+        id,
+        stack: [...distribution],
+        wanted: null,
+        partner: null,
+        isDone: false,
+        ...(capacity !== undefined && { capacity }),
+        ...(targetSize !== undefined && { targetSize })
+      };
+    });
+  }
+
   /**
    * Hook for logging when processes are initialized
    * Override in subclasses for framework-specific logging
@@ -124,8 +258,8 @@ export class BaseConsensusService {
    * Hook for logging consensus completion
    * Override in subclasses for framework-specific logging
    */
-  protected onConsensusCompleted(iterationCount: number): void {
-    console.log(`\nConsensus algorithm completed in ${iterationCount} iterations!`);
+  protected onConsensusCompleted(iterationCount: number, termination: TerminationKind): void {
+    console.log(`\nConsensus algorithm completed in ${iterationCount} iterations (${termination})!`);
   }
 
   /**
@@ -145,173 +279,1344 @@ export class BaseConsensusService {
   }
 
   /**
-   * Start the consensus algorithm
+   * Hook called after a queued message has been delivered and handled
+   * Override in subclasses to publish live updates
+   */
+  protected onMessageProcessed(message: Message): void {
+    // Default: no-op, override in subclasses
+  }
+
+  /**
+   * Hook called whenever a snapshot is appended to the system history
+   * Override in subclasses to publish live updates
+   */
+  protected onSystemStateSaved(state: SystemState): void {
+    // Default: no-op, override in subclasses
+  }
+
+  /**
+   * Hook called when the potential function value changes between snapshots
+   * Override in subclasses to publish live updates
+   */
+  protected onPotentialFunctionChanged(value: number, previousValue: number | null): void {
+    // Default: no-op, override in subclasses
+  }
+
+  /**
+   * Hook called whenever the run lifecycle status changes
+   * Override in subclasses to publish live updates
+   */
+  protected onRunStatusChanged(run: RunInfo): void {
+    // Default: no-op, override in subclasses
+  }
+
+  /**
+   * Hook called after process state has been deliberately corrupted
+   * Override in subclasses for framework-specific logging
+   */
+  protected onStateCorrupted(record: RecoveryRecord): void {
+    // Default: no-op, override in subclasses
+  }
+
+  /**
+   * Hook called after a process joined, left or crashed
+   * Override in subclasses for framework-specific logging
+   */
+  protected onMembershipChanged(record: MembershipRecord): void {
+    // Default: no-op, override in subclasses
+  }
+
+  /**
+   * Hook called when an invariant check records a violation
+   * Override in subclasses for framework-specific logging
+   */
+  protected onInvariantViolated(violation: InvariantViolation): void {
+    console.error(`Invariant ${violation.invariant} violated: ${violation.message}`);
+  }
+
+  /**
+   * Start the consensus algorithm without waiting for it to finish
+   * Returns the run handle immediately; failures are recorded on the run
    */
-  async startConsensus(): Promise<void> {
+  startRun(options?: RunOptions): RunInfo {
     if (this.isRunning) {
-      throw new Error('Consensus algorithm is already running');
+      throw new ConsensusStateError('Consensus algorithm is already running');
     }
 
-    this.onConsensusStarting();
+    if (options) {
+      this.configureRun(options); // Invalid options are rejected here, before the run starts
+    }
+
+    this.startConsensus().catch(error => {
+      // Recorded on the run handle by startConsensus; the caller has already been answered
+      this.onWarning(`Run ${this.currentRun.runId} failed: ${error instanceof Error ? error.message : String(error)}`);
+    });
+    return this.getRunInfo();
+  }
+
+  /**
+   * Start the consensus algorithm and wait for the run to finish
+   * Options, when given, replace the engine's run options (see configureRun)
+   */
+  async startConsensus(options?: RunOptions): Promise<void> {
+    if (this.isRunning) {
+      throw new ConsensusStateError('Consensus algorithm is already running');
+    }
+    if (options) {
+      this.configureRun(options);
+    }
+
+    let finishRun: () => void;
+    this.runFinished = new Promise(resolve => finishRun = resolve);
     this.isRunning = true;
-    let iterationCount = 0;
-    let lastPotentialFunction = Number.MAX_SAFE_INTEGER;
-    let stagnationCounter = 0;
+    this.stopRequested = false;
+    this.currentRun = {
+      runId: randomUUID(),
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      iterations: 0,
+      error: null,
+      scheduler: this.scheduler.description,
+      wantedColorStrategy: this.wantedColorStrategy.name,
+      partnerSelection: this.partnerSelectionStrategy.description,
+      knowledge: this.knowledgeMode,
+      runtime: this.runtimeMode,
+      topology: this.topology.description,
+      invariantViolations: 0,
+      messagesDelivered: { REQUEST: 0, SEND: 0, DONE: 0, INFO: 0, TOKEN: 0 },
+      termination: null
+    };
+    this.onRunStatusChanged(this.getRunInfo());
 
-    // Cache perfect monochrome achievability at the start
-    this.perfectMonochromeAchievable = this.systemStateService.isPerfectMonochromeAchievable(this.processes);
+    try {
+      await this.executeConsensus();
+      this.finishRun(this.stopRequested ? 'stopped' : 'completed');
+    } catch (error) {
+      this.finishRun('failed', error instanceof Error ? error.message : String(error));
+      throw error;
+    } finally {
+      finishRun();
+    }
+  }
 
-    // Initial check for monochrome state for all processes (including empty ones)
-    for (const process of this.processes) {
-      this.messageHandlingService.checkMonochrome(process, this.processes, this.messageQueue, this.perfectMonochromeAchievable);
+  /**
+   * Pause the running algorithm after the message currently being processed
+   */
+  pauseConsensus(): RunInfo {
+    if (this.currentRun.status !== 'running') {
+      throw new ConsensusStateError(`Cannot pause a run that is ${this.currentRun.status}`);
     }
 
-    // Each process computes its initial wanted color and starts the protocol
-    for (const process of this.processes) {
-      if (!process.isDone) {
-        this.colorSelectionService.computeWantedColor(process, this.messageQueue);
-        this.partnerSelectionService.choosePartner(process, this.processes);
-        if (process.partner) {
-          this.messageHandlingService.sendRequest(process, this.messageQueue);
+    this.pauseGate = new Promise(resolve => this.releasePauseGate = resolve);
+    this.setRunStatus('paused');
+    return this.getRunInfo();
+  }
+
+  /**
+   * Resume a paused run
+   */
+  resumeConsensus(): RunInfo {
+    if (this.currentRun.status !== 'paused') {
+      throw new ConsensusStateError(`Cannot resume a run that is ${this.currentRun.status}`);
+    }
+
+    this.setRunStatus('running');
+    this.openPauseGate();
+    return this.getRunInfo();
+  }
+
+  /**
+   * Stop a running or paused run and wait until it has wound down
+   */
+  async stopConsensus(): Promise<RunInfo> {
+    if (!this.isRunning) {
+      throw new ConsensusStateError(`Cannot stop a run that is ${this.currentRun.status}`);
+    }
+
+    this.stopRequested = true;
+    this.openPauseGate();
+    this.wakeOnInbound?.();
+    await this.runFinished;
+    return this.getRunInfo();
+  }
+
+  /**
+   * Choose how the next run (or step session) delivers messages, which network faults it suffers
+   * and how processes pick their wanted color and their partners
+   * Installs a freshly seeded scheduler, fault layer and partner strategy, so the same options applied to the same
+   * initial state always produce the same execution
+   */
+  configureRun(options: RunOptions): void {
+    if (this.isRunning) {
+      throw new ConsensusStateError(`Cannot reconfigure while a run is ${this.currentRun.status}`);
+    }
+
+    createScheduler(options.scheduler); // validate before replacing anything
+    createWantedColorStrategy(options.wantedColorStrategy);
+    createPartnerSelectionStrategy(options.partnerSelection);
+    resolveKnowledgeMode(options.knowledge);
+    resolveRuntimeMode(options.runtime);
+    createTopology(options.topology, this.processIds);
+    this.validateHostedRun(options);
+    if (this.unitsInFlight > 0) {
+      throw new ConsensusStateError('Cannot reconfigure while a step is in progress');
+    }
+
+    // Messages the old network was still holding back are delivered normally
+    if (this.faultInjector) {
+      this.messageQueue.push(...this.faultInjector.getHeldMessages());
+      this.retiredBallAdjustments = this.mergeCounts(this.retiredBallAdjustments, this.faultInjector.getBallAdjustments());
+    }
+
+    this.runOptions = { ...options };
+    this.installRunOptions();
+    this.tracer.setVectorClocks(!!options.vectorClocks);
+    this.currentRun = {
+      ...this.currentRun,
+      scheduler: this.scheduler.description,
+      wantedColorStrategy: this.wantedColorStrategy.name,
+      partnerSelection: this.partnerSelectionStrategy.description,
+      knowledge: this.knowledgeMode,
+      runtime: this.runtimeMode,
+      topology: this.topology.description
+    };
+    this.journal.push({ kind: 'configure', options: { ...options } });
+  }
+
+  getRunOptions(): RunOptions {
+    return { ...this.runOptions };
+  }
+
+  /**
+   * Overwrite process control state and/or inject stale messages, at any point of a run
+   * Recovery is tracked until the system completes again; see getRecoveryReport
+   */
+  injectCorruption(spec: CorruptionSpec): RecoveryRecord {
+    validateCorruption(spec, this.runtime.snapshot(), this.colorPalette);
+
+    const record = this.recoveryTracker.open(spec, this.calculatePotentialFunction());
+    this.journal.push({ kind: 'corrupt', spec });
+    const injectedFrom = this.messageQueue.length;
+    this.runtime.override(processes => applyCorruption(spec, processes, this.messageQueue));
+    for (const message of this.messageQueue.slice(injectedFrom)) {
+      this.tracer.recordSend(message, null);
+      this.terminationDetector.recordSend(message);
+    }
+    this.terminationDetector.invalidate();
+    this.terminationForced = false;
+
+    this.onStateCorrupted(record);
+    this.recordSystemState();
+    return record;
+  }
+
+  /**
+   * Let a process join with balls of its own, leave gracefully (handing its balls to its peers) or crash
+   * (losing them), at any point of a run or between runs
+   * Every process then re-examines its state against the new set: DONE processes that could now do better take part again
+   */
+  async changeMembership(change: MembershipChange): Promise<MembershipRecord> {
+    if (!this.hostsEveryProcess()) {
+      throw new ConsensusStateError('Cannot change membership on an instance that hosts only some of the processes');
+    }
+    return this.exclusively(() => this.applyMembershipChange(change));
+  }
+
+  /**
+   * Processes taking part now, those that left, and the balls that came and went with them since the last reset
+   */
+  getMembershipReport(): MembershipReport {
+    return this.membershipLog.getReport(this.processIds);
+  }
+
+  /**
+   * The send/deliver trace since the last reset, headed by the run's configuration and initial state
+   */
+  getTrace(): { header: TraceHeader; events: TraceEvent[] } {
+    const events = this.tracer.getEvents();
+    return {
+      header: {
+        kind: 'run',
+        runId: this.currentRun.runId,
+        status: this.currentRun.status,
+        scheduler: this.scheduler.description,
+        options: this.getRunOptions(),
+        palette: [...this.colorPalette],
+        initialDistributions: { ...this.initialDistributions },
+        eventCount: events.length,
+        truncated: this.tracer.isTruncated()
+      },
+      events
+    };
+  }
+
+  /**
+   * Invariant checks and violations since the last reset
+   */
+  getInvariantReport(): InvariantReport {
+    return this.invariantChecker.getReport();
+  }
+
+  getRecoveryReport(): RecoveryReport {
+    return this.recoveryTracker.getReport();
+  }
+
+  /**
+   * Everything needed to re-execute the run since the last reset: initial state, options,
+   * the exact delivery order and a digest of every history snapshot
+   * Past the history retention limit the oldest entries are gone, and the recording can no longer be replayed
+   */
+  getRecording(): RecordedRun {
+    return {
+      version: RECORDING_VERSION,
+      initialDistributions: { ...this.initialDistributions },
+      palette: this.configuredPalette ? [...this.configuredPalette] : null,
+      stackLimits: { capacities: { ...this.stackLimits.capacities }, targetSizes: { ...this.stackLimits.targetSizes } },
+      options: { ...this.journalOptions },
+      journal: this.journal.toArray(),
+      historyDigests: this.historyDigests.toArray(),
+      finalDigest: digestState(this.getSystemState()),
+      ...((this.journal.discarded > 0 || this.historyDigests.discarded > 0) && {
+        discarded: { journalEntries: this.journal.discarded, historySnapshots: this.historyDigests.discarded }
+      })
+    };
+  }
+
+  /**
+   * Reset to a recording's initial state and re-execute its journal, comparing every history snapshot
+   * Stops at the first divergence, which is what a code change since the recording shows up as;
+   * the engine is left in the replayed state either way
+   */
+  async replay(recording: RecordedRun): Promise<ReplayResult> {
+    if (this.isRunning) {
+      throw new ConsensusStateError(`Cannot replay while a run is ${this.currentRun.status}`);
+    }
+    if (recording.version !== RECORDING_VERSION) {
+      throw new ConsensusInputError(`Unsupported recording version ${recording.version} (expected ${RECORDING_VERSION})`);
+    }
+    if (recording.discarded && (recording.discarded.journalEntries > 0 || recording.discarded.historySnapshots > 0)) {
+      throw new ConsensusInputError(
+        `The recording lost its first ${recording.discarded.journalEntries} journal entries and ${recording.discarded.historySnapshots} `
+        + 'history digests to the retention limit; raise HISTORY_RETENTION_LIMIT to record runs this long'
+      );
+    }
+    if (!this.hostsEveryProcess()) {
+      throw new ConsensusStateError('Cannot replay on an instance that hosts only some of the processes');
+    }
+    createScheduler(recording.options.scheduler); // validate before replacing anything
+    createWantedColorStrategy(recording.options.wantedColorStrategy);
+    createPartnerSelectionStrategy(recording.options.partnerSelection);
+    createTopology(recording.options.topology, Object.keys(recording.initialDistributions).map(Number));
+
+    this.runOptions = { ...recording.options };
+    this.reset(recording.initialDistributions, recording.palette ?? undefined, recording.stackLimits ?? {});
+
+    const replayScheduler = new ReplayScheduler();
+    const result = (replayedEntries: number, divergence: ReplayDivergence | null): ReplayResult => ({
+      identical: divergence === null,
+      journalEntries: recording.journal.length,
+      replayedEntries,
+      historyLength: { recorded: recording.historyDigests.length, replayed: this.historyDigests.discarded + this.historyDigests.length },
+      divergence
+    });
+
+    // Inline, no timers are awaited while replaying, so nothing can interleave with it; with worker threads,
+    // units of work still run one at a time
+    try {
+      let compared = 0;
+      for (let index = 0; index <= recording.journal.length; index++) {
+        if (index > 0) {
+          const entry = recording.journal[index - 1];
+          try {
+            await this.replayEntry(entry, replayScheduler);
+          } catch (error) {
+            if (!(error instanceof ReplayDivergenceError)) throw error;
+            return result(index - 1, { kind: 'delivery', journalIndex: index - 1, historyIndex: null, message: error.message });
+          }
+        }
+
+        // A replaying instance with a lower retention limit drops digests too, but only ones already compared
+        for (; compared < this.historyDigests.discarded + this.historyDigests.length; compared++) {
+          const journalIndex = index > 0 ? index - 1 : null;
+          if (compared >= recording.historyDigests.length) {
+            return result(index, {
+              kind: 'length', journalIndex, historyIndex: compared,
+              message: `Replay produced more history snapshots than the ${recording.historyDigests.length} recorded`
+            });
+          }
+
+          const actualDigest = this.historyDigests.at(compared - this.historyDigests.discarded);
+          if (actualDigest !== recording.historyDigests[compared]) {
+            return result(index, {
+              kind: 'state', journalIndex, historyIndex: compared,
+              message: `History snapshot ${compared} differs from the recording`,
+              expectedDigest: recording.historyDigests[compared], actualDigest, actualState: this.systemHistory.get(compared) ?? undefined
+            });
+          }
         }
       }
+
+      if (compared < recording.historyDigests.length) {
+        return result(recording.journal.length, {
+          kind: 'length', journalIndex: null, historyIndex: compared,
+          message: `Replay produced ${compared} history snapshots, ${recording.historyDigests.length} were recorded`
+        });
+      }
+
+      const actualDigest = digestState(this.getSystemState());
+      if (actualDigest !== recording.finalDigest) {
+        return result(recording.journal.length, {
+          kind: 'state', journalIndex: null, historyIndex: null,
+          message: 'Final state differs from the recording',
+          expectedDigest: recording.finalDigest, actualDigest, actualState: this.getSystemState()
+        });
+      }
+
+      return result(recording.journal.length, null);
+    } finally {
+      this.scheduler = createScheduler(this.runOptions.scheduler);
+    }
+  }
+
+  /**
+   * Faults injected since the last reset or reconfiguration, with a ball conservation check
+   */
+  getFaultReport(): FaultReport {
+    const stats = this.faultInjector?.getStats() ?? FaultInjector.createStats();
+    const expectedBalls = this.countExpectedBalls();
+    const actualBalls = this.runtime.snapshot().reduce((sum, p) => sum + p.stack.length, 0)
+      + this.getMessagesInTransit().filter(m => m.type === 'SEND' && m.color).length;
+
+    return {
+      enabled: this.faultInjector !== null,
+      ...stats,
+      conservation: { expectedBalls, actualBalls, held: expectedBalls === actualBalls }
+    };
+  }
+
+  /**
+   * Exchanges so far against the minimum number of single-ball transfers the initial distributions need
+   * (after a membership change: the stacks it left behind, and the exchanges since), and whether the processes hold (or are heading for) an optimal color assignment
+   */
+  getOptimalityAnalysis(): OptimalityAnalysis {
+    const baseline = this.analysisBaseline ?? { distributions: this.initialDistributions, exchanges: 0 };
+    return analyzeOptimality(
+      baseline.distributions, this.runtime.snapshot(), this.totalExchanges - baseline.exchanges, this.colorPalette, this.isSystemComplete()
+    );
+  }
+
+  /**
+   * Counters, colors and token position of the termination detector since the last reset
+   */
+  getTerminationStatus(): TerminationStatus {
+    return this.terminationDetector.getStatus();
+  }
+
+  /**
+   * What every process currently knows about each of its peers, and which peers it has not heard about yet
+   */
+  getKnowledgeReport(): KnowledgeReport {
+    return this.knowledgeBase.getReport(this.knowledgeMode);
+  }
+
+  /**
+   * One process seen from the outside: a copy of its state and how many messages it received and sent
+   */
+  getProcessInspection(id: ProcessId): ProcessInspection | undefined {
+    return this.runtime.inspect(id);
+  }
+
+  /**
+   * Carry messages with `transport` from now on; the engine is reset, keeping its distributions and run options
+   * Hosting only some of the processes rules out what needs them all in view: global knowledge and network faults
+   */
+  useTransport(transport: Transport): void {
+    if (this.isRunning) {
+      throw new ConsensusStateError(`Cannot change the transport while a run is ${this.currentRun.status}`);
+    }
+    if (this.unitsInFlight > 0) {
+      throw new ConsensusStateError('Cannot change the transport while a step is in progress');
+    }
+    this.validateReachable(this.initialDistributions, transport);
+    this.validateHostedRun(this.runOptions, transport);
+
+    this.transport.close();
+    this.transport = transport;
+    this.reset();
+  }
+
+  getTransportStatus(): TransportStatus {
+    return this.transport.getStatus();
+  }
+
+  /**
+   * Who may talk to whom directly in the current run
+   */
+  getTopology(): TopologyGraph {
+    return this.topology.getGraph();
+  }
+
+  /**
+   * Take a message sent to a process hosted here by a process hosted on another instance
+   * It joins the queue like any other and is delivered when the scheduler picks it
+   */
+  receiveMessage(message: Message): void {
+    if (!this.transport.hosts(message.to)) {
+      throw new ConsensusInputError(`Process ${message.to} is not hosted here`);
+    }
+    if (this.transport.hosts(message.from) || !this.transport.reaches(message.from)) {
+      throw new ConsensusInputError(`Process ${message.from} is not a peer of this instance`);
+    }
+
+    this.messageQueue.push(message);
+    this.wakeOnInbound?.();
+  }
+
+  /**
+   * Hand the worker threads hosting processes, if any, back to the shared pool and give up on messages
+   * still waiting to leave; the engine is not used afterwards
+   */
+  dispose(): void {
+    this.runtime.close();
+    this.transport.close();
+  }
+
+  onModuleDestroy(): void {
+    this.dispose();
+  }
+
+  getRunInfo(): RunInfo {
+    return { ...this.currentRun, messagesDelivered: { ...this.currentRun.messagesDelivered } };
+  }
+
+  /**
+   * Advance the protocol by exactly `count` units of work outside of a run:
+   * each unit delivers one message, or triggers new requests when the queue is empty
+   * Allowed while idle, finished or paused; stops early once termination has been detected
+   */
+  async step(count: number = 1, options?: RunOptions): Promise<StepResult> {
+    if (this.currentRun.status === 'running') {
+      throw new ConsensusStateError('Cannot step while a run is running; pause it first');
+    }
+    if (options) {
+      this.configureRun(options);
+    }
+
+    if (!this.protocolStarted) {
+      await this.exclusively(() => this.initializeProtocol());
+    }
+
+    const steps: StepRecord[] = [];
+    while (steps.length < count && !this.terminationDetector.isTerminated()) {
+      steps.push(await this.exclusively(async (): Promise<StepRecord> => {
+        const before = this.runtime.snapshot();
+        const potentialBefore = this.calculatePotentialFunction();
+
+        const { message } = await this.deliverNext();
+
+        const potentialAfter = this.calculatePotentialFunction();
+        const affectedProcesses: StepRecord['affectedProcesses'] = [];
+        for (const previous of before) {
+          const current = this.runtime.snapshotOf(previous.id);
+          const involved = message !== null && (message.from === previous.id || message.to === previous.id);
+          if (current && (involved || JSON.stringify(previous) !== JSON.stringify(current))) {
+            affectedProcesses.push({ id: previous.id, before: previous, after: current });
+          }
+        }
+
+        return {
+          kind: message ? 'message' : 'tick',
+          message,
+          affectedProcesses,
+          potentialBefore,
+          potentialAfter,
+          potentialDelta: potentialAfter - potentialBefore
+        };
+      }));
+    }
+
+    return {
+      steps,
+      isComplete: this.isSystemComplete(),
+      terminationDetected: this.terminationDetector.isTerminated(),
+      potentialFunction: this.calculatePotentialFunction(),
+      pendingMessages: this.messageQueue.length
+    };
+  }
+
+  /**
+   * Run the protocol until the termination detector announces termination, a stop request or a forced resolution
+   */
+  private async executeConsensus(): Promise<void> {
+    this.onConsensusStarting();
+    let iterationCount = 0;
+    let lastPotentialFunction = Number.MAX_SAFE_INTEGER;
+    let lastTargetDistance = Number.MAX_SAFE_INTEGER;
+    let stagnationCounter = 0;
+    let membershipVersion = this.membershipVersion;
+    let iterationsBefore = 0; // Iterations before the last membership change
+    this.terminationForced = false;
+
+    if (!this.protocolStarted) {
+      await this.exclusively(() => this.initializeProtocol());
     }
 
     this.onInitialProcessStates();
-    this.validationService.logSystemState(this.processes, this.totalExchanges, () => this.calculatePotentialFunction());
+    this.validationService.logSystemState(this.runtime.snapshot(), this.totalExchanges, () => this.calculatePotentialFunction());
 
-    // Process messages asynchronously until convergence
-    while (this.isRunning && !this.systemStateService.isSystemComplete(this.processes, this.messageQueue)) {
-      await this.processNextMessage();
+    // Process messages asynchronously until termination is detected
+    while (!this.terminationDetector.isTerminated()) {
+      if (this.pauseGate) {
+        await this.pauseGate;
+      }
+      if (this.stopRequested) {
+        return;
+      }
+
+      if (this.messageQueue.length === 0 && this.transport.quietSpellMs > 0) {
+        await this.awaitInbound(this.transport.quietSpellMs);
+        if (this.pauseGate) {
+          await this.pauseGate;
+        }
+        if (this.stopRequested) {
+          return;
+        }
+      }
+
+      const { violations } = await this.exclusively(() => this.deliverNext());
       iterationCount++;
+      this.currentRun.iterations = iterationCount;
+
+      if (this.membershipVersion !== membershipVersion) {
+        // The processes changed: give the new set a fresh allowance before assuming it is stuck
+        membershipVersion = this.membershipVersion;
+        iterationsBefore = iterationCount;
+        stagnationCounter = 0;
+        lastPotentialFunction = lastTargetDistance = Number.MAX_SAFE_INTEGER;
+      }
+
+      if (violations.length > 0 && this.runOptions.failOnInvariantViolation) {
+        throw new InvariantViolationError(violations[0]);
+      }
       
       // Periodically check for conflicts and resolve them
       if (iterationCount % 10 === 0) {
         this.onIterationCheck(iterationCount);
-        let hasColorConflict = this.colorSelectionService.detectColorConflicts(this.processes);
-        if (hasColorConflict) this.colorSelectionService.resolveColorConflicts(this.processes);
-        this.validationService.logSystemState(this.processes, this.totalExchanges, () => this.calculatePotentialFunction());
+        // Reassigning wanted colors reads every process, so only runs with global knowledge may do it
+        const hasColorConflict = this.colorSelectionService.detectColorConflicts(this.runtime.snapshot());
+        if (hasColorConflict && this.knowledgeMode === 'global') this.resolveColorConflicts();
+        this.validationService.logSystemState(this.runtime.snapshot(), this.totalExchanges, () => this.calculatePotentialFunction());
         
-        // Check for stagnation (potential function not improving)
+        // Check for stagnation (potential function not improving, nor stacks nearing their target sizes)
         const currentPotentialFunction = this.calculatePotentialFunction();
-        if (currentPotentialFunction >= lastPotentialFunction) {
+        const currentTargetDistance = this.systemStateService.calculateTargetDistance(this.runtime.snapshot());
+        if (currentPotentialFunction >= lastPotentialFunction && currentTargetDistance >= lastTargetDistance) {
           stagnationCounter++;
-          if (stagnationCounter >= 5) { // Reduced from 10 to 5
+          if (stagnationCounter >= 5 * this.topology.diameter && this.hostsEveryProcess()) { // Reduced from 10 to 5, per hop of the longest route
             this.onWarning('⚠️ Algorithm stagnated (potential function not improving), assuming optimal consensus reached');
-            // Mark all processes as done to force completion
-            for (const process of this.processes) {
-              if (!process.isDone) {
-                process.isDone = true;
-              }
-            }
+            this.forceCompletion(false);
             break;
           }
         } else {
           stagnationCounter = 0; // Reset counter if progress is made
         }
         lastPotentialFunction = currentPotentialFunction;
+        lastTargetDistance = currentTargetDistance;
       }
       
-      await this.systemStateService.sleep(10); // Reduced from 50 to 10 for faster testing
+      await this.systemStateService.sleep(this.runOptions.stepDelayMs ?? DEFAULT_STEP_DELAY_MS);
       
       // Safety check to prevent infinite loops
-      if (iterationCount > 200) { // Reduced from 500 to 200
+      if (iterationCount - iterationsBefore > 200 * this.topology.diameter && this.hostsEveryProcess()) { // Reduced from 500 to 200, per hop of the longest route
         this.onWarning('⚠️ Algorithm taking too long, forcing resolution');
-        this.colorSelectionService.resolveColorConflicts(this.processes);
-        // Mark all processes as done to force completion
-        for (const process of this.processes) {
-          if (!process.isDone) {
-            process.isDone = true;
-          }
-        }
+        this.forceCompletion(true);
         break;
       }
     }
 
-    // Final check for all processes to ensure proper completion state
-    for (const process of this.processes) {
-      this.messageHandlingService.checkMonochrome(process, this.processes, this.messageQueue, this.perfectMonochromeAchievable);
+    if (!this.currentRun.termination) {
+      this.currentRun.termination = 'detected';
     }
+    await this.exclusively(() => this.finalCheck());
 
-    this.isRunning = false;
-    this.onConsensusCompleted(iterationCount);
-    this.validationService.logFinalState(this.processes, this.messageQueue, this.totalExchanges, () => this.calculatePotentialFunction(), this.initialDistributions);
+    this.onConsensusCompleted(iterationCount, this.currentRun.termination);
+    this.validationService.logFinalState(
+      this.runtime.snapshot(), this.getMessagesInTransit(), this.totalExchanges, () => this.calculatePotentialFunction(),
+      this.hostsEveryProcess() ? this.countExpectedBalls() : undefined // balls move between instances
+    );
+    this.validationService.logOptimalityAnalysis(this.getOptimalityAnalysis());
+    if (this.faultInjector) {
+      this.validationService.logFaultReport(this.getFaultReport());
+    }
   }
 
   reset(): void;
   reset(customDistributions: Record<ProcessId, Color[]>): void;
-  reset(customDistributions?: Record<ProcessId, Color[]>): void {
+  reset(customDistributions: Record<ProcessId, Color[]>, palette: Color[]): void;
+  reset(customDistributions: Record<ProcessId, Color[]>, palette: Color[] | undefined, limits: StackLimits): void;
+  reset(customDistributions?: Record<ProcessId, Color[]>, palette?: Color[], limits?: StackLimits): void {
+    if (this.isRunning) {
+      throw new ConsensusStateError(`Cannot reset while a run is ${this.currentRun.status}`);
+    }
+    if (this.unitsInFlight > 0) {
+      throw new ConsensusStateError('Cannot reset while a step is in progress');
+    }
+
     if (customDistributions) {
-      this.setCustomDistributions(customDistributions);
+      this.validateReachable(customDistributions);
+      validateStackLimits(customDistributions, limits ?? {});
+      createTopology(this.runOptions.topology, Object.keys(customDistributions).map(Number));
+      this.setCustomDistributions(customDistributions, palette, limits);
     }
     this.initializeProcesses();
     this.onSystemReset();
   }
 
+  isConsensusRunning(): boolean {
+    return this.isRunning;
+  }
+
   getSystemState(): SystemState {
-    return this.systemStateService.createSystemState(this.processes, this.messageQueue, this.totalExchanges);
+    return this.systemStateService.createSystemState(this.runtime.snapshot(), this.messageQueue, this.totalExchanges);
   }
 
+  /**
+   * Every retained snapshot, reconstructed in full; prefer getHistoryPage for long runs
+   */
   getSystemHistory(): SystemState[] {
-    return [...this.systemHistory];
+    return this.systemHistory.toArray();
+  }
+
+  /**
+   * Snapshots [from, to) as a keyframe followed by deltas
+   */
+  getHistoryPage(from?: number, to?: number): HistoryPage {
+    return this.systemHistory.getPage(from, to);
+  }
+
+  /**
+   * The reconstructed snapshot at an absolute index since the last reset, or null if not retained
+   */
+  getHistoryState(index: number): SystemState | null {
+    return this.systemHistory.get(index);
   }
 
   calculatePotentialFunction(): number {
-    return this.systemStateService.calculatePotentialFunction(this.processes);
+    return this.systemStateService.calculatePotentialFunction(this.runtime.snapshot());
   }
 
   /**
-   * Process the next message in the queue
+   * Cache run-wide facts and let every process send its first request
+   * Runs once per reset, whether the protocol is driven by startConsensus or by step
    */
-  private async processNextMessage(): Promise<void> {
-    if (this.messageQueue.length === 0) {
-      this.messageHandlingService.triggerNewRequests(
-        this.processes, 
-        this.messageQueue,
-        (process) => this.colorSelectionService.computeWantedColor(process, this.messageQueue),
-        (process) => this.partnerSelectionService.choosePartner(process, this.processes)
-      );
-      return;
-    }
+  private async initializeProtocol(): Promise<void> {
+    this.protocolStarted = true;
+    this.journal.push({ kind: 'start-protocol' });
+
+    // Cache perfect monochrome achievability at the start; with processes hosted elsewhere, from the distributions
+    this.perfectMonochromeAchievable = this.systemStateService.isPerfectMonochromeAchievable(
+      this.hostsEveryProcess() ? this.runtime.snapshot() : this.createInitialProcesses()
+    );
+
+    // Initial check for monochrome state for all processes (including empty ones)
+    const sent = await this.actEverywhere('check-completion');
+
+    // Each process computes its initial wanted color and starts the protocol
+    sent.push(...await this.actEverywhere('start', sent));
+    this.advanceTermination(sent);
+    this.transmit(sent, null);
+  }
 
-    const message = this.messageQueue.shift()!;
-    const recipient = this.processes.find(p => p.id === message.to);
-    const sender = this.processes.find(p => p.id === message.from);
+  private resolveColorConflicts(): void {
+    this.journal.push({ kind: 'resolve-conflicts' });
+    this.runtime.override(processes => this.colorSelectionService.resolveColorConflicts(processes, this.colorPriorities));
+  }
 
-    if (!recipient || !sender) return;
+  /**
+   * Give up on convergence and mark every process done, optionally resolving color conflicts first
+   * With gossip the run just ends: no process learns what the others hold, so their states are left as they are
+   */
+  private forceCompletion(resolveConflicts: boolean): void {
+    this.journal.push({ kind: 'force-completion', resolveConflicts });
+    this.terminationForced = true;
+    this.currentRun.termination = resolveConflicts ? 'forced-iteration-limit' : 'forced-stagnation';
+    if (this.knowledgeMode !== 'global') return;
+    this.runtime.override(processes => {
+      if (resolveConflicts) {
+        this.colorSelectionService.resolveColorConflicts(processes, this.colorPriorities);
+      }
+      for (const process of processes) {
+        process.isDone = true;
+      }
+    });
+  }
 
-    const totalExchangesRef = { count: this.totalExchanges };
+  /**
+   * Final check for all processes to ensure proper completion state
+   */
+  private async finalCheck(): Promise<void> {
+    this.journal.push({ kind: 'final-check' });
+    this.transmit(await this.actEverywhere('check-completion'), null);
+    this.settleRecovery();
+  }
 
-    switch (message.type) {
-      case 'REQUEST':
-        this.messageHandlingService.handleRequest(
-          message, 
-          recipient, 
-          sender,
-          this.messageQueue,
-          (process) => this.messageHandlingService.checkMonochrome(process, this.processes, this.messageQueue, this.perfectMonochromeAchievable),
-          (process) => this.colorSelectionService.computeWantedColor(process, this.messageQueue),
-          (process) => this.partnerSelectionService.choosePartner(process, this.processes)
-        );
+  /**
+   * Re-apply one journal entry; deliveries and ticks go through the replay scheduler
+   */
+  private async replayEntry(entry: JournalEntry, replayScheduler: ReplayScheduler): Promise<void> {
+    switch (entry.kind) {
+      case 'configure':
+        this.configureRun(entry.options);
         break;
-      case 'SEND':
-        this.messageHandlingService.handleSend(
-          message, 
-          recipient, 
-          sender,
-          totalExchangesRef,
-          (process) => this.messageHandlingService.checkMonochrome(process, this.processes, this.messageQueue, this.perfectMonochromeAchievable),
-          (process) => this.colorSelectionService.computeWantedColor(process, this.messageQueue),
-          (process) => this.partnerSelectionService.choosePartner(process, this.processes),
-          this.messageQueue
-        );
-        this.totalExchanges = totalExchangesRef.count;
+      case 'start-protocol':
+        await this.exclusively(() => this.initializeProtocol());
         break;
-      case 'DONE':
-        this.messageHandlingService.handleDone(message, this.processes);
+      case 'deliver':
+      case 'tick': {
+        replayScheduler.expect(entry.kind === 'deliver' ? entry : null);
+        this.scheduler = replayScheduler;
+        const { message } = await this.exclusively(() => this.deliverNext());
+        if (entry.kind === 'deliver' && !message) {
+          throw new ReplayDivergenceError(`Expected to deliver message ${entry.messageId}, but nothing was in transit`);
+        }
         break;
+      }
+      case 'resolve-conflicts':
+        this.resolveColorConflicts();
+        break;
+      case 'force-completion':
+        this.forceCompletion(entry.resolveConflicts);
+        break;
+      case 'final-check':
+        await this.exclusively(() => this.finalCheck());
+        break;
+      case 'corrupt':
+        this.injectCorruption(entry.spec);
+        break;
+      case 'membership':
+        await this.exclusively(() => this.applyMembershipChange(entry.change));
+        break;
+      default:
+        throw new ConsensusInputError(`Unknown journal entry kind "${(entry as { kind: unknown }).kind}"`);
     }
+  }
 
-    this.systemStateService.saveSystemState(this.processes, this.messageQueue, this.totalExchanges, this.systemHistory);
+  /**
+   * Deliver the message chosen by the scheduler, or trigger new requests when the queue is empty
+   * Returns the delivered message (as it was before the hop, when it was only relayed), or null for a request-triggering tick
+   */
+  private async processNextMessage(): Promise<Message | null> {
+    this.faultInjector?.tick(this.messageQueue);
+
+    if (this.messageQueue.length === 0) {
+      const sent = await this.actEverywhere('tick');
+      this.advanceTermination(sent);
+      this.transmit(sent, null);
+      this.journal.push({ kind: 'tick' });
+      return null;
+    }
+
+    const queueIndex = this.scheduler.selectNext(this.messageQueue);
+    const [message] = this.messageQueue.splice(queueIndex, 1);
+    this.currentRun.messagesDelivered[message.type]++;
+    this.journal.push({
+      kind: 'deliver', queueIndex, messageId: message.id!, type: message.type, from: message.from, to: message.to,
+      ...(message.color !== undefined && { color: message.color })
+    });
+    if (message.route) {
+      const hop = { ...message };
+      this.relay(message);
+      return hop;
+    }
+    this.faultInjector?.delivered(message);
+    this.tracer.recordDelivery(message);
+    this.terminationDetector.recordReceive(message);
+    this.partnerSelectionStrategy.messageDelivered?.(message);
+
+    const departure = this.membershipLog.departureOf(message.to);
+    if (departure) {
+      if (message.type === 'TOKEN') {
+        this.terminationDetector.receiveToken(message); // passed on to the next process of the ring
+      }
+      this.reachDeparted(message, departure);
+      return message;
+    }
+    // A process that is gone cannot take a ball or an answer any more, but its balls and the token still arrive
+    const senderGone = !this.processIds.includes(message.origin ?? message.from);
+    if (senderGone && message.type !== 'SEND' && message.type !== 'TOKEN') return message;
+    if (message.type === 'TOKEN') {
+      this.terminationDetector.receiveToken(message);
+    }
+    if (this.knowledgeMode === 'gossip') {
+      this.knowledgeBase.absorb(message.to, message.gossip);
+    }
+    const { sent, exchanges } = await this.runtime.deliver(message, this.contextFor(message.to));
+    this.totalExchanges += exchanges;
+    if (message.type === 'REQUEST') {
+      this.faultInjector?.answered(message, sent);
+    }
+    this.advanceTermination(sent);
+    this.transmit(sent, message);
+
+    this.onMessageProcessed(message);
+    this.recordSystemState();
+    return message;
+  }
+
+  /**
+   * A message on its way to a non-neighbour reaches the next process of its route, which sends it on unchanged
+   * Each hop is a delivery of its own; only the last one reaches the recipient
+   * The message stays the same object, so the fault layer still recognises a retransmitted REQUEST when it arrives
+   */
+  private relay(message: Message): void {
+    const [, ...route] = message.route!; // the first hop is the process relaying it now
+    if (route.length > 0) {
+      message.route = route;
+    } else {
+      delete message.route;
+    }
+
+    this.messageQueue.push(message);
+    this.recordSystemState();
+  }
+
+  /**
+   * A message reached a process that is gone: a ball passes on to a peer with room if the process left gracefully,
+   * and is lost if it crashed (or no peer has room); anything else is dropped
+   */
+  private reachDeparted(message: Message, departure: DepartureKind): void {
+    if (message.type === 'SEND' && message.color) {
+      const [handoff] = departure === 'leave' ? planHandoff([message.color], this.runtime.snapshot()) ?? [] : [];
+      if (handoff) {
+        this.membershipLog.recordHandoff(message.to, handoff);
+        this.transmit([
+          { type: 'SEND', from: message.to, to: handoff.to, color: message.color, timestamp: Date.now(), handback: 'handoff' }
+        ], message);
+      } else {
+        this.membershipLog.recordLoss(message.to, message.color);
+        this.onWarning(`Process ${message.to} is gone; ${message.color} from Process ${message.from} is lost`);
+      }
+    }
+    this.recordSystemState();
+  }
+
+  /**
+   * One membership change as a unit of work, checked against the resulting set of processes before anything changes
+   * A leaving process sends its balls off before it goes; messages relayed through it are rerouted
+   */
+  private async applyMembershipChange(change: MembershipChange): Promise<MembershipRecord> {
+    const processes = this.runtime.snapshot();
+    validateMembershipChange(change, processes, this.colorPalette, this.membershipLog.getDeparted());
+
+    const members = change.kind === 'join' ? [...this.processIds, change.id] : this.processIds.filter(id => id !== change.id);
+    const topology = createTopology(this.runOptions.topology, members);
+    const departing = processes.find(p => p.id === change.id);
+    const staying = processes.filter(p => p.id !== change.id);
+    const newcomer: ProcessState | null = change.kind === 'join'
+      ? {
+        id: change.id,
+        stack: [...change.stack],
+        wanted: null,
+        partner: null,
+        isDone: false,
+        ...(change.capacity !== undefined && { capacity: change.capacity }),
+        ...(change.targetSize !== undefined && { targetSize: change.targetSize })
+      }
+      : null;
+    const resulting = newcomer ? [...staying, newcomer] : staying;
+    const ballsInTransit = this.getMessagesInTransit()
+      .filter(m => m.type === 'SEND' && m.color && !(change.kind === 'crash' && m.to === change.id)).length;
+    validateTargetTotals(
+      resulting.reduce((sum, p) => sum + p.stack.length, 0) + (change.kind === 'leave' ? departing!.stack.length : 0) + ballsInTransit,
+      resulting
+    );
+    const handedOff = change.kind === 'leave' ? planHandoff(departing!.stack, staying) : [];
+    if (!handedOff) {
+      throw new ConsensusInputError(`Process ${change.id} cannot leave: no other process has room for its balls`);
+    }
+
+    const entry: MembershipChange = change.kind === 'join' ? { ...change, stack: [...change.stack] } : { ...change };
+    this.journal.push({ kind: 'membership', change: entry });
+    if (newcomer) {
+      this.colorPriorities[newcomer.id] = this.colorSelectionService.buildColorPriorities(members, this.colorPalette)[newcomer.id];
+      this.runtime.add(newcomer);
+      this.tracer.addProcess(newcomer.id);
+      this.knowledgeBase.join(newcomer);
+      this.terminationDetector.join(newcomer.id);
+    } else {
+      if (handedOff.length > 0) {
+        this.transmit(handedOff.map(({ to, color }) => (
+          { type: 'SEND', from: change.id, to, color, timestamp: Date.now(), handback: 'handoff' } as Message
+        )), null);
+      }
+      this.runtime.remove(change.id);
+      this.knowledgeBase.leave(change.id);
+      this.terminationDetector.leave(change.id);
+    }
+    this.processIds = members;
+    this.topology = topology;
+    for (const message of this.getMessagesInTransit()) {
+      if (!message.route?.includes(change.id)) continue;
+      const route = topology.routeBetween(message.from, message.to);
+      if (route.length > 0) {
+        message.route = route;
+      } else {
+        delete message.route;
+      }
+    }
+
+    const doneBefore = this.runtime.snapshot().filter(p => p.isDone).map(p => p.id);
+    this.perfectMonochromeAchievable = this.systemStateService.isPerfectMonochromeAchievable(this.runtime.snapshot());
+    this.terminationDetector.invalidate();
+    this.terminationForced = false;
+    if (this.protocolStarted) {
+      const sent: Message[] = [];
+      if (newcomer) {
+        sent.push(...(await this.runtime.act(newcomer.id, 'check-completion', this.contextFor(newcomer.id))).sent);
+        sent.push(...(await this.runtime.act(newcomer.id, 'start', this.contextFor(newcomer.id, sent))).sent);
+      }
+      sent.push(...await this.actEverywhere('membership-change', sent));
+      this.advanceTermination(sent);
+      this.transmit(sent, null);
+    }
+
+    const processesAfter = this.runtime.snapshot();
+    this.membershipVersion++;
+    this.analysisBaseline = {
+      distributions: Object.fromEntries(processesAfter.map(p => [p.id, [...p.stack]])),
+      exchanges: this.totalExchanges
+    };
+    const record = this.membershipLog.record(entry, {
+      appliedAtIteration: this.currentRun.iterations,
+      members: [...members],
+      handedOff,
+      lost: change.kind === 'crash' ? [...departing!.stack] : [],
+      woken: processesAfter.filter(p => doneBefore.includes(p.id) && !p.isDone).map(p => p.id)
+    });
+
+    this.onMembershipChanged(record);
+    this.recordSystemState();
+    return record;
+  }
+
+  /**
+   * Let every process act on its own initiative, one after another; returns what they sent
+   * Messages sent earlier in the same unit of work (`unsent`, then those of the processes before) count as in transit
+   */
+  private async actEverywhere(task: ProcessTask, unsent: Message[] = []): Promise<Message[]> {
+    const sent: Message[] = [];
+    for (const id of this.runtime.ids) {
+      const result = await this.runtime.act(id, task, this.contextFor(id, [...unsent, ...sent]));
+      sent.push(...result.sent);
+    }
+    return sent;
+  }
+
+  /**
+   * What a process may consult during a unit of work: the actual state of its peers and every message in transit
+   * with global knowledge; otherwise its own gossiped view of them, the messages it sent or is about to receive,
+   * and whether perfect monochrome looks achievable from that view (it assumes so until it has heard of every peer)
+   */
+  private contextFor(id: ProcessId, unsent: Message[] = []): ProcessContext {
+    const inTransit = unsent.length > 0 ? [...this.messageQueue, ...unsent] : this.messageQueue;
+    if (this.knowledgeMode !== 'global') {
+      const peers = this.knowledgeBase.viewOf(this.runtime.snapshotOf(id)!);
+      const knowsEveryPeer = this.knowledgeBase.knowsEveryPeer(id);
+      return {
+        peers,
+        knowsEveryPeer,
+        messagesInTransit: inTransit.filter(m => m.from === id || m.to === id),
+        perfectMonochromeAchievable: !knowsEveryPeer || this.systemStateService.isPerfectMonochromeAchievable(peers),
+        terminationForced: this.terminationForced,
+        neighbours: this.topology.restricted ? this.topology.neighboursOf(id) : undefined
+      };
+    }
+
+    return {
+      peers: this.runtime.snapshot(),
+      knowsEveryPeer: this.knowledgeBase.knowsEveryPeer(id),
+      messagesInTransit: inTransit,
+      perfectMonochromeAchievable: this.perfectMonochromeAchievable,
+      terminationForced: this.terminationForced,
+      neighbours: this.topology.restricted ? this.topology.neighboursOf(id) : undefined
+    };
+  }
+
+  /**
+   * Stamp the messages sent during the current unit of work, caused by `cause`, with IDs and logical clocks
+   * and, for non-neighbours, the route they are relayed along, then route them through the fault layer into
+   * the queue, or hand them to the transport
+   */
+  private transmit(sent: Message[], cause: Message | null): void {
+    for (const message of sent) {
+      const sender = this.runtime.snapshotOf(message.from);
+      if (this.knowledgeMode === 'gossip' && message.type !== 'TOKEN' && sender) {
+        message.gossip = this.knowledgeBase.gossipFrom(sender);
+      }
+      const route = this.topology.routeBetween(message.from, message.to);
+      if (route.length > 0) {
+        message.route = route;
+      }
+      this.tracer.recordSend(message, cause);
+      this.terminationDetector.recordSend(message);
+      this.partnerSelectionStrategy.messageSent?.(message);
+    }
+    if (!this.faultInjector) {
+      for (const message of sent) {
+        this.transport.send(message, this.messageQueue);
+      }
+      return;
+    }
+
+    for (const message of sent) {
+      this.faultInjector.transmit(message, this.messageQueue);
+    }
+  }
+
+  /**
+   * Let the termination detector's token holder act; a forwarded token joins the messages sent in this unit of work
+   * A process is passive once it is DONE: it will not send another basic message unless it receives one
+   */
+  private advanceTermination(sent: Message[]): void {
+    const token = this.terminationDetector.advance(id => this.runtime.snapshotOf(id)?.isDone ?? true);
+    if (token) {
+      sent.push(token);
+    }
+  }
+
+  /**
+   * One unit of work followed by the per-delivery bookkeeping: invariant checks and recovery tracking
+   */
+  private async deliverNext(): Promise<{ message: Message | null; violations: InvariantViolation[] }> {
+    const potentialBefore = this.calculatePotentialFunction();
+    const message = await this.processNextMessage();
+
+    const violations = this.invariantChecker.check({
+      processes: this.runtime.snapshot(),
+      messagesInTransit: this.getMessagesInTransit(),
+      expectedColorCounts: this.getExpectedColorCounts(),
+      perfectMonochromeAchievable: this.perfectMonochromeAchievable,
+      deliveredMessage: message,
+      potentialBefore,
+      potentialAfter: this.calculatePotentialFunction()
+    }, this.currentRun.runId);
+
+    this.currentRun.invariantViolations += violations.length;
+    for (const violation of violations) {
+      this.onInvariantViolated(violation);
+    }
+
+    this.recoveryTracker.recordDelivery();
+    this.settleRecovery();
+    return { message, violations };
+  }
+
+  /**
+   * Initial balls per color, adjusted for SENDs the fault layer dropped or duplicated and for balls that came
+   * with joining processes or were lost with crashed ones, so that conservation checks blame the protocol
+   * only for balls it lost itself
+   */
+  private getExpectedColorCounts(): Record<Color, number> {
+    const initial: Record<Color, number> = {};
+    for (const stack of Object.values(this.initialDistributions)) {
+      for (const ball of stack) {
+        initial[ball] = (initial[ball] || 0) + 1;
+      }
+    }
+    return this.mergeCounts(
+      initial, this.retiredBallAdjustments, this.faultInjector?.getBallAdjustments() ?? {}, this.membershipLog.getBallAdjustments()
+    );
+  }
+
+  /**
+   * Initial balls plus those that came with joining processes, minus those lost with crashed ones
+   */
+  private countExpectedBalls(): number {
+    const initial = Object.values(this.initialDistributions).reduce((sum, stack) => sum + stack.length, 0);
+    return Object.values(this.membershipLog.getBallAdjustments()).reduce((sum, n) => sum + n, initial);
+  }
+
+  private mergeCounts(...counts: Record<Color, number>[]): Record<Color, number> {
+    const merged: Record<Color, number> = {};
+    for (const entry of counts) {
+      for (const [color, n] of Object.entries(entry)) {
+        merged[color] = (merged[color] || 0) + n;
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Close open recovery records once the system has completed again
+   */
+  private settleRecovery(): void {
+    if (!this.recoveryTracker.hasOpenRecords() || !this.isSystemComplete()) return;
+
+    this.recoveryTracker.settle({
+      potential: this.calculatePotentialFunction(),
+      forcedTermination: this.terminationForced,
+      legitimate: this.systemStateService.isOptimalConsensusReached(this.runtime.snapshot(), [])
+    });
+  }
+
+  /**
+   * Messages in the queue plus any the network is still holding back
+   */
+  private getMessagesInTransit(): Message[] {
+    return [...this.messageQueue, ...(this.faultInjector?.getHeldMessages() ?? [])];
+  }
+
+  /**
+   * Complete only once nothing is held back by the network either
+   */
+  private isSystemComplete(): boolean {
+    return !this.faultInjector?.hasHeldMessages()
+      && this.systemStateService.isSystemComplete(this.runtime.snapshot(), this.messageQueue);
+  }
+
+  private hostsEveryProcess(transport: Transport = this.transport): boolean {
+    return this.processIds.every(id => transport.hosts(id));
+  }
+
+  /**
+   * Every process of a distribution must be hosted here or reachable through the transport
+   */
+  private validateReachable(distributions: Record<ProcessId, Color[]>, transport: Transport = this.transport): void {
+    const unreachable = Object.keys(distributions).map(Number).filter(id => !transport.reaches(id));
+    if (unreachable.length > 0) {
+      throw new ConsensusInputError(`Processes ${unreachable.join(', ')} are neither hosted here nor in the peer list`);
+    }
+  }
+
+  /**
+   * Options that need every process in view cannot run on an instance hosting only some of them
+   */
+  private validateHostedRun(options: RunOptions, transport: Transport = this.transport): void {
+    if (this.processIds.every(id => transport.hosts(id))) return;
+    if (options.knowledge === 'global') {
+      throw new ConsensusInputError('Global knowledge needs every process hosted on one instance; use gossip');
+    }
+    if (options.faults) {
+      throw new ConsensusInputError('Network faults cannot be injected when processes are hosted on several instances');
+    }
+    if (options.topology && options.topology.type !== 'complete') {
+      throw new ConsensusInputError('A sparse topology needs every process hosted on one instance');
+    }
+  }
+
+  /**
+   * Wait up to `ms` for a message from another instance, or for the run to be stopped
+   */
+  private async awaitInbound(ms: number): Promise<void> {
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, ms);
+      this.wakeOnInbound = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    this.wakeOnInbound = null;
+  }
+
+  /**
+   * Build everything the run options describe; the processes move to a fresh runtime with their current state
+   */
+  private installRunOptions(processes: ProcessState[] = this.runtime.snapshot()): void {
+    this.scheduler = createScheduler(this.runOptions.scheduler);
+    this.faultInjector = this.runOptions.faults
+      ? new FaultInjector(this.runOptions.faults, message => this.terminationDetector.recordLoss(message))
+      : null;
+    this.wantedColorStrategy = createWantedColorStrategy(this.runOptions.wantedColorStrategy);
+    this.partnerSelectionStrategy = createPartnerSelectionStrategy(this.runOptions.partnerSelection);
+    this.knowledgeMode = resolveKnowledgeMode(this.runOptions.knowledge);
+    this.runtimeMode = resolveRuntimeMode(this.runOptions.runtime);
+    this.topology = createTopology(this.runOptions.topology, this.processIds);
+    this.runtime?.close();
+    this.runtime = this.createRuntime(processes);
+  }
+
+  /**
+   * Inline, the processes share the engine's strategies and services; each worker thread builds its own
+   */
+  private createRuntime(processes: ProcessState[]): ProcessRuntime {
+    const settings: ProtocolSettings = {
+      wantedColorStrategy: this.runOptions.wantedColorStrategy,
+      partnerSelection: this.runOptions.partnerSelection,
+      knowledge: this.knowledgeMode,
+      colorPriorities: this.colorPriorities
+    };
+    if (this.runtimeMode === 'workers') {
+      return new WorkerRuntime(processes, settings);
+    }
+
+    return new ActorRuntime(processes, new ProcessProtocol(
+      settings,
+      { wantedColor: this.wantedColorStrategy, partnerSelection: this.partnerSelectionStrategy },
+      {
+        messageHandling: this.messageHandlingService,
+        colorSelection: this.colorSelectionService,
+        partnerSelection: this.partnerSelectionService
+      }
+    ));
+  }
+
+  /**
+   * Run one unit of work once the previous one has finished, so a step taken while a run is paused
+   * never interleaves with the run's unit in flight
+   */
+  private exclusively<T>(unit: () => Promise<T>): Promise<T> {
+    this.unitsInFlight++;
+    const result = this.workInProgress.then(unit).finally(() => this.unitsInFlight--);
+    this.workInProgress = result.catch(() => undefined);
+    return result;
+  }
+
+  private finishRun(status: RunStatus, error: string | null = null): void {
+    this.isRunning = false;
+    this.pauseGate = null;
+    this.releasePauseGate = null;
+    this.currentRun.finishedAt = new Date().toISOString();
+    this.currentRun.error = error;
+    this.setRunStatus(status);
+  }
+
+  private setRunStatus(status: RunStatus): void {
+    this.currentRun.status = status;
+    this.onRunStatusChanged(this.getRunInfo());
+  }
+
+  private openPauseGate(): void {
+    const release = this.releasePauseGate;
+    this.pauseGate = null;
+    this.releasePauseGate = null;
+    release?.();
+  }
+
+  private static createIdleRun(
+    scheduler: string, wantedColorStrategy: WantedColorStrategyName, partnerSelection: string, knowledge: KnowledgeMode, runtime: RuntimeMode,
+    topology: string
+  ): RunInfo {
+    return {
+      runId: null, status: 'idle', startedAt: null, finishedAt: null, iterations: 0, error: null,
+      scheduler, wantedColorStrategy, partnerSelection, knowledge, runtime, topology, invariantViolations: 0,
+      messagesDelivered: { REQUEST: 0, SEND: 0, DONE: 0, INFO: 0, TOKEN: 0 }, termination: null
+    };
+  }
+
+  /**
+   * Append the current state to the history and notify subscribers of changes
+   */
+  private recordSystemState(): void {
+    const state = this.systemStateService.saveSystemState(this.runtime.snapshot(), this.messageQueue, this.totalExchanges, this.systemHistory);
+    this.historyDigests.push(digestState(state));
+    this.onSystemStateSaved(state);
+
+    const potentialFunction = this.calculatePotentialFunction();
+    if (potentialFunction !== this.lastPotentialFunction) {
+      const previousValue = this.lastPotentialFunction;
+      this.lastPotentialFunction = potentialFunction;
+      this.onPotentialFunctionChanged(potentialFunction, previousValue);
+    }
   }
 }
@@ -0,0 +1,210 @@
+import { Logger } from '@nestjs/common';
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayInit,
+  OnGatewayConnection
+} from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { ConsensusService } from './consensus.service';
+import { SessionRegistryService, ConsensusSession, DEFAULT_SESSION_ID } from './session-registry.service';
+import { ConsensusInputError, ConsensusStateError } from './errors';
+import { ConsensusEvent, RunOptions } from './types';
+import { StartConsensusDto } from './dto';
+
+/**
+ * Acknowledgement returned to clients for socket commands
+ */
+export interface CommandAck {
+  ok: boolean;
+  message: string;
+}
+
+const ENGINE_EVENTS: ConsensusEvent[] = ['message', 'state', 'potential', 'completed', 'reset', 'status', 'corrupted', 'violation', 'membership'];
+
+/**
+ * Socket.IO gateway streaming live consensus events
+ * Clients receive every processed message, state snapshot, potential function
+ * change and run completion for the session they joined (the default session
+ * unless `sessionId` is given in the handshake query), and may issue run commands
+ */
+@WebSocketGateway({
+  namespace: '/consensus',
+  cors: {
+    origin: ['http://localhost:3000', 'http://localhost:4200'],
+    credentials: true,
+  },
+})
+export class ConsensusGateway implements OnGatewayInit, OnGatewayConnection {
+  private readonly logger = new Logger(ConsensusGateway.name);
+
+  @WebSocketServer()
+  server: Server;
+
+  constructor(private readonly sessionRegistry: SessionRegistryService) {}
+
+  /**
+   * Forward every engine event to the clients in that session's room
+   */
+  afterInit(): void {
+    for (const session of this.sessionRegistry.listSessions()) {
+      this.attachSession(session);
+    }
+
+    this.sessionRegistry.events.on('created', (session: ConsensusSession) => this.attachSession(session));
+    this.sessionRegistry.events.on('deleted', (session: ConsensusSession) => {
+      this.server.to(this.room(session.id)).emit('session-deleted', { sessionId: session.id });
+    });
+
+    this.logger.log('Consensus event stream initialized');
+  }
+
+  /**
+   * Join the requested session and send its snapshot so new clients can render without polling
+   */
+  handleConnection(client: Socket): void {
+    const requested = client.handshake.query.sessionId;
+    const sessionId = typeof requested === 'string' && requested ? requested : DEFAULT_SESSION_ID;
+
+    const ack = this.joinSession(client, sessionId);
+    if (!ack.ok) {
+      client.emit('error', { message: ack.message });
+      client.disconnect(true);
+    }
+  }
+
+  @SubscribeMessage('join')
+  handleJoin(@ConnectedSocket() client: Socket, @MessageBody() data: { sessionId?: string }): CommandAck {
+    return this.joinSession(client, data?.sessionId || DEFAULT_SESSION_ID);
+  }
+
+  /**
+   * Options are those of POST /consensus/start, validated the same way; invalid ones are acknowledged
+   * with `ok: false` and the run does not start
+   */
+  @SubscribeMessage('start')
+  async handleStart(@ConnectedSocket() client: Socket, @MessageBody() body?: unknown): Promise<CommandAck> {
+    const { options, error } = await this.toRunOptions(body);
+    if (error) {
+      return { ok: false, message: error };
+    }
+    return this.runCommand(client, 'Consensus algorithm started', engine => engine.startRun(options));
+  }
+
+  @SubscribeMessage('pause')
+  handlePause(@ConnectedSocket() client: Socket): Promise<CommandAck> {
+    return this.runCommand(client, 'Consensus algorithm paused', engine => engine.pauseConsensus());
+  }
+
+  @SubscribeMessage('resume')
+  handleResume(@ConnectedSocket() client: Socket): Promise<CommandAck> {
+    return this.runCommand(client, 'Consensus algorithm resumed', engine => engine.resumeConsensus());
+  }
+
+  @SubscribeMessage('stop')
+  handleStop(@ConnectedSocket() client: Socket): Promise<CommandAck> {
+    return this.runCommand(client, 'Consensus algorithm stopped', engine => engine.stopConsensus());
+  }
+
+  @SubscribeMessage('reset')
+  handleReset(@ConnectedSocket() client: Socket): Promise<CommandAck> {
+    return this.runCommand(client, 'System reset to initial state', engine => engine.reset());
+  }
+
+  /**
+   * Run a command against the client's session engine and acknowledge the outcome
+   */
+  private async runCommand(
+    client: Socket,
+    successMessage: string,
+    command: (engine: ConsensusService) => unknown
+  ): Promise<CommandAck> {
+    const engine = this.resolveEngine(client);
+    if (!engine) {
+      return { ok: false, message: `Session ${client.data.sessionId} not found` };
+    }
+
+    try {
+      await command(engine);
+      this.logger.log(`${successMessage} via WebSocket (session ${client.data.sessionId})`);
+      return { ok: true, message: successMessage };
+    } catch (error) {
+      if (error instanceof ConsensusStateError || error instanceof ConsensusInputError) {
+        return { ok: false, message: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run options from a start payload, or undefined to keep the engine's current ones
+   */
+  private async toRunOptions(body: unknown): Promise<{ options?: RunOptions; error?: string }> {
+    if (body === undefined || body === null) {
+      return {};
+    }
+    if (typeof body !== 'object' || Array.isArray(body)) {
+      return { error: 'Start options must be an object' };
+    }
+
+    const dto = plainToInstance(StartConsensusDto, body);
+    const errors = await validate(dto, { whitelist: true, forbidNonWhitelisted: true });
+    if (errors.length > 0) {
+      return { error: `Invalid start options: ${constraintMessages(errors).join('; ')}` };
+    }
+    const options = dto as RunOptions;
+    return Object.values(options).some(value => value !== undefined) ? { options } : {};
+  }
+
+  private attachSession(session: ConsensusSession): void {
+    const room = this.room(session.id);
+    for (const event of ENGINE_EVENTS) {
+      session.engine.events.on(event, (payload: unknown) => this.server.to(room).emit(event, payload));
+    }
+  }
+
+  private joinSession(client: Socket, sessionId: string): CommandAck {
+    let engine: ConsensusService;
+    try {
+      engine = this.sessionRegistry.getSession(sessionId).engine;
+    } catch {
+      return { ok: false, message: `Session ${sessionId} not found` };
+    }
+
+    if (client.data.sessionId) {
+      client.leave(this.room(client.data.sessionId));
+    }
+    client.data.sessionId = sessionId;
+    client.join(this.room(sessionId));
+
+    client.emit('state', engine.getSystemState());
+    client.emit('potential', { value: engine.calculatePotentialFunction(), previousValue: null });
+    client.emit('status', engine.getRunInfo());
+
+    return { ok: true, message: `Joined session ${sessionId}` };
+  }
+
+  private resolveEngine(client: Socket): ConsensusService | null {
+    try {
+      return this.sessionRegistry.getSession(client.data.sessionId).engine;
+    } catch {
+      return null;
+    }
+  }
+
+  private room(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
+}
+
+/**
+ * Every failed constraint, nested options included
+ */
+function constraintMessages(errors: ValidationError[]): string[] {
+  return errors.flatMap(error => [...Object.values(error.constraints ?? {}), ...constraintMessages(error.children ?? [])]);
+}
@@ -2,31 +2,40 @@ import { Module } from '@nestjs/common';
 import { BaseConsensusService } from './base-consensus.service';
 import { ConsensusService } from './consensus.service';
 import { ApiController } from './api.controller';
+import { SessionController } from './session.controller';
+import { SessionRegistryService } from './session-registry.service';
+import { ConsensusGateway } from './consensus.gateway';
 import { ColorSelectionService } from './services/color-selection.service';
 import { PartnerSelectionService } from './services/partner-selection.service';
 import { MessageHandlingService } from './services/message-handling.service';
 import { LoggingSystemService } from './services/logging-system.service';
 import { SystemStateService } from './services/system-state.service';
+import { ExperimentRunnerService } from './experiments';
 
 @Module({
-  controllers: [ApiController],
+  controllers: [ApiController, SessionController],
   providers: [
     BaseConsensusService,
     ConsensusService,
+    ConsensusGateway,
+    SessionRegistryService,
     ColorSelectionService,
     PartnerSelectionService,
     MessageHandlingService,
     LoggingSystemService,
     SystemStateService,
+    ExperimentRunnerService,
   ],
   exports: [
     BaseConsensusService,
     ConsensusService,
+    SessionRegistryService,
     ColorSelectionService,
     PartnerSelectionService,
     MessageHandlingService,
     LoggingSystemService,
     SystemStateService,
+    ExperimentRunnerService,
   ],
 })
 export class ConsensusModule {}
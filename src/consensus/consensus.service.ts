@@ -1,10 +1,16 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { EventEmitter } from 'events';
 import { BaseConsensusService } from './base-consensus.service';
 import { ColorSelectionService } from './services/color-selection.service';
 import { PartnerSelectionService } from './services/partner-selection.service';
 import { MessageHandlingService } from './services/message-handling.service';
 import { LoggingSystemService } from './services/logging-system.service';
 import { SystemStateService } from './services/system-state.service';
+import { ConsensusEvent, Message, SystemState, RunInfo } from './types';
+import { RecoveryRecord } from './corruption';
+import { InvariantViolation } from './invariants';
+import { MembershipRecord } from './membership';
+import { TerminationKind } from './termination';
 
 /**
  * NestJS Consensus Service
@@ -14,6 +20,11 @@ import { SystemStateService } from './services/system-state.service';
 export class ConsensusService extends BaseConsensusService {
   private readonly logger = new Logger(ConsensusService.name);
 
+  /**
+   * Live event stream consumed by the WebSocket gateway
+   */
+  readonly events = new EventEmitter();
+
   constructor(
     colorSelectionService: ColorSelectionService,
     partnerSelectionService: PartnerSelectionService,
@@ -50,8 +61,9 @@ export class ConsensusService extends BaseConsensusService {
     this.logger?.log(`--- Iteration ${iterationCount} - System Check ---`);
   }
 
-  protected onConsensusCompleted(iterationCount: number): void {
-    this.logger?.log(`Consensus algorithm completed in ${iterationCount} iterations!`);
+  protected onConsensusCompleted(iterationCount: number, termination: TerminationKind): void {
+    this.logger?.log(`Consensus algorithm completed in ${iterationCount} iterations (${termination})!`);
+    this.emit('completed', { iterations: iterationCount, termination, state: this.getSystemState() });
   }
 
   protected onWarning(message: string): void {
@@ -60,5 +72,45 @@ export class ConsensusService extends BaseConsensusService {
 
   protected onSystemReset(): void {
     this.logger.log('System reset to initial state');
+    this.emit('reset', this.getSystemState());
+  }
+
+  protected onMessageProcessed(message: Message): void {
+    this.emit('message', message);
+  }
+
+  protected onSystemStateSaved(state: SystemState): void {
+    this.emit('state', state);
+  }
+
+  protected onPotentialFunctionChanged(value: number, previousValue: number | null): void {
+    this.emit('potential', { value, previousValue });
+  }
+
+  protected onRunStatusChanged(run: RunInfo): void {
+    this.logger?.log(`Run ${run.runId ?? '-'} is ${run.status}`);
+    this.emit('status', run);
+  }
+
+  protected onStateCorrupted(record: RecoveryRecord): void {
+    this.logger.warn(`State corrupted (record ${record.id}): ${JSON.stringify(record.corruption)}`);
+    this.emit('corrupted', record);
+  }
+
+  protected onMembershipChanged(record: MembershipRecord): void {
+    this.logger.log(`Membership changed (record ${record.id}): ${record.change.kind} of process ${record.change.id}; members ${record.members.join(', ')}`);
+    this.emit('membership', record);
+  }
+
+  protected onInvariantViolated(violation: InvariantViolation): void {
+    this.logger.error(`Invariant ${violation.invariant} violated: ${violation.message}`);
+    this.emit('violation', violation);
+  }
+
+  /**
+   * Hooks fire from the base constructor before class fields exist, hence the guard
+   */
+  private emit(event: ConsensusEvent, payload: unknown): void {
+    this.events?.emit(event, payload);
   }
 }
@@ -0,0 +1,89 @@
+import { Color, Message, ProcessId, ProcessState } from '../types';
+import { ConsensusInputError } from '../errors';
+
+/**
+ * Control-state fields to overwrite on one process; omitted fields are left alone
+ * Stacks are deliberately out of scope: they are the data being sorted, not state the protocol can repair
+ */
+export interface ProcessCorruption {
+  id: ProcessId;
+  isDone?: boolean;
+  wanted?: Color | null;
+  partner?: ProcessId | null;
+}
+
+/**
+ * A stale message appended to the queue as if it had been sent earlier
+ * SENDs are excluded because they would create balls out of nowhere
+ */
+export interface StaleMessage {
+  type: 'REQUEST' | 'DONE';
+  from: ProcessId;
+  to: ProcessId;
+  color?: Color;
+}
+
+export interface CorruptionSpec {
+  processes?: ProcessCorruption[];
+  messages?: StaleMessage[];
+}
+
+/**
+ * Check a corruption against the current system before anything is overwritten
+ */
+export function validateCorruption(spec: CorruptionSpec, processes: ProcessState[], palette: Color[]): void {
+  const ids = new Set(processes.map(p => p.id));
+  const requireProcess = (id: ProcessId, field: string) => {
+    if (!ids.has(id)) {
+      throw new ConsensusInputError(`${field} refers to unknown process ${id}`);
+    }
+  };
+  const requireColor = (color: Color, field: string) => {
+    if (!palette.includes(color)) {
+      throw new ConsensusInputError(`${field} has unknown color "${color}" (allowed: ${palette.join(', ')})`);
+    }
+  };
+
+  if (!spec.processes?.length && !spec.messages?.length) {
+    throw new ConsensusInputError('corruption must overwrite at least one process or inject at least one message');
+  }
+
+  spec.processes?.forEach((corruption, index) => {
+    requireProcess(corruption.id, `processes[${index}].id`);
+    if (corruption.wanted) requireColor(corruption.wanted, `processes[${index}].wanted`);
+    if (corruption.partner) requireProcess(corruption.partner, `processes[${index}].partner`);
+  });
+
+  spec.messages?.forEach((message, index) => {
+    requireProcess(message.from, `messages[${index}].from`);
+    requireProcess(message.to, `messages[${index}].to`);
+    if (message.type === 'REQUEST') {
+      if (!message.color) {
+        throw new ConsensusInputError(`messages[${index}] is a REQUEST and needs a color`);
+      }
+      requireColor(message.color, `messages[${index}].color`);
+    }
+  });
+}
+
+/**
+ * Overwrite process fields and append stale messages in place
+ */
+export function applyCorruption(spec: CorruptionSpec, processes: ProcessState[], messageQueue: Message[]): void {
+  for (const corruption of spec.processes ?? []) {
+    const process = processes.find(p => p.id === corruption.id)!;
+    if (corruption.isDone !== undefined) process.isDone = corruption.isDone;
+    if (corruption.wanted !== undefined) process.wanted = corruption.wanted;
+    if (corruption.partner !== undefined) process.partner = corruption.partner;
+  }
+
+  for (const message of spec.messages ?? []) {
+    messageQueue.push({
+      type: message.type,
+      from: message.from,
+      to: message.to,
+      ...(message.type === 'REQUEST' ? { color: message.color } : {}),
+      timestamp: Date.now()
+    });
+  }
+}
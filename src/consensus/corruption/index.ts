@@ -0,0 +1,14 @@
+export {
+  CorruptionSpec,
+  ProcessCorruption,
+  StaleMessage,
+  validateCorruption,
+  applyCorruption
+} from './corruption';
+export {
+  RecoveryTracker,
+  RecoveryRecord,
+  RecoveryReport,
+  RecoveryStatus,
+  SettledOutcome
+} from './recovery-tracker';
@@ -0,0 +1,93 @@
+import { CorruptionSpec } from './corruption';
+
+export type RecoveryStatus = 'recovering' | 'recovered' | 'failed';
+
+/**
+ * What happened after one corruption: whether the system re-converged and how fast
+ */
+export interface RecoveryRecord {
+  id: number;
+  corruption: CorruptionSpec;
+  injectedAt: string;
+  injectedAtDelivery: number;
+  potentialAtInjection: number;
+  status: RecoveryStatus;
+  settledAt: string | null;
+  deliveriesToSettle: number | null;
+  finalPotential: number | null;
+  forcedTermination: boolean;   // completion was forced by stagnation or the iteration limit
+  legitimate: boolean | null;   // the settled state is an optimal consensus
+}
+
+export interface RecoveryReport {
+  deliveries: number;
+  records: RecoveryRecord[];
+  allRecovered: boolean;
+}
+
+export interface SettledOutcome {
+  potential: number;
+  forcedTermination: boolean;
+  legitimate: boolean;
+}
+
+/**
+ * Follows every injected corruption until the system completes again
+ * Time is counted in deliveries (messages delivered or request ticks), independent of wall-clock speed
+ */
+export class RecoveryTracker {
+  private records: RecoveryRecord[] = [];
+  private deliveries = 0;
+
+  open(corruption: CorruptionSpec, potential: number): RecoveryRecord {
+    const record: RecoveryRecord = {
+      id: this.records.length + 1,
+      corruption,
+      injectedAt: new Date().toISOString(),
+      injectedAtDelivery: this.deliveries,
+      potentialAtInjection: potential,
+      status: 'recovering',
+      settledAt: null,
+      deliveriesToSettle: null,
+      finalPotential: null,
+      forcedTermination: false,
+      legitimate: null
+    };
+
+    this.records.push(record);
+    return { ...record };
+  }
+
+  recordDelivery(): void {
+    this.deliveries++;
+  }
+
+  hasOpenRecords(): boolean {
+    return this.records.some(record => record.status === 'recovering');
+  }
+
+  /**
+   * Close every open record now that the system has completed
+   * Recovery only counts if completion was reached naturally and the state is legitimate
+   */
+  settle(outcome: SettledOutcome): void {
+    for (const record of this.records) {
+      if (record.status !== 'recovering') continue;
+
+      record.status = outcome.legitimate && !outcome.forcedTermination ? 'recovered' : 'failed';
+      record.settledAt = new Date().toISOString();
+      record.deliveriesToSettle = this.deliveries - record.injectedAtDelivery;
+      record.finalPotential = outcome.potential;
+      record.forcedTermination = outcome.forcedTermination;
+      record.legitimate = outcome.legitimate;
+    }
+  }
+
+  getReport(): RecoveryReport {
+    return {
+      deliveries: this.deliveries,
+      records: this.records.map(record => ({ ...record })),
+      allRecovered: this.records.length > 0 && this.records.every(record => record.status === 'recovered')
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsOptional,
+  IsIn,
+  IsInt,
+  IsBoolean,
+  IsString,
+  IsArray,
+  Min,
+  ArrayMaxSize,
+  ValidateNested
+} from 'class-validator';
+import { Color, ProcessId } from '../types';
+
+export const MAX_CORRUPTED_PROCESSES = 50;
+export const MAX_STALE_MESSAGES = 100;
+
+export class ProcessCorruptionDto {
+  @ApiProperty({ description: 'Process to corrupt', example: 1 })
+  @IsInt()
+  @Min(1)
+  id: ProcessId;
+
+  @ApiPropertyOptional({ description: 'Overwrite the done flag, e.g. a false isDone on a mixed stack' })
+  @IsOptional()
+  @IsBoolean()
+  isDone?: boolean;
+
+  @ApiPropertyOptional({ description: 'Overwrite the wanted color (null clears it)', nullable: true, example: 'B' })
+  @IsOptional()
+  @IsString()
+  wanted?: Color | null;
+
+  @ApiPropertyOptional({ description: 'Overwrite the partner (null clears it)', nullable: true, example: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  partner?: ProcessId | null;
+}
+
+export class StaleMessageDto {
+  @ApiProperty({ enum: ['REQUEST', 'DONE'] })
+  @IsIn(['REQUEST', 'DONE'])
+  type: 'REQUEST' | 'DONE';
+
+  @ApiProperty({ example: 2 })
+  @IsInt()
+  @Min(1)
+  from: ProcessId;
+
+  @ApiProperty({ example: 1 })
+  @IsInt()
+  @Min(1)
+  to: ProcessId;
+
+  @ApiPropertyOptional({ description: 'Requested color (REQUEST only)', example: 'R' })
+  @IsOptional()
+  @IsString()
+  color?: Color;
+}
+
+/**
+ * Request body for POST /consensus/corrupt
+ */
+export class CorruptStateDto {
+  @ApiPropertyOptional({ type: [ProcessCorruptionDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_CORRUPTED_PROCESSES)
+  @ValidateNested({ each: true })
+  @Type(() => ProcessCorruptionDto)
+  processes?: ProcessCorruptionDto[];
+
+  @ApiPropertyOptional({ type: [StaleMessageDto], description: 'Stale messages appended to the queue' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_STALE_MESSAGES)
+  @ValidateNested({ each: true })
+  @Type(() => StaleMessageDto)
+  messages?: StaleMessageDto[];
+}
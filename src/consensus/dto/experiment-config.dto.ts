@@ -0,0 +1,145 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsOptional,
+  IsInt,
+  IsBoolean,
+  IsArray,
+  IsObject,
+  IsString,
+  IsIn,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  ArrayUnique,
+  Min,
+  Max,
+  ValidateNested
+} from 'class-validator';
+import { Color, ProcessId } from '../types';
+import { GENERATED_PALETTE } from '../experiments';
+import { WANTED_COLOR_STRATEGIES, WantedColorStrategyName } from '../strategies';
+import { KNOWLEDGE_MODES, KnowledgeMode } from '../knowledge';
+import { RUNTIME_MODES, RuntimeMode } from '../actors';
+import { SchedulerConfigDto, PartnerSelectionConfigDto, TopologyConfigDto } from './start-consensus.dto';
+import { FaultConfigDto } from './fault-config.dto';
+import { MAX_PROCESSES, MAX_BALLS_PER_PROCESS, MAX_COLORS } from './reset-consensus.dto';
+
+export const MAX_EXPERIMENT_RUNS = 5000;
+export const MAX_EXPERIMENT_SCENARIOS = 1000;
+
+export class DistributionGeneratorDto {
+  @ApiProperty({ example: 3 })
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PROCESSES)
+  processes: number;
+
+  @ApiProperty({ example: 10 })
+  @IsInt()
+  @Min(1)
+  @Max(MAX_BALLS_PER_PROCESS)
+  ballsPerProcess: number;
+
+  @ApiProperty({ description: `Number of colors, taken from ${GENERATED_PALETTE.join(', ')}`, example: 3 })
+  @IsInt()
+  @Min(1)
+  @Max(GENERATED_PALETTE.length)
+  colors: number;
+}
+
+/**
+ * Request body for POST /consensus/experiments
+ */
+export class ExperimentConfigDto {
+  @ApiProperty({ description: `Number of runs (at most ${MAX_EXPERIMENT_RUNS})`, example: 100 })
+  @IsInt()
+  @Min(1)
+  @Max(MAX_EXPERIMENT_RUNS)
+  runs: number;
+
+  @ApiPropertyOptional({ description: 'Base seed; run i uses seed + i', default: 1 })
+  @IsOptional()
+  @IsInt()
+  seed?: number;
+
+  @ApiPropertyOptional({
+    description: 'Scenarios to cycle through instead of generated distributions',
+    type: 'array',
+    items: { type: 'object', additionalProperties: { type: 'array', items: { type: 'string' } } }
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_EXPERIMENT_SCENARIOS)
+  @IsObject({ each: true })
+  distributions?: Record<ProcessId, Color[]>[];
+
+  @ApiPropertyOptional({ type: [String], description: 'Palette for the supplied scenarios (defaults to R, G, B)' })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_COLORS)
+  @ArrayUnique()
+  @IsString({ each: true })
+  palette?: Color[];
+
+  @ApiPropertyOptional({ type: DistributionGeneratorDto, description: 'Shape of generated distributions (default 3 processes × 10 balls, 3 colors)' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DistributionGeneratorDto)
+  generator?: DistributionGeneratorDto;
+
+  @ApiPropertyOptional({ type: SchedulerConfigDto, description: 'A random scheduler is reseeded per run' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SchedulerConfigDto)
+  scheduler?: SchedulerConfigDto;
+
+  @ApiPropertyOptional({ type: FaultConfigDto, description: 'Network faults, reseeded per run' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FaultConfigDto)
+  faults?: FaultConfigDto;
+
+  @ApiPropertyOptional({ enum: WANTED_COLOR_STRATEGIES, default: 'bottom-of-stack' })
+  @IsOptional()
+  @IsIn(WANTED_COLOR_STRATEGIES)
+  wantedColorStrategy?: WantedColorStrategyName;
+
+  @ApiPropertyOptional({ type: PartnerSelectionConfigDto, description: 'A random strategy is reseeded per run' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PartnerSelectionConfigDto)
+  partnerSelection?: PartnerSelectionConfigDto;
+
+  @ApiPropertyOptional({ enum: KNOWLEDGE_MODES, default: 'gossip' })
+  @IsOptional()
+  @IsIn(KNOWLEDGE_MODES)
+  knowledge?: KnowledgeMode;
+
+  @ApiPropertyOptional({ enum: RUNTIME_MODES, default: 'inline' })
+  @IsOptional()
+  @IsIn(RUNTIME_MODES)
+  runtime?: RuntimeMode;
+
+  @ApiPropertyOptional({ type: TopologyConfigDto, description: 'Communication topology of every run (default complete)' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TopologyConfigDto)
+  topology?: TopologyConfigDto;
+
+  @ApiPropertyOptional({ default: false })
+  @IsOptional()
+  @IsBoolean()
+  failOnInvariantViolation?: boolean;
+}
+
+/**
+ * Query for POST /consensus/experiments
+ */
+export class ExperimentFormatDto {
+  @ApiPropertyOptional({ enum: ['json', 'csv'], default: 'json', description: 'csv returns one line per run' })
+  @IsOptional()
+  @IsIn(['json', 'csv'])
+  format?: 'json' | 'csv';
+}
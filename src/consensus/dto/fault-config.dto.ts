@@ -0,0 +1,101 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsOptional, IsInt, IsNumber, Min, Max, ValidateNested } from 'class-validator';
+
+export const MAX_DELAY_TICKS = 1000;
+export const MAX_REQUEST_RETRIES = 100;
+
+/**
+ * Per-message probabilities of each fault, between 0 and 1
+ */
+export class FaultProbabilitiesDto {
+  @ApiPropertyOptional({ minimum: 0, maximum: 1, example: 0.1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  drop?: number;
+
+  @ApiPropertyOptional({ minimum: 0, maximum: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  duplicate?: number;
+
+  @ApiPropertyOptional({ minimum: 0, maximum: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  delay?: number;
+
+  @ApiPropertyOptional({ minimum: 0, maximum: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  reorder?: number;
+}
+
+export class MessageFaultProbabilitiesDto {
+  @ApiPropertyOptional({ type: FaultProbabilitiesDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FaultProbabilitiesDto)
+  REQUEST?: FaultProbabilitiesDto;
+
+  @ApiPropertyOptional({ type: FaultProbabilitiesDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FaultProbabilitiesDto)
+  SEND?: FaultProbabilitiesDto;
+
+  @ApiPropertyOptional({ type: FaultProbabilitiesDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FaultProbabilitiesDto)
+  DONE?: FaultProbabilitiesDto;
+
+  @ApiPropertyOptional({ type: FaultProbabilitiesDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FaultProbabilitiesDto)
+  INFO?: FaultProbabilitiesDto;
+}
+
+/**
+ * Unreliable network configuration for a run
+ */
+export class FaultConfigDto {
+  @ApiPropertyOptional({ description: 'PRNG seed for fault decisions', default: 0 })
+  @IsOptional()
+  @IsInt()
+  seed?: number;
+
+  @ApiPropertyOptional({ type: MessageFaultProbabilitiesDto, example: { SEND: { drop: 0.05 }, REQUEST: { drop: 0.2, delay: 0.1 } } })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MessageFaultProbabilitiesDto)
+  probabilities?: MessageFaultProbabilitiesDto;
+
+  @ApiPropertyOptional({ description: 'Delayed messages are held for 1..maxDelayTicks deliveries', minimum: 1, maximum: MAX_DELAY_TICKS })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_DELAY_TICKS)
+  maxDelayTicks?: number;
+
+  @ApiPropertyOptional({ description: 'Deliveries after which an undelivered REQUEST is retransmitted', minimum: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  requestTimeoutTicks?: number;
+
+  @ApiPropertyOptional({ description: 'Retransmissions per REQUEST before the sender gives up', minimum: 0, maximum: MAX_REQUEST_RETRIES })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_REQUEST_RETRIES)
+  maxRetries?: number;
+}
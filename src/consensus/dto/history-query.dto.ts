@@ -0,0 +1,26 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsOptional, IsInt, Min } from 'class-validator';
+import { DEFAULT_HISTORY_PAGE_SIZE, MAX_HISTORY_PAGE_SIZE } from '../history';
+
+/**
+ * Query for GET /consensus/history
+ */
+export class HistoryQueryDto {
+  @ApiPropertyOptional({ description: 'First snapshot index (inclusive); defaults to the oldest retained', example: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  from?: number;
+
+  @ApiPropertyOptional({
+    description: `Snapshot index to stop before (exclusive), at most the total; defaults to ${DEFAULT_HISTORY_PAGE_SIZE} snapshots, at most ${MAX_HISTORY_PAGE_SIZE} are returned`,
+    example: 100
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  to?: number;
+}
@@ -0,0 +1,133 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsOptional,
+  IsIn,
+  IsInt,
+  IsBoolean,
+  IsString,
+  IsArray,
+  IsObject,
+  Min,
+  ArrayMaxSize,
+  ValidateNested
+} from 'class-validator';
+import { Color, MessageType, ProcessId } from '../types';
+import { VectorClock } from '../tracing';
+
+export const MESSAGE_TYPES: MessageType[] = ['REQUEST', 'SEND', 'DONE', 'INFO', 'TOKEN'];
+export const MAX_GOSSIP_SUMMARIES = 1000;
+
+export class PeerSummaryDto {
+  @ApiProperty({ example: 2 })
+  @IsInt()
+  @Min(1)
+  id: ProcessId;
+
+  @ApiProperty({ type: 'object', additionalProperties: { type: 'integer' }, example: { R: 3, G: 1 } })
+  @IsObject()
+  colorCounts: Record<Color, number>;
+
+  @ApiProperty({ nullable: true, example: 'R' })
+  @IsOptional()
+  @IsString()
+  wanted: Color | null;
+
+  @ApiProperty()
+  @IsBoolean()
+  isDone: boolean;
+
+  @ApiProperty({ example: 4 })
+  @IsInt()
+  @Min(0)
+  version: number;
+
+  @ApiPropertyOptional({ example: 10 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  capacity?: number;
+
+  @ApiPropertyOptional({ example: 10 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  targetSize?: number;
+}
+
+export class SafraTokenDto {
+  @ApiProperty({ example: 0 })
+  @IsInt()
+  count: number;
+
+  @ApiProperty()
+  @IsBoolean()
+  black: boolean;
+
+  @ApiPropertyOptional({ description: 'Termination was detected; passed on to tell the processes hosted elsewhere' })
+  @IsOptional()
+  @IsBoolean()
+  announced?: boolean;
+}
+
+/**
+ * Request body for POST /consensus/inbox: a message another instance's process sent to the process hosted here
+ */
+export class InboundMessageDto {
+  @ApiProperty({ enum: MESSAGE_TYPES })
+  @IsIn(MESSAGE_TYPES)
+  type: MessageType;
+
+  @ApiProperty({ example: 2 })
+  @IsInt()
+  @Min(1)
+  from: ProcessId;
+
+  @ApiProperty({ example: 1 })
+  @IsInt()
+  @Min(1)
+  to: ProcessId;
+
+  @ApiPropertyOptional({ example: 'R' })
+  @IsOptional()
+  @IsString()
+  color?: Color;
+
+  @ApiProperty({ description: "Sender's wall clock, for display only" })
+  @IsInt()
+  timestamp: number;
+
+  @ApiPropertyOptional({ description: 'Unique per sender and reset' })
+  @IsOptional()
+  @IsInt()
+  id?: number;
+
+  @ApiPropertyOptional({ description: "Sender's Lamport clock at send time" })
+  @IsOptional()
+  @IsInt()
+  lamport?: number;
+
+  @ApiPropertyOptional({ type: 'object', additionalProperties: { type: 'integer' }, description: "Sender's vector clock at send time" })
+  @IsOptional()
+  @IsObject()
+  vector?: VectorClock;
+
+  @ApiPropertyOptional({ enum: ['swap', 'refused'], description: 'On a SEND from a full process: a ball handed back' })
+  @IsOptional()
+  @IsIn(['swap', 'refused'])
+  handback?: 'swap' | 'refused';
+
+  @ApiPropertyOptional({ type: [PeerSummaryDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_GOSSIP_SUMMARIES)
+  @ValidateNested({ each: true })
+  @Type(() => PeerSummaryDto)
+  gossip?: PeerSummaryDto[];
+
+  @ApiPropertyOptional({ type: SafraTokenDto, description: 'The termination detector token (TOKEN only)' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SafraTokenDto)
+  token?: SafraTokenDto;
+}
@@ -0,0 +1,10 @@
+export { ResetConsensusDto, StackLimitsDto } from './reset-consensus.dto';
+export { StepConsensusDto } from './step-consensus.dto';
+export { StartConsensusDto, SchedulerConfigDto } from './start-consensus.dto';
+export { FaultConfigDto } from './fault-config.dto';
+export { CorruptStateDto } from './corrupt-state.dto';
+export { ReplayRunDto } from './replay-run.dto';
+export { HistoryQueryDto } from './history-query.dto';
+export { ExperimentConfigDto, ExperimentFormatDto } from './experiment-config.dto';
+export { InboundMessageDto, PeerSummaryDto, SafraTokenDto } from './inbound-message.dto';
+export { JoinProcessDto } from './join-process.dto';
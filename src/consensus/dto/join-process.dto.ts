@@ -0,0 +1,32 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsInt, IsString, IsArray, Min, ArrayMaxSize } from 'class-validator';
+import { Color, ProcessId } from '../types';
+import { MAX_BALLS_PER_PROCESS } from './reset-consensus.dto';
+
+/**
+ * Request body for POST /consensus/processes
+ */
+export class JoinProcessDto {
+  @ApiProperty({ description: 'ID of the joining process; must not have taken part in the run before', example: 4 })
+  @IsInt()
+  @Min(1)
+  id: ProcessId;
+
+  @ApiProperty({ type: [String], description: 'Balls the process brings, top of the stack last', example: ['R', 'G', 'B'] })
+  @IsArray()
+  @ArrayMaxSize(MAX_BALLS_PER_PROCESS)
+  @IsString({ each: true })
+  stack: Color[];
+
+  @ApiPropertyOptional({ description: 'Most balls the process may hold', example: 4 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  capacity?: number;
+
+  @ApiPropertyOptional({ description: 'Number of balls the process should end up holding', example: 3 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  targetSize?: number;
+}
@@ -0,0 +1,115 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  Min,
+  IsArray,
+  IsString,
+  IsObject,
+  IsOptional,
+  ArrayMaxSize,
+  ValidateNested,
+  Validate,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+  ValidationArguments
+} from 'class-validator';
+import { Color } from '../types';
+import { JournalEntry } from '../replay';
+import { StartConsensusDto } from './start-consensus.dto';
+import { findDistributionError, MAX_COLORS, StackLimitsDto } from './reset-consensus.dto';
+
+export const MAX_JOURNAL_ENTRIES = 100000;
+
+/**
+ * Validates the recorded distributions against the recorded palette,
+ * or just their shape when the palette was derived from them
+ */
+@ValidatorConstraint({ name: 'isRecordedDistributionMap' })
+export class IsRecordedDistributionMapConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown, args: ValidationArguments): boolean {
+    return findDistributionError(value, this.getPalette(value, args)) === null;
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    return findDistributionError(args.value, this.getPalette(args.value, args)) || 'initialDistributions is invalid';
+  }
+
+  private getPalette(value: unknown, args: ValidationArguments): Color[] {
+    const palette = (args.object as ReplayRunDto).palette;
+    if (Array.isArray(palette)) return palette;
+
+    const colors = value && typeof value === 'object' ? Object.values(value).flat() : [];
+    return colors.filter((ball): ball is Color => typeof ball === 'string');
+  }
+}
+
+export class DiscardedEntriesDto {
+  @ApiProperty({ description: 'Oldest journal entries dropped by the retention limit' })
+  @IsInt()
+  @Min(0)
+  journalEntries: number;
+
+  @ApiProperty({ description: 'Oldest history digests dropped by the retention limit' })
+  @IsInt()
+  @Min(0)
+  historySnapshots: number;
+}
+
+/**
+ * Request body for POST /consensus/replay: a recording as returned by GET /consensus/recording
+ */
+export class ReplayRunDto {
+  @ApiProperty({ description: 'Recording format version', example: 1 })
+  @IsInt()
+  version: number;
+
+  @ApiProperty({
+    description: 'Initial ball stacks keyed by process ID',
+    type: 'object',
+    additionalProperties: { type: 'array', items: { type: 'string' } }
+  })
+  @Validate(IsRecordedDistributionMapConstraint)
+  initialDistributions: Record<string, Color[]>;
+
+  @ApiPropertyOptional({ type: [String], nullable: true, description: 'Configured palette, or null when derived from the distributions' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_COLORS)
+  @IsString({ each: true })
+  palette: Color[] | null;
+
+  @ApiPropertyOptional({ type: StackLimitsDto, description: 'Capacities and target sizes of the recorded processes' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => StackLimitsDto)
+  stackLimits?: StackLimitsDto;
+
+  @ApiProperty({ type: StartConsensusDto, description: 'Run options in effect when the recording began' })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => StartConsensusDto)
+  options: StartConsensusDto;
+
+  @ApiProperty({ type: 'array', items: { type: 'object' }, description: 'State-changing events in the order they happened' })
+  @IsArray()
+  @ArrayMaxSize(MAX_JOURNAL_ENTRIES)
+  @IsObject({ each: true })
+  journal: JournalEntry[];
+
+  @ApiProperty({ type: [String], description: 'Digest of every history snapshot' })
+  @IsArray()
+  @ArrayMaxSize(MAX_JOURNAL_ENTRIES)
+  @IsString({ each: true })
+  historyDigests: string[];
+
+  @ApiProperty({ description: 'Digest of the state when the recording was taken' })
+  @IsString()
+  finalDigest: string;
+
+  @ApiPropertyOptional({ type: DiscardedEntriesDto, description: 'Present when the run outgrew the retention limit; such a recording cannot be replayed' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DiscardedEntriesDto)
+  discarded?: DiscardedEntriesDto;
+}
@@ -0,0 +1,188 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsOptional,
+  IsDefined,
+  ValidateIf,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  ArrayUnique,
+  IsString,
+  Matches,
+  Validate,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+  ValidationArguments
+} from 'class-validator';
+import { Color } from '../types';
+
+export const DEFAULT_PALETTE: Color[] = ['R', 'G', 'B'];
+export const MAX_PROCESSES = 50;
+export const MAX_COLORS = 50;
+export const MAX_BALLS_PER_PROCESS = 500;
+export const MAX_TOTAL_BALLS = 5000;
+
+const PROCESS_KEY_PATTERN = /^[1-9]\d*$/;
+const COLOR_PATTERN = /^[A-Za-z][A-Za-z0-9_-]{0,31}$/;
+
+/**
+ * Find the first problem with a distribution map, or null if it is valid
+ * Kept separate from the constraint so the error message can be precise
+ */
+export function findDistributionError(value: unknown, palette: Color[]): string | null {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return 'distributions must be an object mapping process IDs to arrays of colors';
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) {
+    return 'distributions must contain at least one process';
+  }
+  if (entries.length > MAX_PROCESSES) {
+    return `distributions must not contain more than ${MAX_PROCESSES} processes (got ${entries.length})`;
+  }
+
+  let totalBalls = 0;
+  for (const [key, stack] of entries) {
+    if (!PROCESS_KEY_PATTERN.test(key)) {
+      return `process key "${key}" must be a positive integer`;
+    }
+    if (!Array.isArray(stack)) {
+      return `distributions.${key} must be an array of colors`;
+    }
+    if (stack.length > MAX_BALLS_PER_PROCESS) {
+      return `distributions.${key} must not contain more than ${MAX_BALLS_PER_PROCESS} balls (got ${stack.length})`;
+    }
+
+    for (let index = 0; index < stack.length; index++) {
+      const ball = stack[index];
+      if (typeof ball !== 'string') {
+        return `distributions.${key}[${index}] must be a color string`;
+      }
+      if (!palette.includes(ball)) {
+        return `distributions.${key}[${index}] has unknown color "${ball}" (allowed: ${palette.join(', ')})`;
+      }
+    }
+
+    totalBalls += stack.length;
+  }
+
+  if (totalBalls === 0) {
+    return 'distributions must contain at least one ball';
+  }
+  if (totalBalls > MAX_TOTAL_BALLS) {
+    return `distributions must not contain more than ${MAX_TOTAL_BALLS} balls in total (got ${totalBalls})`;
+  }
+
+  return null;
+}
+
+/**
+ * Find the first problem with a map of per-process stack bounds (capacities or target sizes), or null if it is valid
+ * Whether the bounds suit the distributions is checked by the engine
+ */
+export function findStackBoundError(value: unknown, name: string): string | null {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return `${name} must be an object mapping process IDs to ball counts`;
+  }
+
+  for (const [key, bound] of Object.entries(value as Record<string, unknown>)) {
+    if (!PROCESS_KEY_PATTERN.test(key)) {
+      return `${name} key "${key}" must be a positive integer`;
+    }
+    if (!Number.isInteger(bound) || (bound as number) < 0 || (bound as number) > MAX_BALLS_PER_PROCESS) {
+      return `${name}.${key} must be an integer between 0 and ${MAX_BALLS_PER_PROCESS}`;
+    }
+  }
+  return null;
+}
+
+@ValidatorConstraint({ name: 'isStackBoundMap' })
+export class IsStackBoundMapConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown, args: ValidationArguments): boolean {
+    return findStackBoundError(value, args.property) === null;
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    return findStackBoundError(args.value, args.property) || `${args.property} is invalid`;
+  }
+}
+
+/**
+ * Optional capacities and target sizes, keyed by process ID like the distributions they bound
+ */
+export class StackLimitsDto {
+  @ApiPropertyOptional({
+    description: 'Most balls each listed process may hold at any time; a full process accepts a ball only by swapping one it does not want',
+    type: 'object',
+    additionalProperties: { type: 'integer' },
+    example: { 1: 10, 2: 10, 3: 10 },
+  })
+  @IsOptional()
+  @Validate(IsStackBoundMapConstraint)
+  capacities?: Record<string, number>;
+
+  @ApiPropertyOptional({
+    description: 'Balls each listed process must hold when finished',
+    type: 'object',
+    additionalProperties: { type: 'integer' },
+    example: { 1: 10, 2: 10, 3: 10 },
+  })
+  @IsOptional()
+  @Validate(IsStackBoundMapConstraint)
+  targetSizes?: Record<string, number>;
+}
+
+/**
+ * Validates a process-ID-to-stack map against the declared (or default) palette
+ */
+@ValidatorConstraint({ name: 'isDistributionMap' })
+export class IsDistributionMapConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown, args: ValidationArguments): boolean {
+    return findDistributionError(value, this.getPalette(args)) === null;
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    return findDistributionError(args.value, this.getPalette(args)) || 'distributions is invalid';
+  }
+
+  private getPalette(args: ValidationArguments): Color[] {
+    const colors = (args.object as ResetConsensusDto).colors;
+    return Array.isArray(colors) && colors.length > 0 ? colors : DEFAULT_PALETTE;
+  }
+}
+
+/**
+ * Request body for POST /consensus/reset
+ * Omitting the body restores the built-in distributions
+ */
+export class ResetConsensusDto extends StackLimitsDto {
+  @ApiPropertyOptional({
+    description: 'Initial ball stacks keyed by positive integer process ID',
+    type: 'object',
+    additionalProperties: { type: 'array', items: { type: 'string' } },
+    example: { 1: ['R', 'R', 'G', 'B'], 2: ['G', 'G', 'R', 'G'], 3: ['B', 'B', 'R', 'G'] },
+  })
+  @ValidateIf((dto: ResetConsensusDto) => [dto.distributions, dto.colors, dto.capacities, dto.targetSizes].some(v => v !== undefined))
+  @IsDefined({
+    message: ({ object }) => `distributions is required when ${
+      (['colors', 'capacities', 'targetSizes'] as const).filter(key => (object as ResetConsensusDto)[key] !== undefined).join(', ')
+    } is provided`
+  })
+  @Validate(IsDistributionMapConstraint)
+  distributions?: Record<string, Color[]>;
+
+  @ApiPropertyOptional({
+    description: `Color palette in priority order; balls must use these colors. Defaults to ${DEFAULT_PALETTE.join(', ')}`,
+    type: [String],
+    example: DEFAULT_PALETTE,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_COLORS)
+  @ArrayUnique()
+  @IsString({ each: true })
+  @Matches(COLOR_PATTERN, { each: true, message: 'each color must start with a letter and contain only letters, digits, "_" or "-" (max 32 chars)' })
+  colors?: Color[];
+}
@@ -0,0 +1,170 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsOptional, IsIn, IsInt, IsNumber, IsBoolean, IsObject, Min, Max, ValidateIf, ValidateNested } from 'class-validator';
+import { SCHEDULER_TYPES, ADVERSARIAL_POLICIES, SchedulerType, AdversarialPolicy } from '../schedulers';
+import { WANTED_COLOR_STRATEGIES, WantedColorStrategyName, PARTNER_SELECTION_STRATEGIES, PartnerSelectionStrategyName } from '../strategies';
+import { KNOWLEDGE_MODES, KnowledgeMode } from '../knowledge';
+import { RUNTIME_MODES, RuntimeMode } from '../actors';
+import { TOPOLOGY_TYPES, TopologyType } from '../topology';
+import { ProcessId } from '../types';
+import { FaultConfigDto } from './fault-config.dto';
+
+export const MAX_STEP_DELAY_MS = 5000;
+
+/**
+ * Message delivery policy for a run
+ */
+export class SchedulerConfigDto {
+  @ApiProperty({ enum: SCHEDULER_TYPES, example: 'random' })
+  @IsIn(SCHEDULER_TYPES)
+  type: SchedulerType;
+
+  @ApiPropertyOptional({ description: 'PRNG seed; required for the random scheduler', example: 42 })
+  @ValidateIf((dto: SchedulerConfigDto) => dto.type === 'random' || dto.seed !== undefined)
+  @IsInt()
+  seed?: number;
+
+  @ApiPropertyOptional({ enum: ADVERSARIAL_POLICIES, description: 'Required for the adversarial scheduler' })
+  @ValidateIf((dto: SchedulerConfigDto) => dto.type === 'adversarial' || dto.policy !== undefined)
+  @IsIn(ADVERSARIAL_POLICIES)
+  policy?: AdversarialPolicy;
+
+  @ApiPropertyOptional({ description: 'Process whose incoming messages are withheld; required for the starve-process policy', example: 1 })
+  @ValidateIf((dto: SchedulerConfigDto) => dto.policy === 'starve-process' || dto.targetProcess !== undefined)
+  @IsInt()
+  @Min(1)
+  targetProcess?: ProcessId;
+}
+
+/**
+ * Partner score weights; omitted weights keep their defaults
+ */
+export class ScoringWeightsDto {
+  @ApiPropertyOptional({ description: 'Per ball of our wanted color the candidate holds', default: 3 })
+  @IsOptional()
+  @IsNumber({ allowNaN: false, allowInfinity: false })
+  wantedBall?: number;
+
+  @ApiPropertyOptional({ description: 'Subtracted when the candidate wants the same color', default: 20 })
+  @IsOptional()
+  @IsNumber({ allowNaN: false, allowInfinity: false })
+  conflictPenalty?: number;
+
+  @ApiPropertyOptional({ description: 'Per ball we hold that the candidate wants and we do not', default: 2 })
+  @IsOptional()
+  @IsNumber({ allowNaN: false, allowInfinity: false })
+  mutualBall?: number;
+}
+
+/**
+ * How processes choose whom to ask for a ball
+ */
+export class PartnerSelectionConfigDto {
+  @ApiProperty({ enum: PARTNER_SELECTION_STRATEGIES, example: 'adaptive' })
+  @IsIn(PARTNER_SELECTION_STRATEGIES)
+  type: PartnerSelectionStrategyName;
+
+  @ApiPropertyOptional({ description: 'PRNG seed; required for the random strategy', example: 7 })
+  @ValidateIf((dto: PartnerSelectionConfigDto) => dto.type === 'random' || dto.seed !== undefined)
+  @IsInt()
+  seed?: number;
+
+  @ApiPropertyOptional({ type: ScoringWeightsDto, description: 'Score weights for the scoring and adaptive strategies' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScoringWeightsDto)
+  weights?: ScoringWeightsDto;
+}
+
+/**
+ * Who may talk to whom directly; the links of an adjacency list are checked against the processes by the engine
+ */
+export class TopologyConfigDto {
+  @ApiProperty({ enum: TOPOLOGY_TYPES, example: 'ring' })
+  @IsIn(TOPOLOGY_TYPES)
+  type: TopologyType;
+
+  @ApiPropertyOptional({ description: 'Hub of a star (default the lowest process ID)', example: 1 })
+  @ValidateIf((dto: TopologyConfigDto) => dto.center !== undefined)
+  @IsInt()
+  @Min(1)
+  center?: ProcessId;
+
+  @ApiPropertyOptional({ description: 'Columns of a grid (default the square root of the process count, rounded up)', example: 2 })
+  @ValidateIf((dto: TopologyConfigDto) => dto.columns !== undefined)
+  @IsInt()
+  @Min(1)
+  columns?: number;
+
+  @ApiPropertyOptional({
+    description: 'Neighbours per process; required for the adjacency type. A link listed on either side counts for both',
+    type: 'object',
+    additionalProperties: { type: 'array', items: { type: 'integer' } },
+    example: { 1: [2, 3], 2: [4] }
+  })
+  @ValidateIf((dto: TopologyConfigDto) => dto.type === 'adjacency' || dto.adjacency !== undefined)
+  @IsObject()
+  adjacency?: Record<ProcessId, ProcessId[]>;
+}
+
+/**
+ * Request body for POST /consensus/start
+ * Any option given replaces all current run options; an empty body keeps them (FIFO, reliable network unless configured)
+ */
+export class StartConsensusDto {
+  @ApiPropertyOptional({ type: SchedulerConfigDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SchedulerConfigDto)
+  scheduler?: SchedulerConfigDto;
+
+  @ApiPropertyOptional({ type: FaultConfigDto, description: 'Inject network faults; omit for reliable delivery' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FaultConfigDto)
+  faults?: FaultConfigDto;
+
+  @ApiPropertyOptional({ enum: WANTED_COLOR_STRATEGIES, description: 'How processes pick the color to collect', default: 'bottom-of-stack' })
+  @IsOptional()
+  @IsIn(WANTED_COLOR_STRATEGIES)
+  wantedColorStrategy?: WantedColorStrategyName;
+
+  @ApiPropertyOptional({ type: PartnerSelectionConfigDto, description: 'How processes pick partners (default scoring)' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PartnerSelectionConfigDto)
+  partnerSelection?: PartnerSelectionConfigDto;
+
+  @ApiPropertyOptional({ enum: KNOWLEDGE_MODES, description: 'What processes know about their peers: gossiped summaries, or their actual state', default: 'gossip' })
+  @IsOptional()
+  @IsIn(KNOWLEDGE_MODES)
+  knowledge?: KnowledgeMode;
+
+  @ApiPropertyOptional({ enum: RUNTIME_MODES, description: 'Where processes run: on the engine\'s event loop, or each isolated in a worker thread of its own (one at a time either way)', default: 'inline' })
+  @IsOptional()
+  @IsIn(RUNTIME_MODES)
+  runtime?: RuntimeMode;
+
+  @ApiPropertyOptional({ type: TopologyConfigDto, description: 'Who may talk to whom directly; messages to others are relayed (default complete)' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TopologyConfigDto)
+  topology?: TopologyConfigDto;
+
+  @ApiPropertyOptional({ description: 'End the run as failed on the first invariant violation', default: false })
+  @IsOptional()
+  @IsBoolean()
+  failOnInvariantViolation?: boolean;
+
+  @ApiPropertyOptional({ description: 'Attach vector clocks to messages and trace events (Lamport clocks are always attached)', default: false })
+  @IsOptional()
+  @IsBoolean()
+  vectorClocks?: boolean;
+
+  @ApiPropertyOptional({ description: 'Pause between deliveries in milliseconds; 0 runs as fast as possible', default: 10, example: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_STEP_DELAY_MS)
+  stepDelayMs?: number;
+}
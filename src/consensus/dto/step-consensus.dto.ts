@@ -0,0 +1,23 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsInt, Min, Max } from 'class-validator';
+import { StartConsensusDto } from './start-consensus.dto';
+
+export const MAX_STEPS_PER_CALL = 1000;
+
+/**
+ * Request body for POST /consensus/step
+ * A scheduler, when given, is installed before stepping
+ */
+export class StepConsensusDto extends StartConsensusDto {
+  @ApiPropertyOptional({
+    description: 'Number of units to execute; each delivers one message or triggers new requests when the queue is empty',
+    minimum: 1,
+    maximum: MAX_STEPS_PER_CALL,
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_STEPS_PER_CALL)
+  count?: number;
+}
@@ -0,0 +1,42 @@
+import { InvariantViolation } from './invariants';
+
+/**
+ * Raised when a command is not valid in the engine's current run state,
+ * e.g. starting twice, resuming a run that is not paused or resetting mid-run
+ */
+export class ConsensusStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConsensusStateError';
+  }
+}
+
+/**
+ * Raised when a command refers to processes, colors or messages the current system does not have
+ */
+export class ConsensusInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConsensusInputError';
+  }
+}
+
+/**
+ * Raised inside a run configured to fail on the first invariant violation
+ */
+export class InvariantViolationError extends Error {
+  constructor(readonly violation: InvariantViolation) {
+    super(`Invariant ${violation.invariant} violated: ${violation.message}`);
+    this.name = 'InvariantViolationError';
+  }
+}
+
+/**
+ * Raised during replay when the recorded delivery order can no longer be followed
+ */
+export class ReplayDivergenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayDivergenceError';
+  }
+}
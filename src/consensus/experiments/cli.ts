@@ -0,0 +1,145 @@
+import 'reflect-metadata';
+import { readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { NestFactory } from '@nestjs/core';
+import { ConsensusModule } from '../consensus.module';
+import { SchedulerType } from '../schedulers';
+import { WANTED_COLOR_STRATEGIES, WantedColorStrategyName, PARTNER_SELECTION_STRATEGIES, PartnerSelectionStrategyName } from '../strategies';
+import { KNOWLEDGE_MODES, KnowledgeMode } from '../knowledge';
+import { RUNTIME_MODES, RuntimeMode } from '../actors';
+import { TOPOLOGY_TYPES, TopologyType } from '../topology';
+import { ExperimentRunnerService } from './experiment-runner.service';
+import { ExperimentConfig, DEFAULT_GENERATOR, toCsv } from './experiment';
+
+const USAGE = `Usage: npm run experiments -- [options]
+
+  --runs <n>               number of runs (default 100)
+  --seed <n>               base seed; run i uses seed + i (default 1)
+  --processes <n>          generated processes per run (default ${DEFAULT_GENERATOR.processes})
+  --balls <n>              generated balls per process (default ${DEFAULT_GENERATOR.ballsPerProcess})
+  --colors <n>             generated colors (default ${DEFAULT_GENERATOR.colors})
+  --scheduler <type>       fifo, lifo or random (default fifo)
+  --wanted-color <name>    ${WANTED_COLOR_STRATEGIES.join(', ')} (default bottom-of-stack)
+  --partner <name>         ${PARTNER_SELECTION_STRATEGIES.join(', ')} (default scoring; weights via --config)
+  --knowledge <mode>       ${KNOWLEDGE_MODES.join(', ')} (default gossip)
+  --runtime <mode>         ${RUNTIME_MODES.join(', ')} (default CONSENSUS_RUNTIME, then inline)
+  --topology <type>        ${TOPOLOGY_TYPES.filter(type => type !== 'adjacency').join(', ')} (default complete; adjacency lists via --config)
+  --distributions <file>   JSON array of scenarios to cycle through instead of generating them
+  --config <file>          JSON experiment configuration (as for POST /consensus/experiments); flags override it
+  --format <json|csv>      output format (default csv)
+  --out <file>             write results to a file instead of stdout
+`;
+
+/**
+ * Headless batch runner: npm run experiments -- --runs 1000 --scheduler random --out results.csv
+ * The summary goes to stderr so stdout can be piped
+ */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      runs: { type: 'string' },
+      seed: { type: 'string' },
+      processes: { type: 'string' },
+      balls: { type: 'string' },
+      colors: { type: 'string' },
+      scheduler: { type: 'string' },
+      'wanted-color': { type: 'string' },
+      partner: { type: 'string' },
+      knowledge: { type: 'string' },
+      runtime: { type: 'string' },
+      topology: { type: 'string' },
+      distributions: { type: 'string' },
+      config: { type: 'string' },
+      format: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean' }
+    }
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const config: ExperimentConfig = values.config ? JSON.parse(readFileSync(values.config, 'utf8')) : { runs: 100 };
+  if (values.runs) config.runs = toInteger('runs', values.runs);
+  if (values.seed) config.seed = toInteger('seed', values.seed);
+  if (values.distributions) config.distributions = JSON.parse(readFileSync(values.distributions, 'utf8'));
+  if (values.processes || values.balls || values.colors) {
+    const generator = config.generator ?? DEFAULT_GENERATOR;
+    config.generator = {
+      processes: values.processes ? toInteger('processes', values.processes) : generator.processes,
+      ballsPerProcess: values.balls ? toInteger('balls', values.balls) : generator.ballsPerProcess,
+      colors: values.colors ? toInteger('colors', values.colors) : generator.colors
+    };
+  }
+  if (values.scheduler) {
+    if (!['fifo', 'lifo', 'random'].includes(values.scheduler)) {
+      throw new Error('--scheduler must be fifo, lifo or random (use --config for adversarial schedulers)');
+    }
+    const type = values.scheduler as SchedulerType;
+    config.scheduler = type === 'random' ? { type, seed: config.seed ?? 1 } : { type };
+  }
+  if (values['wanted-color']) {
+    config.wantedColorStrategy = values['wanted-color'] as WantedColorStrategyName;
+  }
+  if (values.partner) {
+    const type = values.partner as PartnerSelectionStrategyName;
+    config.partnerSelection = type === 'random' ? { type, seed: config.seed ?? 1 } : { ...config.partnerSelection, type };
+  }
+  if (values.knowledge) {
+    config.knowledge = values.knowledge as KnowledgeMode;
+  }
+  if (values.runtime) {
+    config.runtime = values.runtime as RuntimeMode;
+  }
+  if (values.topology) {
+    config.topology = { type: values.topology as TopologyType };
+  }
+
+  const format = values.format ?? 'csv';
+  if (format !== 'csv' && format !== 'json') {
+    throw new Error('--format must be csv or json');
+  }
+
+  // The engine narrates every decision (and each invariant violation) on the console; the results already
+  // carry the counts, so keep stdout and stderr for the results and the summary
+  console.log = () => undefined;
+  console.warn = () => undefined;
+  console.error = () => undefined;
+
+  const app = await NestFactory.createApplicationContext(ConsensusModule, { logger: ['error'] });
+  try {
+    const report = await app.get(ExperimentRunnerService).run(config);
+    const output = format === 'csv' ? toCsv(report.runs) : JSON.stringify(report, null, 2) + '\n';
+
+    if (values.out) {
+      writeFileSync(values.out, output);
+    } else {
+      process.stdout.write(output);
+    }
+
+    const { summary } = report;
+    process.stderr.write(
+      `${summary.runs} runs: ${summary.completed} completed, ${summary.failed} failed, ${summary.converged} converged (Φ = 0)\n` +
+      `termination: ${summary.detected} detected, ${summary.forcedStagnation} forced by stagnation, ${summary.forcedIterationLimit} forced by the iteration limit\n` +
+      `exchanges mean ${summary.exchanges.mean} (p95 ${summary.exchanges.p95}), iterations mean ${summary.iterations.mean} (p95 ${summary.iterations.p95}), ` +
+      `wall time mean ${summary.wallTimeMs.mean} ms\n`
+    );
+  } finally {
+    await app.close();
+  }
+}
+
+function toInteger(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`--${name} must be an integer`);
+  }
+  return parsed;
+}
+
+main().catch(error => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+  process.exit(1);
+});
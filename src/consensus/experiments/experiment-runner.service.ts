@@ -0,0 +1,91 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { performance } from 'perf_hooks';
+import { BaseConsensusService } from '../base-consensus.service';
+import {
+  ExperimentConfig,
+  ExperimentReport,
+  ExperimentRunResult,
+  DEFAULT_GENERATOR,
+  GENERATED_PALETTE,
+  validateExperimentConfig,
+  generateDistributions,
+  runOptionsFor,
+  summarizeRuns
+} from './experiment';
+
+/**
+ * Executes batches of headless runs on a private engine and aggregates their statistics
+ * Runs share nothing with the sessions, and deliveries are not throttled
+ */
+@Injectable()
+export class ExperimentRunnerService {
+  private readonly logger = new Logger(ExperimentRunnerService.name);
+
+  constructor(private readonly moduleRef: ModuleRef) {}
+
+  async run(config: ExperimentConfig): Promise<ExperimentReport> {
+    validateExperimentConfig(config);
+
+    const engine = await this.moduleRef.create(BaseConsensusService);
+    const baseSeed = config.seed ?? 1;
+    const runs: ExperimentRunResult[] = [];
+
+    this.logger.log(`Running experiment with ${config.runs} run(s)`);
+    try {
+      for (let index = 0; index < config.runs; index++) {
+        runs.push(await this.executeRun(engine, config, index, baseSeed + index));
+      }
+    } finally {
+      engine.dispose();
+    }
+
+    const summary = summarizeRuns(runs);
+    this.logger.log(`Experiment finished: ${summary.converged}/${summary.runs} converged, ${summary.failed} failed`);
+    return { config, summary, runs };
+  }
+
+  private async executeRun(engine: BaseConsensusService, config: ExperimentConfig, index: number, seed: number): Promise<ExperimentRunResult> {
+    if (config.distributions) {
+      const distributions = config.distributions[index % config.distributions.length];
+      if (config.palette) {
+        engine.reset(distributions, config.palette);
+      } else {
+        engine.reset(distributions);
+      }
+    } else {
+      const generator = config.generator ?? DEFAULT_GENERATOR;
+      engine.reset(generateDistributions(generator, seed), GENERATED_PALETTE.slice(0, generator.colors));
+    }
+
+    const state = engine.getSystemState();
+    const started = performance.now();
+    try {
+      await engine.startConsensus(runOptionsFor(config, index));
+    } catch {
+      // Recorded as a failed run
+    }
+    const wallTimeMs = Math.round((performance.now() - started) * 1000) / 1000;
+
+    const run = engine.getRunInfo();
+    const { REQUEST, SEND, DONE, INFO, TOKEN } = run.messagesDelivered;
+    return {
+      run: index,
+      seed,
+      processes: state.processes.length,
+      balls: state.processes.reduce((sum, p) => sum + p.stack.length, 0),
+      status: run.status,
+      error: run.error,
+      wantedColorStrategy: run.wantedColorStrategy,
+      partnerSelection: run.partnerSelection,
+      knowledge: run.knowledge,
+      exchanges: engine.getSystemState().totalExchanges,
+      iterations: run.iterations,
+      messages: { REQUEST, SEND, DONE, INFO, TOKEN, total: REQUEST + SEND + DONE + INFO },
+      finalPotential: engine.calculatePotentialFunction(),
+      termination: run.termination,
+      invariantViolations: run.invariantViolations,
+      wallTimeMs
+    };
+  }
+}
@@ -0,0 +1,241 @@
+import { Color, MessageType, ProcessId, RunOptions, RunStatus } from '../types';
+import { TerminationKind } from '../termination';
+import { WantedColorStrategyName, PartnerSelectionConfig, createWantedColorStrategy, createPartnerSelectionStrategy } from '../strategies';
+import { SchedulerConfig } from '../schedulers';
+import { FaultConfig } from '../faults';
+import { KnowledgeMode, resolveKnowledgeMode } from '../knowledge';
+import { RuntimeMode, resolveRuntimeMode } from '../actors';
+import { TopologyConfig, createTopology } from '../topology';
+import { ConsensusInputError } from '../errors';
+import { SeededRandom } from '../utils/seeded-random';
+import { findDistributionError, DEFAULT_PALETTE, MAX_PROCESSES, MAX_BALLS_PER_PROCESS, MAX_TOTAL_BALLS } from '../dto/reset-consensus.dto';
+
+export const GENERATED_PALETTE: Color[] = ['R', 'G', 'B', 'Y', 'C', 'M', 'K', 'W'];
+
+export interface DistributionGenerator {
+  processes: number;
+  ballsPerProcess: number;
+  colors: number;               // taken from GENERATED_PALETTE in order
+}
+
+export const DEFAULT_GENERATOR: DistributionGenerator = { processes: 3, ballsPerProcess: 10, colors: 3 };
+
+/**
+ * A batch of headless runs
+ * Run i uses seed `seed + i` for its generated distribution and for any seeded scheduler, fault layer or partner strategy,
+ * so an experiment is reproducible from its configuration alone
+ */
+export interface ExperimentConfig {
+  runs: number;
+  seed?: number;                                      // default 1
+  distributions?: Record<ProcessId, Color[]>[];       // supplied scenarios, cycled through; otherwise generated
+  palette?: Color[];                                  // palette for supplied scenarios (default R, G, B)
+  generator?: DistributionGenerator;
+  scheduler?: SchedulerConfig;
+  faults?: FaultConfig;
+  wantedColorStrategy?: WantedColorStrategyName;
+  partnerSelection?: PartnerSelectionConfig;
+  knowledge?: KnowledgeMode;
+  runtime?: RuntimeMode;                              // where processes run; outcomes do not depend on it
+  topology?: TopologyConfig;
+  failOnInvariantViolation?: boolean;
+}
+
+export interface ExperimentRunResult {
+  run: number;
+  seed: number;
+  processes: number;
+  balls: number;
+  status: RunStatus;
+  error: string | null;
+  wantedColorStrategy: WantedColorStrategyName;
+  partnerSelection: string;
+  knowledge: KnowledgeMode;
+  exchanges: number;
+  iterations: number;
+  messages: Record<MessageType, number> & { total: number };   // total counts protocol messages, not TOKENs
+  finalPotential: number;
+  termination: TerminationKind | null;
+  invariantViolations: number;
+  wallTimeMs: number;
+}
+
+export interface MetricSummary {
+  mean: number;
+  stdDev: number;
+  min: number;
+  median: number;
+  p95: number;
+  max: number;
+}
+
+export interface ExperimentSummary {
+  runs: number;
+  completed: number;
+  failed: number;
+  converged: number;              // ended with Φ = 0
+  detected: number;               // termination announced by the detection protocol
+  forcedStagnation: number;
+  forcedIterationLimit: number;
+  exchanges: MetricSummary;
+  iterations: MetricSummary;
+  messages: MetricSummary;
+  finalPotential: MetricSummary;
+  wallTimeMs: MetricSummary;
+}
+
+export interface ExperimentReport {
+  config: ExperimentConfig;
+  summary: ExperimentSummary;
+  runs: ExperimentRunResult[];
+}
+
+/**
+ * Reject configurations the runner cannot execute, with the same messages the reset endpoint uses for distributions
+ */
+export function validateExperimentConfig(config: ExperimentConfig): void {
+  if (!Number.isInteger(config.runs) || config.runs < 1) {
+    throw new ConsensusInputError('runs must be a positive integer');
+  }
+  createWantedColorStrategy(config.wantedColorStrategy);
+  createPartnerSelectionStrategy(config.partnerSelection);
+  resolveKnowledgeMode(config.knowledge);
+  resolveRuntimeMode(config.runtime);
+
+  if (config.distributions) {
+    if (config.distributions.length === 0) {
+      throw new ConsensusInputError('distributions must contain at least one scenario');
+    }
+    config.distributions.forEach((distribution, index) => {
+      const error = findDistributionError(distribution, config.palette ?? DEFAULT_PALETTE);
+      if (error) {
+        throw new ConsensusInputError(`distributions[${index}]: ${error}`);
+      }
+      createTopology(config.topology, Object.keys(distribution).map(Number));
+    });
+    return;
+  }
+
+  const { processes, ballsPerProcess, colors } = config.generator ?? DEFAULT_GENERATOR;
+  if (!Number.isInteger(processes) || processes < 1 || processes > MAX_PROCESSES) {
+    throw new ConsensusInputError(`generator.processes must be between 1 and ${MAX_PROCESSES}`);
+  }
+  if (!Number.isInteger(ballsPerProcess) || ballsPerProcess < 1 || ballsPerProcess > MAX_BALLS_PER_PROCESS) {
+    throw new ConsensusInputError(`generator.ballsPerProcess must be between 1 and ${MAX_BALLS_PER_PROCESS}`);
+  }
+  if (processes * ballsPerProcess > MAX_TOTAL_BALLS) {
+    throw new ConsensusInputError(`generator must not produce more than ${MAX_TOTAL_BALLS} balls (got ${processes * ballsPerProcess})`);
+  }
+  if (!Number.isInteger(colors) || colors < 1 || colors > GENERATED_PALETTE.length) {
+    throw new ConsensusInputError(`generator.colors must be between 1 and ${GENERATED_PALETTE.length}`);
+  }
+  createTopology(config.topology, Array.from({ length: processes }, (_, i) => i + 1));
+}
+
+/**
+ * Random stacks of uniformly drawn colors, fully determined by the seed
+ */
+export function generateDistributions(generator: DistributionGenerator, seed: number): Record<ProcessId, Color[]> {
+  const random = new SeededRandom(seed);
+  const palette = GENERATED_PALETTE.slice(0, generator.colors);
+  const distributions: Record<ProcessId, Color[]> = {};
+
+  for (let id = 1; id <= generator.processes; id++) {
+    distributions[id] = Array.from({ length: generator.ballsPerProcess }, () => palette[random.nextInt(palette.length)]);
+  }
+  return distributions;
+}
+
+/**
+ * Run options for run `index`: seeded schedulers, fault layers and partner strategies get a per-run seed
+ */
+export function runOptionsFor(config: ExperimentConfig, index: number): RunOptions {
+  const options: RunOptions = { stepDelayMs: 0 };
+  if (config.scheduler) {
+    options.scheduler = config.scheduler.type === 'random'
+      ? { ...config.scheduler, seed: (config.scheduler.seed ?? 0) + index }
+      : { ...config.scheduler };
+  }
+  if (config.faults) {
+    options.faults = { ...config.faults, seed: (config.faults.seed ?? 0) + index };
+  }
+  if (config.wantedColorStrategy) {
+    options.wantedColorStrategy = config.wantedColorStrategy;
+  }
+  if (config.partnerSelection) {
+    options.partnerSelection = config.partnerSelection.type === 'random'
+      ? { ...config.partnerSelection, seed: (config.partnerSelection.seed ?? 0) + index }
+      : { ...config.partnerSelection };
+  }
+  if (config.knowledge) {
+    options.knowledge = config.knowledge;
+  }
+  if (config.runtime) {
+    options.runtime = config.runtime;
+  }
+  if (config.topology) {
+    options.topology = config.topology;
+  }
+  if (config.failOnInvariantViolation) {
+    options.failOnInvariantViolation = true;
+  }
+  return options;
+}
+
+export function summarizeRuns(runs: ExperimentRunResult[]): ExperimentSummary {
+  return {
+    runs: runs.length,
+    completed: runs.filter(r => r.status === 'completed').length,
+    failed: runs.filter(r => r.status === 'failed').length,
+    converged: runs.filter(r => r.status === 'completed' && r.finalPotential === 0).length,
+    detected: runs.filter(r => r.termination === 'detected').length,
+    forcedStagnation: runs.filter(r => r.termination === 'forced-stagnation').length,
+    forcedIterationLimit: runs.filter(r => r.termination === 'forced-iteration-limit').length,
+    exchanges: summarizeMetric(runs.map(r => r.exchanges)),
+    iterations: summarizeMetric(runs.map(r => r.iterations)),
+    messages: summarizeMetric(runs.map(r => r.messages.total)),
+    finalPotential: summarizeMetric(runs.map(r => r.finalPotential)),
+    wallTimeMs: summarizeMetric(runs.map(r => r.wallTimeMs))
+  };
+}
+
+export function summarizeMetric(values: number[]): MetricSummary {
+  if (values.length === 0) {
+    return { mean: 0, stdDev: 0, min: 0, median: 0, p95: 0, max: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length;
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+
+  return {
+    mean: round(mean),
+    stdDev: round(Math.sqrt(variance)),
+    min: sorted[0],
+    median: percentile(0.5),
+    p95: percentile(0.95),
+    max: sorted[sorted.length - 1]
+  };
+}
+
+const CSV_COLUMNS = [
+  'run', 'seed', 'processes', 'balls', 'status', 'wantedColorStrategy', 'partnerSelection', 'knowledge', 'exchanges', 'iterations',
+  'requests', 'sends', 'dones', 'infos', 'messages', 'tokens', 'finalPotential', 'termination', 'invariantViolations', 'wallTimeMs', 'error'
+];
+
+/**
+ * One line per run, headed by the column names
+ */
+export function toCsv(runs: ExperimentRunResult[]): string {
+  const rows = runs.map(r => [
+    r.run, r.seed, r.processes, r.balls, r.status, r.wantedColorStrategy, csvField(r.partnerSelection), r.knowledge, r.exchanges,
+    r.iterations, r.messages.REQUEST, r.messages.SEND, r.messages.DONE, r.messages.INFO, r.messages.total, r.messages.TOKEN,
+    r.finalPotential, r.termination ?? '', r.invariantViolations, r.wallTimeMs, csvField(r.error ?? '')
+  ].join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
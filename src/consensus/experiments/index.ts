@@ -0,0 +1,17 @@
+export {
+  ExperimentConfig,
+  ExperimentReport,
+  ExperimentRunResult,
+  ExperimentSummary,
+  MetricSummary,
+  DistributionGenerator,
+  DEFAULT_GENERATOR,
+  GENERATED_PALETTE,
+  validateExperimentConfig,
+  generateDistributions,
+  runOptionsFor,
+  summarizeRuns,
+  summarizeMetric,
+  toCsv
+} from './experiment';
+export { ExperimentRunnerService } from './experiment-runner.service';
@@ -0,0 +1,305 @@
+import { BasicMessageType, Color, Message } from '../types';
+import { SeededRandom } from '../utils/seeded-random';
+
+export const MESSAGE_TYPES: BasicMessageType[] = ['REQUEST', 'SEND', 'DONE', 'INFO'];
+export const FAULT_KINDS = ['drop', 'duplicate', 'delay', 'reorder'] as const;
+
+export type FaultKind = typeof FAULT_KINDS[number];
+
+/**
+ * Independent per-message probabilities (0..1) of each fault
+ */
+export type FaultProbabilities = Partial<Record<FaultKind, number>>;
+
+/**
+ * Unreliable network configuration for a run
+ */
+export interface FaultConfig {
+  seed?: number;
+  probabilities?: Partial<Record<BasicMessageType, FaultProbabilities>>;
+  maxDelayTicks?: number;         // delayed messages are held for 1..maxDelayTicks deliveries
+  requestTimeoutTicks?: number;   // undelivered REQUESTs are retransmitted after this many deliveries
+  maxRetries?: number;            // retransmissions per REQUEST before the sender gives up
+}
+
+export interface FaultStats {
+  injected: Record<FaultKind, Record<BasicMessageType, number>>;
+  retransmissions: number;
+  abandonedRequests: number;
+  heldMessages: number;
+}
+
+export const DEFAULT_MAX_DELAY_TICKS = 5;
+export const DEFAULT_REQUEST_TIMEOUT_TICKS = 20;
+export const DEFAULT_MAX_RETRIES = 3;
+
+interface HeldMessage {
+  message: Message;
+  releaseAt: number;
+}
+
+interface PendingRequest {
+  copies: Set<Message>;     // the REQUEST, its duplicates and retransmissions
+  replies: Set<Message>;    // the SEND answering a delivered copy, and its duplicates
+  deadline: number;
+  retries: number;
+}
+
+/**
+ * Copies of one message (by ID) the network still carries, queued or held, and whether any has arrived
+ */
+interface WireRecord {
+  message: Message;
+  copies: number;
+  arrived: boolean;
+}
+
+/**
+ * Unreliable link between the message handlers and the delivery queue
+ * Every transmitted message may be dropped, duplicated, held back for a few
+ * deliveries or inserted out of order; REQUESTs whose ball does not arrive in time
+ * are retransmitted. All randomness comes from the seed, so faulty runs replay exactly
+ * A message whose every copy was lost is reported to `onLost`, so message counts can forget it
+ * Termination-detection TOKENs travel a reliable control channel and are never faulted
+ */
+export class FaultInjector {
+  private readonly random: SeededRandom;
+  private readonly maxDelayTicks: number;
+  private readonly requestTimeoutTicks: number;
+  private readonly maxRetries: number;
+
+  private clock = 0;
+  private held: HeldMessage[] = [];
+  private pending: PendingRequest[] = [];
+  private readonly wire = new Map<number, WireRecord>();
+  private stats: FaultStats = FaultInjector.createStats();
+  private ballAdjustments: Record<Color, number> = {};
+
+  constructor(private readonly config: FaultConfig, private readonly onLost: (message: Message) => void = () => undefined) {
+    this.random = new SeededRandom(config.seed ?? 0);
+    this.maxDelayTicks = config.maxDelayTicks ?? DEFAULT_MAX_DELAY_TICKS;
+    this.requestTimeoutTicks = config.requestTimeoutTicks ?? DEFAULT_REQUEST_TIMEOUT_TICKS;
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  /**
+   * Put a freshly sent message on the wire
+   */
+  transmit(message: Message, queue: Message[]): void {
+    if (message.type === 'TOKEN') {
+      queue.push(message);
+      return;
+    }
+    if (message.type === 'REQUEST') {
+      this.pending.push({ copies: new Set([message]), replies: new Set(), deadline: this.clock + this.requestTimeoutTicks, retries: 0 });
+    }
+    this.inject(message, queue);
+  }
+
+  /**
+   * Advance the network by one delivery: release held messages that are due and retransmit timed-out REQUESTs
+   * When nothing else is in transit the next held message is released early, so delays never stall the run
+   */
+  tick(queue: Message[]): void {
+    this.clock++;
+
+    for (const request of [...this.pending]) {
+      if (request.deadline > this.clock) continue;
+      if (this.replyInFlight(request)) {
+        request.deadline = this.clock + this.requestTimeoutTicks; // the ball is on its way; only its loss calls for a retry
+        continue;
+      }
+
+      if (request.retries >= this.maxRetries) {
+        this.pending.splice(this.pending.indexOf(request), 1);
+        this.stats.abandonedRequests++;
+        this.settle(request);
+        continue;
+      }
+
+      const [original] = request.copies;
+      const copy: Message = { ...original, timestamp: Date.now() };
+      request.copies.add(copy);
+      request.retries++;
+      request.deadline = this.clock + this.requestTimeoutTicks;
+      this.stats.retransmissions++;
+      this.inject(copy, queue);
+    }
+
+    const due = this.held.filter(entry => entry.releaseAt <= this.clock);
+    this.held = this.held.filter(entry => entry.releaseAt > this.clock);
+    if (due.length === 0 && queue.length === 0 && this.held.length > 0) {
+      due.push(this.held.shift()!);
+    }
+    for (const entry of due) {
+      queue.push(entry.message);
+    }
+  }
+
+  /**
+   * A copy reached its recipient; a SEND answering a REQUEST acknowledges that REQUEST
+   */
+  delivered(message: Message): void {
+    const record = message.id !== undefined ? this.wire.get(message.id) : undefined;
+    if (record) {
+      record.copies--;
+      record.arrived = true;
+      this.settleMessage(record.message);
+    }
+    if (message.type !== 'SEND') return;
+
+    for (const request of this.pending.filter(r => r.replies.has(message))) {
+      this.pending.splice(this.pending.indexOf(request), 1);
+      this.settle(request);
+    }
+  }
+
+  /**
+   * What the recipient of a delivered REQUEST sent: the ball it asked for is awaited (and the REQUEST
+   * retransmitted if that is lost); a REQUEST that was refused or passed on needs nothing more
+   */
+  answered(request: Message, sent: readonly Message[]): void {
+    const pending = this.pending.find(r => r.copies.has(request));
+    if (!pending) return;
+
+    const reply = sent.find(m => m.type === 'SEND' && !m.handback && m.from === request.to
+      && m.to === (request.origin ?? request.from) && m.color === request.color);
+    if (reply) {
+      pending.replies.add(reply);
+      pending.deadline = this.clock + this.requestTimeoutTicks;
+    } else if (pending.replies.size === 0) {
+      this.pending.splice(this.pending.indexOf(pending), 1);
+      this.settle(pending);
+    }
+  }
+
+  hasHeldMessages(): boolean {
+    return this.held.length > 0;
+  }
+
+  /**
+   * Messages still held back by the network (not yet visible in the queue)
+   */
+  getHeldMessages(): Message[] {
+    return this.held.map(entry => entry.message);
+  }
+
+  getStats(): FaultStats {
+    return {
+      injected: Object.fromEntries(
+        FAULT_KINDS.map(kind => [kind, { ...this.stats.injected[kind] }])
+      ) as FaultStats['injected'],
+      retransmissions: this.stats.retransmissions,
+      abandonedRequests: this.stats.abandonedRequests,
+      heldMessages: this.held.length
+    };
+  }
+
+  /**
+   * Balls the network destroyed (dropped SENDs, negative) or created (duplicated SENDs, positive), per color
+   */
+  getBallAdjustments(): Record<Color, number> {
+    return { ...this.ballAdjustments };
+  }
+
+  getConfig(): FaultConfig {
+    return this.config;
+  }
+
+  static createStats(): FaultStats {
+    const perType = () => ({ REQUEST: 0, SEND: 0, DONE: 0, INFO: 0 });
+    return {
+      injected: { drop: perType(), duplicate: perType(), delay: perType(), reorder: perType() },
+      retransmissions: 0,
+      abandonedRequests: 0,
+      heldMessages: 0
+    };
+  }
+
+  private inject(message: Message, queue: Message[]): void {
+    if (this.roll(message, 'drop')) {
+      this.adjustBalls(message, -1);
+      if (message.id !== undefined && !this.wire.has(message.id)) {
+        this.wire.set(message.id, { message, copies: 0, arrived: false });
+      }
+      this.settleMessage(message);
+      return;
+    }
+
+    const copies = [message];
+    if (this.roll(message, 'duplicate')) {
+      const duplicate = { ...message };
+      copies.push(duplicate);
+      this.adjustBalls(message, 1);
+      for (const request of this.pending) {
+        if (request.copies.has(message)) request.copies.add(duplicate);
+        if (request.replies.has(message)) request.replies.add(duplicate);
+      }
+    }
+
+    for (const copy of copies) {
+      this.putOnWire(copy);
+      if (this.roll(message, 'delay')) {
+        this.held.push({ message: copy, releaseAt: this.clock + 1 + this.random.nextInt(this.maxDelayTicks) });
+      } else if (this.roll(message, 'reorder')) {
+        queue.splice(this.random.nextInt(queue.length + 1), 0, copy);
+      } else {
+        queue.push(copy);
+      }
+    }
+  }
+
+  private putOnWire(copy: Message): void {
+    if (copy.id === undefined) return;
+    const record = this.wire.get(copy.id) ?? { message: copy, copies: 0, arrived: false };
+    record.copies++;
+    this.wire.set(copy.id, record);
+  }
+
+  private replyInFlight(request: PendingRequest): boolean {
+    return [...request.replies].some(reply => reply.id !== undefined && (this.wire.get(reply.id)?.copies ?? 0) > 0);
+  }
+
+  /**
+   * A REQUEST no longer pending, and the reply it awaited, may be gone for good
+   */
+  private settle(request: PendingRequest): void {
+    const [original] = request.copies;
+    this.settleMessage(original);
+    const [reply] = request.replies;
+    if (reply) this.settleMessage(reply);
+  }
+
+  /**
+   * Forget a message once no copy is left on the wire and none can be retransmitted;
+   * report it as lost if no copy ever arrived
+   */
+  private settleMessage(message: Message): void {
+    if (message.id === undefined) return;
+    const record = this.wire.get(message.id);
+    const retransmittable = this.pending.some(request => [...request.copies].some(copy => copy.id === message.id));
+    if (!record || record.copies > 0 || retransmittable) return;
+
+    this.wire.delete(message.id);
+    if (!record.arrived) {
+      this.onLost(record.message);
+    }
+  }
+
+  private adjustBalls(message: Message, delta: number): void {
+    if (message.type !== 'SEND' || !message.color) return;
+    this.ballAdjustments[message.color] = (this.ballAdjustments[message.color] || 0) + delta;
+  }
+
+  private roll(message: Message, kind: FaultKind): boolean {
+    const type = message.type as BasicMessageType;
+    const probability = this.config.probabilities?.[type]?.[kind] ?? 0;
+    if (probability <= 0) return false;
+
+    const hit = this.random.next() < probability;
+    if (hit) {
+      this.stats.injected[kind][type]++;
+    }
+    return hit;
+  }
+}
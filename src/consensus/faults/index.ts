@@ -0,0 +1,12 @@
+export {
+  FaultInjector,
+  FaultConfig,
+  FaultProbabilities,
+  FaultKind,
+  FaultStats,
+  FAULT_KINDS,
+  MESSAGE_TYPES,
+  DEFAULT_MAX_DELAY_TICKS,
+  DEFAULT_REQUEST_TIMEOUT_TICKS,
+  DEFAULT_MAX_RETRIES
+} from './fault-injector';
@@ -0,0 +1,13 @@
+export { StateDelta, diffStates, applyDelta, cloneState } from './state-delta';
+export {
+  RunHistory,
+  HistoryEntry,
+  HistoryConfig,
+  HistoryPage,
+  DEFAULT_HISTORY_RETENTION,
+  DEFAULT_KEYFRAME_INTERVAL,
+  DEFAULT_HISTORY_PAGE_SIZE,
+  MAX_HISTORY_PAGE_SIZE,
+  historyConfigFromEnv
+} from './run-history';
+export { RetentionBuffer } from './retention-buffer';
@@ -0,0 +1,61 @@
+/**
+ * Append-only list that keeps only the newest `limit` items
+ * Discarding the oldest item only moves a start offset; the backing array is compacted once
+ * the discarded items outnumber the retained ones, so every append costs amortized O(1)
+ */
+export class RetentionBuffer<T> {
+  private items: T[] = [];
+  private start = 0;        // Position in `items` of the oldest retained item
+  private dropped = 0;      // Items discarded since the buffer was created
+
+  constructor(private readonly limit: number) {}
+
+  /**
+   * Append an item; returns the item it pushed out of the window, if any
+   */
+  push(item: T): T | undefined {
+    this.items.push(item);
+    if (this.items.length - this.start <= this.limit) return undefined;
+
+    const discarded = this.items[this.start];
+    this.start++;
+    this.dropped++;
+    if (this.start >= this.items.length - this.start) {
+      this.items = this.items.slice(this.start);
+      this.start = 0;
+    }
+    return discarded;
+  }
+
+  /**
+   * Number of retained items
+   */
+  get length(): number {
+    return this.items.length - this.start;
+  }
+
+  /**
+   * Number of items discarded to stay within the limit
+   */
+  get discarded(): number {
+    return this.dropped;
+  }
+
+  /**
+   * The retained item at `offset`, counted from the oldest retained one
+   */
+  at(offset: number): T | undefined {
+    return offset >= 0 && offset < this.length ? this.items[this.start + offset] : undefined;
+  }
+
+  set(offset: number, item: T): void {
+    if (offset < 0 || offset >= this.length) {
+      throw new RangeError(`Offset ${offset} is outside the ${this.length} retained items`);
+    }
+    this.items[this.start + offset] = item;
+  }
+
+  toArray(): T[] {
+    return this.items.slice(this.start);
+  }
+}
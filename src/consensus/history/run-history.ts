@@ -0,0 +1,159 @@
+import { ConsensusInputError } from '../errors';
+import { SystemState } from '../types';
+import { StateDelta, diffStates, applyDelta, cloneState } from './state-delta';
+import { RetentionBuffer } from './retention-buffer';
+
+export const DEFAULT_HISTORY_RETENTION = 10000;
+export const DEFAULT_KEYFRAME_INTERVAL = 50;
+export const DEFAULT_HISTORY_PAGE_SIZE = 100;
+export const MAX_HISTORY_PAGE_SIZE = 1000;
+
+export type HistoryEntry =
+  | { kind: 'keyframe'; state: SystemState }
+  | { kind: 'delta'; delta: StateDelta };
+
+export interface HistoryConfig {
+  retentionLimit: number;       // snapshots kept; older ones are discarded
+  keyframeInterval: number;     // a full snapshot every this many, bounding reconstruction cost
+}
+
+/**
+ * A page of history: the first entry is always a keyframe, the rest apply one after another
+ */
+export interface HistoryPage {
+  from: number;
+  to: number;
+  total: number;
+  firstRetained: number;
+  keyframeInterval: number;
+  entries: HistoryEntry[];
+}
+
+/**
+ * Retention and keyframe interval from HISTORY_RETENTION_LIMIT and HISTORY_KEYFRAME_INTERVAL, if set
+ */
+export function historyConfigFromEnv(): HistoryConfig {
+  const retentionLimit = Number(process.env.HISTORY_RETENTION_LIMIT);
+  const keyframeInterval = Number(process.env.HISTORY_KEYFRAME_INTERVAL);
+  return {
+    retentionLimit: Number.isInteger(retentionLimit) && retentionLimit > 0 ? retentionLimit : DEFAULT_HISTORY_RETENTION,
+    keyframeInterval: Number.isInteger(keyframeInterval) && keyframeInterval > 0 ? keyframeInterval : DEFAULT_KEYFRAME_INTERVAL
+  };
+}
+
+/**
+ * Snapshot history stored as periodic keyframes with per-step deltas in between
+ * Indices are absolute since the last reset; once the retention limit is reached the oldest
+ * snapshots are dropped and the new first one is materialized as a keyframe
+ */
+export class RunHistory {
+  private readonly entries: RetentionBuffer<HistoryEntry>;
+  private firstState: SystemState | null = null; // Materialized state of the oldest retained entry
+  private lastState: SystemState | null = null;  // Materialized state of the newest entry, to diff against
+
+  constructor(private readonly config: HistoryConfig = historyConfigFromEnv()) {
+    this.entries = new RetentionBuffer(config.retentionLimit);
+  }
+
+  append(state: SystemState): void {
+    const index = this.length;
+    const delta = this.lastState && index % this.config.keyframeInterval !== 0 ? diffStates(this.lastState, state) : null;
+
+    const discarded = this.entries.push(delta ? { kind: 'delta', delta } : { kind: 'keyframe', state: cloneState(state) });
+    this.lastState = cloneState(state);
+    if (!this.firstState) {
+      this.firstState = cloneState(state);
+    }
+
+    if (discarded) {
+      // The new oldest entry may be a delta against the one just discarded: materialize it as a keyframe
+      const next = this.entries.at(0)!;
+      this.firstState = next.kind === 'keyframe' ? next.state : applyDelta(this.firstState, next.delta);
+      this.entries.set(0, { kind: 'keyframe', state: this.firstState });
+    }
+  }
+
+  /**
+   * Number of snapshots ever appended, including discarded ones
+   */
+  get length(): number {
+    return this.entries.discarded + this.entries.length;
+  }
+
+  get firstRetained(): number {
+    return this.entries.discarded;
+  }
+
+  getConfig(): HistoryConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Reconstructed snapshot at an absolute index, or null if it was discarded or does not exist yet
+   */
+  get(index: number): SystemState | null {
+    const offset = index - this.firstRetained;
+    if (!Number.isInteger(offset) || offset < 0 || offset >= this.entries.length) return null;
+
+    let keyframe = offset;
+    while (this.entries.at(keyframe)!.kind !== 'keyframe') {
+      keyframe--;
+    }
+    return this.replayFrom(keyframe, offset);
+  }
+
+  /**
+   * Snapshots [from, to), from the oldest retained one by default, cut to the maximum page size,
+   * with the first entry materialized as a keyframe
+   * Throws ConsensusInputError for a range that is reversed or reaches outside the retained snapshots
+   */
+  getPage(from = this.firstRetained, to?: number): HistoryPage {
+    if (to !== undefined && from > to) {
+      throw new ConsensusInputError(`History range start ${from} is after its end ${to}`);
+    }
+    if (from < this.firstRetained || from > this.length || (to !== undefined && to > this.length)) {
+      throw new ConsensusInputError(
+        `History range [${from}, ${to ?? from}) is outside the retained snapshots [${this.firstRetained}, ${this.length})`
+      );
+    }
+
+    const end = Math.min(to ?? from + DEFAULT_HISTORY_PAGE_SIZE, from + MAX_HISTORY_PAGE_SIZE, this.length);
+    const entries: HistoryEntry[] = [];
+    if (from < end) {
+      entries.push({ kind: 'keyframe', state: this.get(from)! });
+      for (let offset = from + 1 - this.firstRetained; offset < end - this.firstRetained; offset++) {
+        entries.push(this.entries.at(offset)!);
+      }
+    }
+
+    return {
+      from,
+      to: end,
+      total: this.length,
+      firstRetained: this.firstRetained,
+      keyframeInterval: this.config.keyframeInterval,
+      entries
+    };
+  }
+
+  /**
+   * Every retained snapshot, reconstructed in order
+   */
+  toArray(): SystemState[] {
+    const states: SystemState[] = [];
+    let state: SystemState | null = null;
+    for (const entry of this.entries.toArray()) {
+      state = entry.kind === 'keyframe' ? cloneState(entry.state) : applyDelta(state!, entry.delta);
+      states.push(state);
+    }
+    return states;
+  }
+
+  private replayFrom(keyframe: number, offset: number): SystemState {
+    let state = cloneState((this.entries.at(keyframe) as Extract<HistoryEntry, { kind: 'keyframe' }>).state);
+    for (let i = keyframe + 1; i <= offset; i++) {
+      state = applyDelta(state, (this.entries.at(i) as Extract<HistoryEntry, { kind: 'delta' }>).delta);
+    }
+    return state;
+  }
+}
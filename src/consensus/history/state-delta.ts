@@ -0,0 +1,105 @@
+import { Message, ProcessState, SystemState } from '../types';
+
+/**
+ * Difference between two consecutive snapshots of the same process set
+ * Only changed processes are stored; the queue change is the messages removed (by index in the
+ * previous queue) and inserted (by index in the new one)
+ */
+export interface StateDelta {
+  processes: ProcessState[];
+  messages: {
+    removed: number[];
+    inserted: Array<[number, Message]>;
+  };
+  isComplete: boolean;
+  totalExchanges: number;
+}
+
+/**
+ * Encode `next` relative to `previous`, or return null when the process set changed and a keyframe is needed
+ */
+export function diffStates(previous: SystemState, next: SystemState): StateDelta | null {
+  if (previous.processes.length !== next.processes.length
+    || previous.processes.some((p, index) => p.id !== next.processes[index].id)) {
+    return null;
+  }
+
+  const processes = next.processes.filter((p, index) => !sameProcess(previous.processes[index], p));
+  return {
+    processes: processes.map(cloneProcess),
+    messages: diffQueues(previous.messages, next.messages),
+    isComplete: next.isComplete,
+    totalExchanges: next.totalExchanges
+  };
+}
+
+/**
+ * Reconstruct the snapshot a delta was taken from; the input state is left untouched
+ */
+export function applyDelta(state: SystemState, delta: StateDelta): SystemState {
+  const changed = new Map(delta.processes.map(p => [p.id, p]));
+  const removed = new Set(delta.messages.removed);
+
+  const messages = state.messages.filter((_, index) => !removed.has(index));
+  for (const [index, message] of delta.messages.inserted) {
+    messages.splice(index, 0, message);
+  }
+
+  return {
+    processes: state.processes.map(p => cloneProcess(changed.get(p.id) ?? p)),
+    messages: messages.map(m => ({ ...m })),
+    isComplete: delta.isComplete,
+    totalExchanges: delta.totalExchanges
+  };
+}
+
+export function cloneState(state: SystemState): SystemState {
+  return {
+    processes: state.processes.map(cloneProcess),
+    messages: state.messages.map(m => ({ ...m })),
+    isComplete: state.isComplete,
+    totalExchanges: state.totalExchanges
+  };
+}
+
+/**
+ * Single pass over both queues: a message stays when it is next in both, is removed when it no longer
+ * appears later in the new queue, and is otherwise preceded by an insertion
+ * Between two snapshots the queue loses the delivered message and gains the ones sent, so this stays small
+ */
+function diffQueues(previous: Message[], next: Message[]): StateDelta['messages'] {
+  const previousKeys = previous.map(messageKey);
+  const nextKeys = next.map(messageKey);
+  const remaining = new Map<string, number>();
+  for (const key of nextKeys) {
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  }
+
+  const removed: number[] = [];
+  const inserted: Array<[number, Message]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < previous.length || j < next.length) {
+    if (i < previous.length && j < next.length && previousKeys[i] === nextKeys[j]) {
+      remaining.set(nextKeys[j], remaining.get(nextKeys[j])! - 1);
+      i++;
+      j++;
+    } else if (i < previous.length && !remaining.get(previousKeys[i])) {
+      removed.push(i++);
+    } else {
+      remaining.set(nextKeys[j], remaining.get(nextKeys[j])! - 1);
+      inserted.push([j, { ...next[j] }]);
+      j++;
+    }
+  }
+
+  return { removed, inserted };
+}
+
+const messageKey = (message: Message) => JSON.stringify(message);
+
+const sameProcess = (a: ProcessState, b: ProcessState) =>
+  a.wanted === b.wanted && a.partner === b.partner && a.isDone === b.isDone
+  && a.stack.length === b.stack.length && a.stack.every((ball, index) => ball === b.stack[index]);
+
+const cloneProcess = (process: ProcessState): ProcessState => ({ ...process, stack: [...process.stack] });
@@ -0,0 +1,15 @@
+export {
+  INVARIANTS,
+  LOCAL_INVARIANTS,
+  Invariant,
+  InvariantContext,
+  InvariantFailure,
+  InvariantName,
+  countBalls
+} from './invariants';
+export {
+  InvariantChecker,
+  InvariantViolation,
+  InvariantReport,
+  MAX_RECORDED_VIOLATIONS
+} from './invariant-checker';
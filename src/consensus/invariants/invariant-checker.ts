@@ -0,0 +1,81 @@
+import { Message } from '../types';
+import { INVARIANTS, Invariant, InvariantContext, InvariantName } from './invariants';
+
+export const MAX_RECORDED_VIOLATIONS = 500;
+
+export interface InvariantViolation {
+  invariant: InvariantName;
+  message: string;
+  details: Record<string, unknown>;
+  delivery: number;                     // deliveries since the last reset when detected
+  runId: string | null;                 // null when detected in step mode
+  deliveredMessage: Message | null;
+  detectedAt: string;
+}
+
+export interface InvariantReport {
+  checks: number;
+  passed: boolean;
+  violationCount: number;
+  activeViolations: InvariantName[];    // state invariants failing right now
+  violations: InvariantViolation[];     // oldest first, capped at MAX_RECORDED_VIOLATIONS
+}
+
+/**
+ * Evaluates every invariant after each delivery and keeps structured violation records
+ * A state invariant that keeps failing is recorded once when it starts failing, not on every delivery
+ */
+export class InvariantChecker {
+  private checks = 0;
+  private violationCount = 0;
+  private violations: InvariantViolation[] = [];
+  private active = new Set<InvariantName>();
+
+  constructor(private readonly invariants: Invariant[] = INVARIANTS) {}
+
+  /**
+   * Run all invariants; returns the violations newly recorded by this check
+   */
+  check(context: InvariantContext, runId: string | null): InvariantViolation[] {
+    this.checks++;
+    const detected: InvariantViolation[] = [];
+
+    for (const invariant of this.invariants) {
+      const failure = invariant.check(context);
+
+      if (invariant.kind === 'state') {
+        if (!failure) {
+          this.active.delete(invariant.name);
+          continue;
+        }
+        if (this.active.has(invariant.name)) continue;
+        this.active.add(invariant.name);
+      }
+      if (!failure) continue;
+
+      detected.push({
+        invariant: invariant.name,
+        message: failure.message,
+        details: failure.details,
+        delivery: this.checks,
+        runId,
+        deliveredMessage: context.deliveredMessage,
+        detectedAt: new Date().toISOString()
+      });
+    }
+
+    this.violationCount += detected.length;
+    this.violations.push(...detected.slice(0, MAX_RECORDED_VIOLATIONS - this.violations.length));
+    return detected;
+  }
+
+  getReport(): InvariantReport {
+    return {
+      checks: this.checks,
+      passed: this.violationCount === 0,
+      violationCount: this.violationCount,
+      activeViolations: Array.from(this.active),
+      violations: this.violations.map(violation => ({ ...violation }))
+    };
+  }
+}
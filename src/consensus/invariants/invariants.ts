@@ -0,0 +1,131 @@
+import { Color, Message, ProcessState } from '../types';
+
+export type InvariantName = 'ball-conservation' | 'color-conservation' | 'done-monochrome' | 'capacity' | 'potential-on-send';
+
+/**
+ * Everything an invariant may look at after one delivery
+ */
+export interface InvariantContext {
+  processes: ProcessState[];
+  messagesInTransit: Message[];
+  expectedColorCounts: Record<Color, number>;  // initial balls adjusted for SENDs the network dropped or duplicated
+  perfectMonochromeAchievable: boolean;
+  deliveredMessage: Message | null;
+  potentialBefore: number;
+  potentialAfter: number;
+}
+
+export interface InvariantFailure {
+  message: string;
+  details: Record<string, unknown>;
+}
+
+export interface Invariant {
+  name: InvariantName;
+  /**
+   * State invariants hold continuously and are reported when they start failing;
+   * transition invariants are judged per delivery and reported every time
+   */
+  kind: 'state' | 'transition';
+  check(context: InvariantContext): InvariantFailure | null;
+}
+
+/**
+ * Balls held by processes plus balls carried by SENDs in transit, per color
+ */
+export function countBalls(processes: ProcessState[], messagesInTransit: Message[]): Record<Color, number> {
+  const counts: Record<Color, number> = {};
+  for (const process of processes) {
+    for (const ball of process.stack) {
+      counts[ball] = (counts[ball] || 0) + 1;
+    }
+  }
+  for (const message of messagesInTransit) {
+    if (message.type === 'SEND' && message.color) {
+      counts[message.color] = (counts[message.color] || 0) + 1;
+    }
+  }
+  return counts;
+}
+
+const sum = (counts: Record<Color, number>) => Object.values(counts).reduce((total, n) => total + n, 0);
+
+export const INVARIANTS: Invariant[] = [
+  {
+    name: 'ball-conservation',
+    kind: 'state',
+    check: ({ processes, messagesInTransit, expectedColorCounts }) => {
+      const expected = sum(expectedColorCounts);
+      const held = processes.reduce((total, p) => total + p.stack.length, 0);
+      const inTransit = messagesInTransit.filter(m => m.type === 'SEND' && m.color).length;
+      if (held + inTransit === expected) return null;
+
+      return {
+        message: `Expected ${expected} balls, found ${held + inTransit} (${held} in processes + ${inTransit} in transit)`,
+        details: { expected, held, inTransit }
+      };
+    }
+  },
+  {
+    name: 'color-conservation',
+    kind: 'state',
+    check: ({ processes, messagesInTransit, expectedColorCounts }) => {
+      const actual = countBalls(processes, messagesInTransit);
+      const colors = new Set([...Object.keys(expectedColorCounts), ...Object.keys(actual)]);
+      const mismatched = Array.from(colors).filter(color => (expectedColorCounts[color] || 0) !== (actual[color] || 0));
+      if (mismatched.length === 0) return null;
+
+      return {
+        message: `Ball counts changed for ${mismatched.map(c => `${c} (expected ${expectedColorCounts[c] || 0}, found ${actual[c] || 0})`).join(', ')}`,
+        details: { expected: expectedColorCounts, actual }
+      };
+    }
+  },
+  {
+    name: 'done-monochrome',
+    kind: 'state',
+    check: ({ processes, perfectMonochromeAchievable }) => {
+      if (!perfectMonochromeAchievable) return null;
+
+      const mixed = processes.filter(p => p.isDone && new Set(p.stack).size > 1);
+      if (mixed.length === 0) return null;
+
+      return {
+        message: `Process(es) ${mixed.map(p => p.id).join(', ')} are DONE with mixed colors although perfect monochrome is achievable`,
+        details: { processes: mixed.map(p => ({ id: p.id, stack: [...p.stack] })) }
+      };
+    }
+  },
+  {
+    name: 'capacity',
+    kind: 'state',
+    check: ({ processes }) => {
+      const overfull = processes.filter(p => p.capacity !== undefined && p.stack.length > p.capacity);
+      if (overfull.length === 0) return null;
+
+      return {
+        message: `Process(es) ${overfull.map(p => `${p.id} (${p.stack.length}/${p.capacity})`).join(', ')} hold more balls than their capacity`,
+        details: { processes: overfull.map(p => ({ id: p.id, held: p.stack.length, capacity: p.capacity })) }
+      };
+    }
+  },
+  {
+    name: 'potential-on-send',
+    kind: 'transition',
+    check: ({ deliveredMessage, potentialBefore, potentialAfter }) => {
+      // A ball handed back by a full process, or handed off by one that left, was not asked for, so it may well be unwanted
+      if (deliveredMessage?.type !== 'SEND' || deliveredMessage.handback || potentialAfter <= potentialBefore) return null;
+
+      return {
+        message: `Φ increased from ${potentialBefore} to ${potentialAfter} on delivering ${deliveredMessage.color} from Process ${deliveredMessage.from} to Process ${deliveredMessage.to}`,
+        details: { potentialBefore, potentialAfter }
+      };
+    }
+  }
+];
+
+/**
+ * Invariants that hold for any subset of the processes, so an engine hosting only some of them can check them;
+ * the others need every process and every message in transit in view
+ */
+export const LOCAL_INVARIANTS: Invariant[] = INVARIANTS.filter(invariant => invariant.name === 'done-monochrome' || invariant.name === 'capacity');
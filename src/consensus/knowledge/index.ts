@@ -0,0 +1,22 @@
+import { ConsensusInputError } from '../errors';
+import { KnowledgeMode, KNOWLEDGE_MODES, DEFAULT_KNOWLEDGE_MODE } from './knowledge-base';
+
+export {
+  KnowledgeBase,
+  KnowledgeMode,
+  KnowledgeReport,
+  ProcessKnowledge,
+  PeerSummary,
+  KNOWLEDGE_MODES,
+  DEFAULT_KNOWLEDGE_MODE
+} from './knowledge-base';
+
+/**
+ * Resolve a configured knowledge mode, defaulting to gossip
+ */
+export function resolveKnowledgeMode(mode: KnowledgeMode = DEFAULT_KNOWLEDGE_MODE): KnowledgeMode {
+  if (!KNOWLEDGE_MODES.includes(mode)) {
+    throw new ConsensusInputError(`Unknown knowledge mode "${mode}" (available: ${KNOWLEDGE_MODES.join(', ')})`);
+  }
+  return mode;
+}
@@ -0,0 +1,171 @@
+import { Color, ProcessId, ProcessState } from '../types';
+import { countColors } from '../strategies';
+
+export const KNOWLEDGE_MODES = ['gossip', 'global'] as const;
+export const DEFAULT_KNOWLEDGE_MODE: KnowledgeMode = 'gossip';
+
+/**
+ * gossip: processes see each other only through summaries carried by messages
+ * global: processes read each other's state directly (the engine's original behavior, kept for comparison)
+ */
+export type KnowledgeMode = typeof KNOWLEDGE_MODES[number];
+
+/**
+ * What one process last heard about another; `version` grows with every summary its subject sends
+ */
+export interface PeerSummary {
+  id: ProcessId;
+  colorCounts: Record<Color, number>;
+  wanted: Color | null;
+  isDone: boolean;
+  version: number;
+  capacity?: number;
+  targetSize?: number;
+}
+
+export interface ProcessKnowledge {
+  id: ProcessId;
+  peers: PeerSummary[];
+  unknown: ProcessId[];     // peers it has not heard about yet
+}
+
+export interface KnowledgeReport {
+  mode: KnowledgeMode;
+  processes: ProcessKnowledge[];
+}
+
+/**
+ * Every process's local, possibly stale, picture of its peers
+ * Each message carries its sender's fresh summary plus everything the sender knows (gossip);
+ * the recipient keeps, per peer, whichever summary has the highest version
+ * An engine hosting only some of the processes keeps the pictures of those it hosts
+ */
+export class KnowledgeBase {
+  private ids: ProcessId[];
+  private hosted: ProcessId[];
+  private readonly versions = new Map<ProcessId, number>();
+  private readonly known = new Map<ProcessId, Map<ProcessId, PeerSummary>>();
+
+  constructor(processIds: ProcessId[], hosted: ProcessId[] = processIds) {
+    this.ids = [...processIds].sort((a, b) => a - b);
+    this.hosted = this.ids.filter(id => hosted.includes(id));
+    for (const id of this.ids) {
+      this.versions.set(id, 0);
+      this.known.set(id, new Map());
+    }
+  }
+
+  /**
+   * The gossip a message from `sender` carries: its own summary, newly versioned, and its view of the others
+   */
+  gossipFrom(sender: ProcessState): PeerSummary[] {
+    const version = (this.versions.get(sender.id) ?? 0) + 1;
+    this.versions.set(sender.id, version);
+
+    const own: PeerSummary = {
+      id: sender.id,
+      colorCounts: Object.fromEntries(countColors(sender.stack)),
+      wanted: sender.wanted,
+      isDone: sender.isDone,
+      version,
+      ...(sender.capacity !== undefined && { capacity: sender.capacity }),
+      ...(sender.targetSize !== undefined && { targetSize: sender.targetSize })
+    };
+    const peers = Array.from(this.known.get(sender.id)?.values() ?? []).map(clone);
+    return [own, ...peers];
+  }
+
+  /**
+   * Merge the gossip a message delivered to `recipient`; summaries about the recipient itself are ignored
+   */
+  absorb(recipient: ProcessId, gossip: readonly PeerSummary[] | undefined): void {
+    const known = this.known.get(recipient);
+    if (!known || !gossip) return;
+
+    for (const summary of gossip) {
+      if (summary.id === recipient || !this.versions.has(summary.id)) continue;
+      const current = known.get(summary.id);
+      if (!current || summary.version > current.version) {
+        known.set(summary.id, clone(summary));
+      }
+    }
+  }
+
+  /**
+   * A process joined: it knows nobody yet, and every other process hears of it as it is now,
+   * as if it had announced itself
+   */
+  join(newcomer: ProcessState): void {
+    this.ids = [...this.ids, newcomer.id].sort((a, b) => a - b);
+    this.hosted = [...this.hosted, newcomer.id].sort((a, b) => a - b);
+    this.versions.set(newcomer.id, 0);
+    this.known.set(newcomer.id, new Map());
+
+    const [announcement] = this.gossipFrom(newcomer);
+    for (const id of this.ids) {
+      this.absorb(id, [announcement]);
+    }
+  }
+
+  /**
+   * A process left: every other process forgets it, and gossip about it is ignored from now on
+   */
+  leave(id: ProcessId): void {
+    this.ids = this.ids.filter(other => other !== id);
+    this.hosted = this.hosted.filter(other => other !== id);
+    this.versions.delete(id);
+    this.known.delete(id);
+    for (const known of this.known.values()) {
+      known.delete(id);
+    }
+  }
+
+  knowsEveryPeer(id: ProcessId): boolean {
+    return this.known.get(id)?.size === this.ids.length - 1;
+  }
+
+  /**
+   * The system as `process` believes it to be: itself as it is, and every peer rebuilt from its last summary
+   * (stacks list the balls grouped by color). Peers it has not heard about yet appear empty and active,
+   * so they can still be asked
+   */
+  viewOf(process: ProcessState): ProcessState[] {
+    const known = this.known.get(process.id) ?? new Map<ProcessId, PeerSummary>();
+    const view: ProcessState[] = [];
+    for (const id of this.ids) {
+      if (id === process.id) {
+        view.push(process);
+        continue;
+      }
+      const summary = known.get(id);
+      view.push({
+        id,
+        stack: summary ? Object.entries(summary.colorCounts).flatMap(([color, n]) => new Array<Color>(n).fill(color)) : [],
+        wanted: summary?.wanted ?? null,
+        partner: null,
+        isDone: summary?.isDone ?? false,
+        ...(summary?.capacity !== undefined && { capacity: summary.capacity }),
+        ...(summary?.targetSize !== undefined && { targetSize: summary.targetSize })
+      });
+    }
+    return view;
+  }
+
+  getReport(mode: KnowledgeMode): KnowledgeReport {
+    return {
+      mode,
+      processes: this.hosted.map(id => {
+        const known = this.known.get(id)!;
+        return {
+          id,
+          peers: Array.from(known.values()).sort((a, b) => a.id - b.id).map(clone),
+          unknown: this.ids.filter(other => other !== id && !known.has(other))
+        };
+      })
+    };
+  }
+}
+
+function clone(summary: PeerSummary): PeerSummary {
+  return { ...summary, colorCounts: { ...summary.colorCounts } };
+}
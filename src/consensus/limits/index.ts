@@ -0,0 +1 @@
+export { validateStackLimits, validateTargetTotals } from './stack-limits';
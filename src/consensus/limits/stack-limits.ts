@@ -0,0 +1,58 @@
+import { Color, ProcessId, StackLimits } from '../types';
+import { ConsensusInputError } from '../errors';
+
+/**
+ * Check capacities and target sizes against the distributions they are configured with:
+ * every bound names a process of the distributions, each process starts within its capacity,
+ * no target exceeds its capacity and the targets can be met with the balls there are
+ */
+export function validateStackLimits(distributions: Record<ProcessId, Color[]>, limits: StackLimits): void {
+  const processIds = Object.keys(distributions).map(Number);
+  const capacities = limits.capacities ?? {};
+  const targetSizes = limits.targetSizes ?? {};
+
+  for (const [name, bounds, minimum] of [['capacities', capacities, 1], ['targetSizes', targetSizes, 0]] as const) {
+    for (const [key, bound] of Object.entries(bounds)) {
+      if (!processIds.includes(Number(key))) {
+        throw new ConsensusInputError(`${name}.${key} names a process that is not in the distributions`);
+      }
+      if (!Number.isInteger(bound) || bound < minimum) {
+        throw new ConsensusInputError(`${name}.${key} must be an integer of at least ${minimum}, got ${bound}`);
+      }
+    }
+  }
+
+  let totalBalls = 0;
+  for (const id of processIds) {
+    const balls = distributions[id].length;
+    totalBalls += balls;
+    if (capacities[id] !== undefined && balls > capacities[id]) {
+      throw new ConsensusInputError(`Process ${id} starts with ${balls} balls but its capacity is ${capacities[id]}`);
+    }
+    if (targetSizes[id] !== undefined && capacities[id] !== undefined && targetSizes[id] > capacities[id]) {
+      throw new ConsensusInputError(`Process ${id} has a target size of ${targetSizes[id]} but its capacity is ${capacities[id]}`);
+    }
+  }
+
+  validateTargetTotals(totalBalls, processIds.map(id => ({ capacity: capacities[id], targetSize: targetSizes[id] })));
+}
+
+/**
+ * Check that `totalBalls` can be spread over processes with these bounds: the targets add up to no more than there
+ * are balls, and the processes without a target have room for the rest
+ */
+export function validateTargetTotals(totalBalls: number, bounds: { capacity?: number; targetSize?: number }[]): void {
+  // Processes without a target take whatever the others leave, up to their capacities
+  const targeted = bounds.filter(b => b.targetSize !== undefined);
+  const untargeted = bounds.filter(b => b.targetSize === undefined);
+  const leftOver = totalBalls - targeted.reduce((sum, b) => sum + b.targetSize!, 0);
+  const room = untargeted.some(b => b.capacity === undefined)
+    ? Infinity
+    : untargeted.reduce((sum, b) => sum + b.capacity!, 0);
+  if (leftOver < 0 || leftOver > room) {
+    throw new ConsensusInputError(
+      `The target sizes cannot be met: ${totalBalls} balls in total, ${totalBalls - leftOver} of them targeted`
+      + (untargeted.length > 0 ? ` and room for ${room} more on processes without a target` : '')
+    );
+  }
+}
@@ -0,0 +1,10 @@
+export {
+  BallHandoff,
+  DepartureKind,
+  MembershipChange,
+  MembershipRecord,
+  MembershipReport,
+  validateMembershipChange,
+  planHandoff
+} from './membership';
+export { MembershipLog } from './membership-log';
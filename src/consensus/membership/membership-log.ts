@@ -0,0 +1,89 @@
+import { Color, ProcessId } from '../types';
+import { BallHandoff, DepartureKind, MembershipChange, MembershipRecord, MembershipReport } from './membership';
+
+/**
+ * Every membership change since the last reset, and how the ball total changed with them
+ * Joining processes add their balls; crashed processes lose theirs, and so does every ball that reaches them later
+ */
+export class MembershipLog {
+  private records: MembershipRecord[] = [];
+  private readonly departures = new Map<ProcessId, MembershipRecord>();
+  private readonly joined: Record<Color, number> = {};
+  private readonly lost: Record<Color, number> = {};
+
+  record(change: MembershipChange, outcome: Omit<MembershipRecord, 'id' | 'change' | 'appliedAt'>): MembershipRecord {
+    const record: MembershipRecord = {
+      id: this.records.length + 1,
+      change,
+      appliedAt: new Date().toISOString(),
+      ...outcome
+    };
+
+    this.records.push(record);
+    if (change.kind === 'join') {
+      change.stack.forEach(color => add(this.joined, color));
+    } else {
+      this.departures.set(change.id, record);
+      record.lost.forEach(color => add(this.lost, color));
+    }
+    return copy(record);
+  }
+
+  departureOf(id: ProcessId): DepartureKind | undefined {
+    return this.departures.get(id)?.change.kind as DepartureKind | undefined;
+  }
+
+  getDeparted(): ProcessId[] {
+    return Array.from(this.departures.keys());
+  }
+
+  /**
+   * A ball that reached a process after it had left gracefully was passed on to a peer
+   */
+  recordHandoff(departed: ProcessId, handoff: BallHandoff): void {
+    this.departures.get(departed)?.handedOff.push(handoff);
+  }
+
+  /**
+   * A ball that reached a departed process was lost with it
+   */
+  recordLoss(departed: ProcessId, color: Color): void {
+    this.departures.get(departed)?.lost.push(color);
+    add(this.lost, color);
+  }
+
+  /**
+   * Balls per color added by joins minus those lost, to adjust the expected ball counts by
+   */
+  getBallAdjustments(): Record<Color, number> {
+    const adjustments: Record<Color, number> = { ...this.joined };
+    for (const [color, n] of Object.entries(this.lost)) {
+      adjustments[color] = (adjustments[color] || 0) - n;
+    }
+    return adjustments;
+  }
+
+  getReport(members: ProcessId[]): MembershipReport {
+    return {
+      members: [...members],
+      departed: Array.from(this.departures, ([id, record]) => ({ id, kind: record.change.kind as DepartureKind })),
+      changes: this.records.map(copy),
+      joinedBalls: { ...this.joined },
+      lostBalls: { ...this.lost }
+    };
+  }
+}
+
+function add(counts: Record<Color, number>, color: Color): void {
+  counts[color] = (counts[color] || 0) + 1;
+}
+
+function copy(record: MembershipRecord): MembershipRecord {
+  return {
+    ...record,
+    members: [...record.members],
+    handedOff: record.handedOff.map(handoff => ({ ...handoff })),
+    lost: [...record.lost],
+    woken: [...record.woken]
+  };
+}
@@ -0,0 +1,112 @@
+import { Color, ProcessId, ProcessState } from '../types';
+import { ConsensusInputError } from '../errors';
+
+/**
+ * How a process stops taking part: a graceful leave hands its balls to its peers first, a crash loses them
+ */
+export type DepartureKind = 'leave' | 'crash';
+
+/**
+ * A change to the set of processes, at any point of a run
+ */
+export type MembershipChange =
+  | { kind: 'join'; id: ProcessId; stack: Color[]; capacity?: number; targetSize?: number }
+  | { kind: DepartureKind; id: ProcessId };
+
+/**
+ * One ball a departing process gave away, or that the network passed on after it had left
+ */
+export interface BallHandoff {
+  to: ProcessId;
+  color: Color;
+}
+
+/**
+ * What one membership change did; balls that reach a departed process later are added to its record
+ */
+export interface MembershipRecord {
+  id: number;
+  change: MembershipChange;
+  appliedAt: string;
+  appliedAtIteration: number;     // iterations of the current run when it was applied
+  members: ProcessId[];           // the processes taking part afterwards
+  handedOff: BallHandoff[];       // leave: balls given to peers
+  lost: Color[];                  // crash: balls held and balls that reached the process afterwards
+  woken: ProcessId[];             // DONE processes that took part again
+}
+
+export interface MembershipReport {
+  members: ProcessId[];
+  departed: { id: ProcessId; kind: DepartureKind }[];
+  changes: MembershipRecord[];
+  joinedBalls: Record<Color, number>;
+  lostBalls: Record<Color, number>;
+}
+
+/**
+ * Check a membership change against the current processes before anything is changed
+ * A joining process needs an ID that has not taken part in the run yet, so no message still in transit can reach it
+ */
+export function validateMembershipChange(
+  change: MembershipChange,
+  processes: ProcessState[],
+  palette: Color[],
+  departed: ProcessId[]
+): void {
+  const ids = processes.map(p => p.id);
+
+  if (change.kind === 'join') {
+    if (!Number.isInteger(change.id) || change.id < 1) {
+      throw new ConsensusInputError(`id must be a positive integer, got ${change.id}`);
+    }
+    if (ids.includes(change.id)) {
+      throw new ConsensusInputError(`Process ${change.id} is already taking part`);
+    }
+    if (departed.includes(change.id)) {
+      throw new ConsensusInputError(`Process ${change.id} took part in this run before; a joining process needs a new ID`);
+    }
+    change.stack.forEach((color, index) => {
+      if (!palette.includes(color)) {
+        throw new ConsensusInputError(`stack[${index}] has unknown color "${color}" (allowed: ${palette.join(', ')})`);
+      }
+    });
+    if (change.capacity !== undefined && change.stack.length > change.capacity) {
+      throw new ConsensusInputError(`Process ${change.id} joins with ${change.stack.length} balls but its capacity is ${change.capacity}`);
+    }
+    if (change.targetSize !== undefined && change.capacity !== undefined && change.targetSize > change.capacity) {
+      throw new ConsensusInputError(`Process ${change.id} has a target size of ${change.targetSize} but its capacity is ${change.capacity}`);
+    }
+    return;
+  }
+
+  if (!ids.includes(change.id)) {
+    throw new ConsensusInputError(`Process ${change.id} is not taking part`);
+  }
+  if (ids.length === 1) {
+    throw new ConsensusInputError(`Process ${change.id} is the only process left`);
+  }
+}
+
+/**
+ * Choose a peer for each ball of a departing process: one that wants its color, then one holding the most of it,
+ * then any other, always among those with room left (lowest ID on ties)
+ * Null if some ball fits nowhere
+ */
+export function planHandoff(balls: Color[], peers: ProcessState[]): BallHandoff[] | null {
+  const held = new Map(peers.map(p => [p.id, [...p.stack]]));
+  const wantedBonus = peers.reduce((sum, p) => sum + p.stack.length, balls.length) + 1; // outweighs any count held
+  const hasRoom = (p: ProcessState) => p.capacity === undefined || held.get(p.id)!.length < p.capacity;
+  const score = (p: ProcessState, color: Color) =>
+    (p.wanted === color ? wantedBonus : 0) + held.get(p.id)!.filter(ball => ball === color).length;
+
+  const handoffs: BallHandoff[] = [];
+  for (const color of balls) {
+    const candidates = peers.filter(hasRoom);
+    if (candidates.length === 0) return null;
+
+    const recipient = candidates.reduce((best, p) => score(p, color) > score(best, color) ? p : best);
+    held.get(recipient.id)!.push(color);
+    handoffs.push({ to: recipient.id, color });
+  }
+  return handoffs;
+}
@@ -0,0 +1,9 @@
+export {
+  JournalEntry,
+  RecordedRun,
+  ReplayDivergence,
+  ReplayResult,
+  RECORDING_VERSION,
+  digestState
+} from './run-journal';
+export { ReplayScheduler } from './replay-scheduler';
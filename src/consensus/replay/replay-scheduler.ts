@@ -0,0 +1,43 @@
+import { Message } from '../types';
+import { MessageScheduler } from '../schedulers';
+import { ReplayDivergenceError } from '../errors';
+import { JournalEntry } from './run-journal';
+
+type DeliveryEntry = Extract<JournalEntry, { kind: 'deliver' }>;
+
+/**
+ * Delivers exactly the message the journal says was delivered next
+ * Throws when that message is no longer where it was recorded, or when a request tick was expected instead
+ */
+export class ReplayScheduler implements MessageScheduler {
+  readonly description = 'replay';
+  private expected: DeliveryEntry | null = null;
+
+  expect(entry: DeliveryEntry | null): void {
+    this.expected = entry;
+  }
+
+  selectNext(queue: readonly Message[]): number {
+    const entry = this.expected;
+    if (!entry) {
+      throw new ReplayDivergenceError(`Expected a request tick, but ${queue.length} message(s) were in transit`);
+    }
+
+    const message = queue[entry.queueIndex];
+    if (!message) {
+      throw new ReplayDivergenceError(
+        `Expected to deliver message ${entry.messageId} at queue position ${entry.queueIndex}, but only ${queue.length} message(s) were in transit`
+      );
+    }
+    if (message.id !== entry.messageId || message.type !== entry.type || message.from !== entry.from
+      || message.to !== entry.to || message.color !== entry.color) {
+      throw new ReplayDivergenceError(
+        `Expected to deliver message ${entry.messageId} ${describe(entry)} at queue position ${entry.queueIndex}, found message ${message.id} ${describe(message)}`
+      );
+    }
+    return entry.queueIndex;
+  }
+}
+
+const describe = (m: { type: string; from: number; to: number; color?: string }) =>
+  `${m.type}${m.color ? `(${m.color})` : ''} ${m.from}→${m.to}`;
@@ -0,0 +1,68 @@
+import { createHash } from 'crypto';
+import { Color, MessageType, ProcessId, RunOptions, StackLimits, SystemState } from '../types';
+import { CorruptionSpec } from '../corruption';
+import { MembershipChange } from '../membership';
+
+export const RECORDING_VERSION = 1;
+
+/**
+ * Every event that changes engine state, in the order it happened
+ * Deliveries record the queue position and the message found there, so the journal pins down
+ * the exact interleaving whatever scheduler chose it (duplicated copies share an ID)
+ */
+export type JournalEntry =
+  | { kind: 'configure'; options: RunOptions }
+  | { kind: 'start-protocol' }
+  | { kind: 'deliver'; queueIndex: number; messageId: number; type: MessageType; from: ProcessId; to: ProcessId; color?: Color }
+  | { kind: 'tick' }
+  | { kind: 'resolve-conflicts' }
+  | { kind: 'force-completion'; resolveConflicts: boolean }
+  | { kind: 'final-check' }
+  | { kind: 'corrupt'; spec: CorruptionSpec }
+  | { kind: 'membership'; change: MembershipChange };
+
+/**
+ * Everything needed to re-execute a run and check the result
+ */
+export interface RecordedRun {
+  version: number;
+  initialDistributions: Record<ProcessId, Color[]>;
+  palette: Color[] | null;            // null when the palette was derived from the distributions
+  stackLimits?: StackLimits;          // capacities and target sizes; absent in older recordings
+  options: RunOptions;                // options in effect at the reset that began the recording
+  journal: JournalEntry[];
+  historyDigests: string[];           // one per retained systemHistory snapshot
+  finalDigest: string;                // state when the recording was taken
+  discarded?: { journalEntries: number; historySnapshots: number };  // oldest ones dropped by the retention limit
+}
+
+export interface ReplayDivergence {
+  kind: 'delivery' | 'state' | 'length';
+  journalIndex: number | null;
+  historyIndex: number | null;
+  message: string;
+  expectedDigest?: string;
+  actualDigest?: string;
+  actualState?: SystemState;
+}
+
+export interface ReplayResult {
+  identical: boolean;
+  journalEntries: number;
+  replayedEntries: number;
+  historyLength: { recorded: number; replayed: number };
+  divergence: ReplayDivergence | null;
+}
+
+/**
+ * Fingerprint of a snapshot; wall-clock message timestamps are the only fields left out
+ */
+export function digestState(state: SystemState): string {
+  const normalized = {
+    processes: state.processes.map(p => [p.id, p.stack, p.wanted, p.partner, p.isDone]),
+    messages: state.messages.map(({ timestamp, ...message }) => message),
+    isComplete: state.isComplete,
+    totalExchanges: state.totalExchanges
+  };
+  return createHash('sha1').update(JSON.stringify(normalized)).digest('hex');
+}
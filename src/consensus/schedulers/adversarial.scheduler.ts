@@ -0,0 +1,30 @@
+import { Message, ProcessId } from '../types';
+import { MessageScheduler } from './message-scheduler';
+
+/**
+ * Hold back every SEND until nothing else is in transit
+ */
+export class DelaySendsScheduler implements MessageScheduler {
+  readonly description = 'adversarial(delay-sends)';
+
+  selectNext(queue: readonly Message[]): number {
+    const index = queue.findIndex(m => m.type !== 'SEND');
+    return index === -1 ? 0 : index;
+  }
+}
+
+/**
+ * Withhold messages addressed to one process for as long as anything else can be delivered
+ */
+export class StarveProcessScheduler implements MessageScheduler {
+  readonly description: string;
+
+  constructor(private readonly targetProcess: ProcessId) {
+    this.description = `adversarial(starve-process=${targetProcess})`;
+  }
+
+  selectNext(queue: readonly Message[]): number {
+    const index = queue.findIndex(m => m.to !== this.targetProcess);
+    return index === -1 ? 0 : index;
+  }
+}
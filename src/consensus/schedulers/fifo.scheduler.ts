@@ -0,0 +1,13 @@
+import { Message } from '../types';
+import { MessageScheduler } from './message-scheduler';
+
+/**
+ * Deliver messages in the order they were sent (the original behavior)
+ */
+export class FifoScheduler implements MessageScheduler {
+  readonly description = 'fifo';
+
+  selectNext(queue: readonly Message[]): number {
+    return 0;
+  }
+}
@@ -0,0 +1,50 @@
+import { ConsensusInputError } from '../errors';
+import { ADVERSARIAL_POLICIES, MessageScheduler, SchedulerConfig } from './message-scheduler';
+import { FifoScheduler } from './fifo.scheduler';
+import { LifoScheduler } from './lifo.scheduler';
+import { RandomScheduler } from './random.scheduler';
+import { DelaySendsScheduler, StarveProcessScheduler } from './adversarial.scheduler';
+
+export {
+  MessageScheduler,
+  SchedulerConfig,
+  SchedulerType,
+  AdversarialPolicy,
+  SCHEDULER_TYPES,
+  ADVERSARIAL_POLICIES
+} from './message-scheduler';
+export { FifoScheduler } from './fifo.scheduler';
+export { LifoScheduler } from './lifo.scheduler';
+export { RandomScheduler } from './random.scheduler';
+export { DelaySendsScheduler, StarveProcessScheduler } from './adversarial.scheduler';
+
+/**
+ * Build a fresh scheduler for a run; FIFO when no configuration is given
+ */
+export function createScheduler(config?: SchedulerConfig): MessageScheduler {
+  switch (config?.type) {
+    case undefined:
+    case 'fifo':
+      return new FifoScheduler();
+    case 'lifo':
+      return new LifoScheduler();
+    case 'random':
+      return new RandomScheduler(config.seed ?? 0);
+    case 'adversarial':
+      switch (config.policy) {
+        case 'delay-sends':
+          return new DelaySendsScheduler();
+        case 'starve-process':
+          if (config.targetProcess === undefined) {
+            throw new ConsensusInputError('The starve-process policy requires a targetProcess');
+          }
+          return new StarveProcessScheduler(config.targetProcess);
+        case undefined:
+          throw new ConsensusInputError(`The adversarial scheduler requires a policy (${ADVERSARIAL_POLICIES.join(', ')})`);
+        default:
+          throw new ConsensusInputError(`Unknown adversarial policy: ${config.policy}`);
+      }
+    default:
+      throw new ConsensusInputError(`Unknown scheduler type: ${(config as SchedulerConfig).type}`);
+  }
+}
@@ -0,0 +1,13 @@
+import { Message } from '../types';
+import { MessageScheduler } from './message-scheduler';
+
+/**
+ * Deliver the most recently sent message first
+ */
+export class LifoScheduler implements MessageScheduler {
+  readonly description = 'lifo';
+
+  selectNext(queue: readonly Message[]): number {
+    return queue.length - 1;
+  }
+}
@@ -0,0 +1,30 @@
+import { Message, ProcessId } from '../types';
+
+export const SCHEDULER_TYPES = ['fifo', 'lifo', 'random', 'adversarial'] as const;
+export const ADVERSARIAL_POLICIES = ['delay-sends', 'starve-process'] as const;
+
+export type SchedulerType = typeof SCHEDULER_TYPES[number];
+export type AdversarialPolicy = typeof ADVERSARIAL_POLICIES[number];
+
+/**
+ * Per-run choice of delivery policy
+ */
+export interface SchedulerConfig {
+  type: SchedulerType;
+  seed?: number;                  // random
+  policy?: AdversarialPolicy;     // adversarial
+  targetProcess?: ProcessId;      // adversarial 'starve-process'
+}
+
+/**
+ * Decides which in-transit message is delivered next
+ * Implementations must be deterministic given their configuration (and seed)
+ */
+export interface MessageScheduler {
+  readonly description: string;
+
+  /**
+   * Index into the (non-empty) queue of the message to deliver next
+   */
+  selectNext(queue: readonly Message[]): number;
+}
@@ -0,0 +1,20 @@
+import { Message } from '../types';
+import { SeededRandom } from '../utils/seeded-random';
+import { MessageScheduler } from './message-scheduler';
+
+/**
+ * Deliver a uniformly random in-transit message, reproducible from the seed
+ */
+export class RandomScheduler implements MessageScheduler {
+  readonly description: string;
+  private readonly random: SeededRandom;
+
+  constructor(seed: number) {
+    this.random = new SeededRandom(seed);
+    this.description = `random(seed=${seed})`;
+  }
+
+  selectNext(queue: readonly Message[]): number {
+    return this.random.nextInt(queue.length);
+  }
+}
@@ -1,5 +1,6 @@
 import { Injectable } from '@nestjs/common';
-import { Color, ProcessId, ProcessState, Message } from '../types';
+import { Color, ProcessId, ProcessState, Message, ColorPriorityTable } from '../types';
+import { WantedColorStrategy, createWantedColorStrategy, countColors } from '../strategies';
 
 /**
  * Service responsible for color selection logic and conflict resolution
@@ -8,19 +9,51 @@ import { Color, ProcessId, ProcessState, Message } from '../types';
 export class ColorSelectionService {
 
   /**
-   * Deterministic color priority assignment based on process ID
+   * Derive the color palette from distributions in order of first appearance
+   * (processes visited in ascending ID order)
+   */
+  derivePalette(distributions: Record<ProcessId, Color[]>): Color[] {
+    const palette: Color[] = [];
+    const processIds = Object.keys(distributions).map(Number).sort((a, b) => a - b);
+
+    for (const processId of processIds) {
+      for (const color of distributions[processId]) {
+        if (!palette.includes(color)) {
+          palette.push(color);
+        }
+      }
+    }
+
+    return palette;
+  }
+
+  /**
+   * Build a deterministic color priority table for any number of processes and colors
+   * The k-th process (by ascending ID) prefers the palette rotated by k positions,
+   * so with N >= K every color is somebody's first choice
+   */
+  buildColorPriorities(processIds: ProcessId[], palette: Color[]): ColorPriorityTable {
+    const priorities: ColorPriorityTable = {};
+    const sortedIds = [...processIds].sort((a, b) => a - b);
+
+    sortedIds.forEach((processId, rank) => {
+      const offset = palette.length > 0 ? rank % palette.length : 0;
+      priorities[processId] = [...palette.slice(offset), ...palette.slice(0, offset)];
+    });
+
+    return priorities;
+  }
+
+  /**
+   * Deterministic color priority lookup based on the process's priority table entry
    * Ensures each process has a preferred color to avoid conflicts
    */
-  getColorPriorityForProcess(processId: ProcessId, color: Color): number {
-    // Create deterministic mapping: Process 1->R priority, Process 2->G priority, Process 3->B priority
-    const priorities: Record<ProcessId, Color[]> = {
-      1: ['R', 'G', 'B'], // Process 1 prefers R, then G, then B
-      2: ['G', 'B', 'R'], // Process 2 prefers G, then B, then R  
-      3: ['B', 'R', 'G']  // Process 3 prefers B, then R, then G
-    };
-    
-    const processColorOrder = priorities[processId];
-    return processColorOrder.indexOf(color) + 1; // 1 = highest priority, 3 = lowest
+  getColorPriorityForProcess(processId: ProcessId, color: Color, priorities: ColorPriorityTable): number {
+    const processColorOrder = priorities[processId] || [];
+    const index = processColorOrder.indexOf(color);
+
+    // 1 = highest priority; colors outside the table rank last
+    return index === -1 ? processColorOrder.length + 1 : index + 1;
   }
 
   /**
@@ -43,39 +76,31 @@ export class ColorSelectionService {
   }
 
   /**
-   * Compute the wanted color for a process using advanced strategy
+   * Compute the wanted color for a process with the run's wanted-color strategy
    */
-  computeWantedColor(process: ProcessState, messageQueue: Message[] = []): void {
+  computeWantedColor(
+    process: ProcessState,
+    messageQueue: Message[] = [],
+    priorities: ColorPriorityTable = {},
+    strategy: WantedColorStrategy = createWantedColorStrategy()
+  ): void {
     // For empty processes, we need to determine what color they should want
     // based on what colors are available from other processes
     if (process.stack.length === 0) {
       // Empty processes should want a color that other processes have in excess
       // Use process ID as deterministic tiebreaker
-      const priorityColors = this.getColorPriorityForProcess(process.id, 'R') === 1 ? ['R', 'G', 'B'] :
-                           this.getColorPriorityForProcess(process.id, 'G') === 1 ? ['G', 'B', 'R'] :
-                           ['B', 'R', 'G'];
+      const priorityColors = priorities[process.id] || [];
       
       // Choose the first color in priority order as the wanted color
-      process.wanted = priorityColors[0] as Color;
+      process.wanted = priorityColors.length > 0 ? priorityColors[0] : null;
       console.log(`Process ${process.id} wants color ${process.wanted} (empty process)`);
       return;
     }
 
-    const colorCounts = new Map<Color, number>();
-    for (const color of process.stack) {
-      colorCounts.set(color, (colorCounts.get(color) || 0) + 1);
-    }
-
-    // Get all colors sorted by count (descending)
-    const sortedColors = Array.from(colorCounts.entries())
-      .sort(([,a], [,b]) => b - a);
-
-    // Strategy: Use process ID as tiebreaker to avoid conflicts
-    // This ensures deterministic color assignment without global coordination
-    let selectedColor: Color = process.stack[0]; // fallback
+    const selectedColor = strategy.choose(process, { messageQueue, priorities });
 
     process.wanted = selectedColor;
-    console.log(`Process ${process.id} wants color ${selectedColor} (has ${colorCounts.get(selectedColor)} balls)`);
+    console.log(`Process ${process.id} wants color ${selectedColor} (has ${countColors(process.stack).get(selectedColor)} balls, ${strategy.name})`);
   }
 
   /**
@@ -115,7 +140,7 @@ export class ColorSelectionService {
    * Force conflict resolution by reassigning colors to conflicted processes
    * Uses the priority system to determine who gets what
    */
-  resolveColorConflicts(processes: ProcessState[]): void {
+  resolveColorConflicts(processes: ProcessState[], priorities: ColorPriorityTable): void {
     const colorWants = new Map<Color, ProcessState[]>();
     
     // Group processes by wanted color
@@ -135,14 +160,14 @@ export class ColorSelectionService {
         
         // Sort by priority (who should get this color)
         conflictedProcesses.sort((a, b) => {
-          const aPriority = this.getColorPriorityForProcess(a.id, color);
-          const bPriority = this.getColorPriorityForProcess(b.id, color);
+          const aPriority = this.getColorPriorityForProcess(a.id, color, priorities);
+          const bPriority = this.getColorPriorityForProcess(b.id, color, priorities);
           return aPriority - bPriority; // Lower number = higher priority
         });
         
         // Winner keeps the color, others must choose alternatives
         const winner = conflictedProcesses[0];
-        console.log(`Process ${winner.id} wins color ${color} (priority ${this.getColorPriorityForProcess(winner.id, color)})`);
+        console.log(`Process ${winner.id} wins color ${color} (priority ${this.getColorPriorityForProcess(winner.id, color, priorities)})`);
         
         for (let i = 1; i < conflictedProcesses.length; i++) {
           const loser = conflictedProcesses[i];
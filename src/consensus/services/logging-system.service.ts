@@ -1,5 +1,6 @@
 import { Injectable } from '@nestjs/common';
-import { Color, ProcessId, ProcessState, Message } from '../types';
+import { Color, ProcessState, Message, FaultReport } from '../types';
+import { OptimalityAnalysis } from '../analysis';
 
 /**
  * Service responsible for system validation and logging
@@ -25,13 +26,14 @@ export class LoggingSystemService {
 
   /**
    * Log final state summary
+   * Ball conservation is checked only when given the number of balls every process shown should hold between them
    */
   logFinalState(
     processes: ProcessState[], 
     messageQueue: Message[], 
     totalExchanges: number, 
     calculatePotentialFunction: () => number,
-    initialDistributions?: Record<ProcessId, Color[]>
+    expectedTotal?: number
   ): void {
     console.log('\nFINAL RESULTS:');
     
@@ -46,8 +48,8 @@ export class LoggingSystemService {
       const count = process.stack.length;
       
       totalFinalBalls += count;
-      if (color !== 'empty') {
-        finalColorCounts.set(color as Color, (finalColorCounts.get(color as Color) || 0) + count);
+      for (const ball of process.stack) {
+        finalColorCounts.set(ball, (finalColorCounts.get(ball) || 0) + 1);
       }
       
       console.log(`  Process ${process.id}: ${status} | ${count} ${color} balls`);
@@ -66,17 +68,38 @@ export class LoggingSystemService {
     console.log(`Final ball count: ${totalFinalBalls} balls (${ballsInTransit} in transit)`);
     console.log(`Final color distribution: ${Array.from(finalColorCounts.entries()).map(([c, n]) => `${n} ${c}`).join(', ')}`);
     
-    // Calculate expected total from initial distributions
-    let expectedTotal = 30; // Default for backward compatibility
-    if (initialDistributions) {
-      expectedTotal = 0;
-      for (const [processId, distribution] of Object.entries(initialDistributions)) {
-        expectedTotal += distribution.length;
-      }
-    }
-    
+    if (expectedTotal === undefined) return;
+
     if (totalFinalBalls + ballsInTransit !== expectedTotal) {
       console.error(`❌ CRITICAL ERROR: Ball count mismatch! Expected ${expectedTotal} total, found ${totalFinalBalls + ballsInTransit} (${totalFinalBalls} in processes + ${ballsInTransit} in transit)`);
     }
   }
+
+  /**
+   * Log how the run's exchanges compare with the minimum number of transfers
+   */
+  logOptimalityAnalysis(analysis: OptimalityAnalysis): void {
+    const format = (assignment: OptimalityAnalysis['optimalAssignment']) =>
+      Object.entries(assignment).map(([id, color]) => `P${id}=${color ?? 'empty'}`).join(', ');
+
+    console.log(`\nOptimal assignment: ${format(analysis.optimalAssignment)} (${analysis.minimumTransfers} transfers minimum)`);
+    console.log(`Exchanges: ${analysis.exchanges} | Excess: ${analysis.excessTransfers} | Efficiency: ${analysis.efficiency ?? 'n/a'}`);
+    console.log(`Final assignment ${analysis.finalAssignmentOptimal ? 'is optimal' : `is not optimal: ${format(analysis.finalAssignment)}`}`);
+  }
+
+  /**
+   * Log the faults injected during a run and whether ball conservation survived them
+   */
+  logFaultReport(report: FaultReport): void {
+    const totals = Object.entries(report.injected)
+      .map(([kind, perType]) => `${kind}: ${Object.values(perType).reduce((sum, n) => sum + n, 0)}`)
+      .join(', ');
+
+    console.log(`\nInjected faults: ${totals}`);
+    console.log(`REQUEST retransmissions: ${report.retransmissions} (${report.abandonedRequests} abandoned)`);
+
+    if (!report.conservation.held) {
+      console.error(`❌ Ball conservation violated under faults: expected ${report.conservation.expectedBalls}, found ${report.conservation.actualBalls}`);
+    }
+  }
 }
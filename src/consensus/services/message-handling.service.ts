@@ -1,5 +1,5 @@
 import { Injectable } from '@nestjs/common';
-import { Message, ProcessState, Color } from '../types';
+import { Message, ProcessId, ProcessState, Color } from '../types';
 
 /**
  * Service responsible for message handling and processing logic
@@ -9,9 +9,11 @@ export class MessageHandlingService {
   
   /**
    * Send a REQUEST message to the current partner
+   * A process that has reached its capacity or target size asks only when it can swap: it must hold a ball it does not want
    */
   sendRequest(process: ProcessState, messageQueue: Message[]): void {
     if (!process.partner || !process.wanted) return;
+    if (process.stack.length >= this.fillLimitOf(process) && !process.stack.some(color => color !== process.wanted)) return;
 
     const message: Message = {
       type: 'REQUEST',
@@ -24,13 +26,42 @@ export class MessageHandlingService {
     messageQueue.push(message);
   }
 
+  /**
+   * Send an INFO message: no ball, only the sender's knowledge (attached on transmit)
+   * Used to answer a request that could not be served, so the requester still learns something
+   */
+  sendInfo(process: ProcessState, to: ProcessId, messageQueue: Message[]): void {
+    messageQueue.push({
+      type: 'INFO',
+      from: process.id,
+      to,
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Pass a request the recipient could not serve on to a process that may, on a sparse topology
+   * The ball, if any, goes straight back to the process that asked
+   */
+  forwardRequest(message: Message, recipient: ProcessState, to: ProcessId, messageQueue: Message[]): void {
+    messageQueue.push({
+      type: 'REQUEST',
+      from: recipient.id,
+      to,
+      color: message.color,
+      timestamp: Date.now(),
+      origin: message.from
+    });
+    console.log(`➡️ Process ${recipient.id} passes the request for ${message.color} from Process ${message.from} on to Process ${to}`);
+  }
+
   /**
    * Handle REQUEST message: check if we have the requested color
+   * A request passed on by another process is served to its origin
    */
   handleRequest(
     message: Message, 
     recipient: ProcessState, 
-    sender: ProcessState,
     messageQueue: Message[],
     onMonochromeCheck: (process: ProcessState) => void,
     onComputeWantedColor: (process: ProcessState) => void,
@@ -39,27 +70,29 @@ export class MessageHandlingService {
     if (!message.color) return;
 
     const requestedColor = message.color;
-    console.log(`Process ${recipient.id} received request for ${requestedColor} from Process ${sender.id}`);
+    console.log(`Process ${recipient.id} received request for ${requestedColor} from Process ${message.from}`);
     console.log(`   Process ${recipient.id} wants: ${recipient.wanted}, has: [${recipient.stack.join(',')}]`);
     
-    // Find a ball of the requested color that we don't want
+    // Find a ball of the requested color that we don't want, or one beyond our target size
+    const hasSurplus = recipient.targetSize !== undefined && recipient.stack.length > recipient.targetSize;
     const ballIndex = recipient.stack.findIndex((color: Color) => 
-      color === requestedColor && color !== recipient.wanted
+      color === requestedColor && (color !== recipient.wanted || hasSurplus)
     );
 
     if (ballIndex !== -1) {
       const ballToSend = recipient.stack.splice(ballIndex, 1)[0];
+      const requester = message.origin ?? message.from;
       
       const sendMessage: Message = {
         type: 'SEND',
         from: recipient.id,
-        to: sender.id,
+        to: requester,
         color: ballToSend,
         timestamp: Date.now()
       };
 
       messageQueue.push(sendMessage);
-      console.log(`✅ Process ${recipient.id} sending ${ballToSend} to Process ${sender.id}`);
+      console.log(`✅ Process ${recipient.id} sending ${ballToSend} to Process ${requester}`);
       
       // Check if recipient became monochrome after giving away a ball
       onMonochromeCheck(recipient);
@@ -79,11 +112,11 @@ export class MessageHandlingService {
 
   /**
    * Handle SEND message: receive a ball
+   * A full process keeps a ball it wants only by handing back one it does not want; any other ball goes back to its sender
    */
   handleSend(
     message: Message, 
     recipient: ProcessState, 
-    sender: ProcessState,
     totalExchanges: { count: number },
     onMonochromeCheck: (process: ProcessState) => void,
     onComputeWantedColor: (process: ProcessState) => void,
@@ -92,10 +125,25 @@ export class MessageHandlingService {
   ): void {
     if (!message.color) return;
 
+    if (recipient.capacity !== undefined && recipient.stack.length >= recipient.capacity) {
+      const swapIndex = message.color === recipient.wanted
+        ? recipient.stack.findIndex(color => color !== recipient.wanted)
+        : -1;
+      if (swapIndex === -1) {
+        messageQueue.push({ type: 'SEND', from: recipient.id, to: message.from, color: message.color, timestamp: Date.now(), handback: 'refused' });
+        console.log(`↩️ Process ${recipient.id} is full and returns ${message.color} to Process ${message.from}`);
+        return;
+      }
+
+      const [swapped] = recipient.stack.splice(swapIndex, 1);
+      messageQueue.push({ type: 'SEND', from: recipient.id, to: message.from, color: swapped, timestamp: Date.now(), handback: 'swap' });
+      console.log(`🔄 Process ${recipient.id} is full and swaps ${swapped} for ${message.color} with Process ${message.from}`);
+    }
+
     recipient.stack.push(message.color);
     totalExchanges.count++;
 
-    console.log(`Process ${recipient.id} received ${message.color} from Process ${sender.id} (now has ${recipient.stack.length} balls)`);
+    console.log(`Process ${recipient.id} received ${message.color} from Process ${message.from} (now has ${recipient.stack.length} balls)`);
 
     onMonochromeCheck(recipient);
 
@@ -109,86 +157,109 @@ export class MessageHandlingService {
   }
 
   /**
-   * Handle DONE message: mark sender as completed
+   * Handle DONE message: the sender has already marked itself done; the recipient only takes note
+   * (with gossip, the sender's summary on the message updates what the recipient knows)
    */
-  handleDone(message: Message, allProcesses: ProcessState[]): void {
-    const sender = allProcesses.find(p => p.id === message.from);
-    if (sender) {
-      sender.isDone = true;
-    }
+  handleDone(message: Message, recipient: ProcessState): void {
+    console.log(`Process ${recipient.id} learned that Process ${message.from} is done`);
   }
 
   /**
    * Check if a process has achieved monochrome state or optimal state
    */
   checkMonochrome(process: ProcessState, allProcesses: ProcessState[], messageQueue: Message[], perfectMonochromeAchievable: boolean): void {
+    if (!process.isDone && this.isFinished(process, allProcesses, perfectMonochromeAchievable)) {
+      process.isDone = true;
+      this.sendDoneMessages(process, allProcesses, messageQueue);
+    }
+  }
+
+  /**
+   * Whether a process has nothing left to gain, judging by `allProcesses`
+   */
+  isFinished(process: ProcessState, allProcesses: ProcessState[], perfectMonochromeAchievable: boolean): boolean {
+    // A process with a target size is never finished away from it
+    if (process.targetSize !== undefined && process.stack.length !== process.targetSize) {
+      return false;
+    }
+
     // Empty processes should only be marked as done if no other process can give them balls
     if (process.stack.length === 0) {
-      // Check if any other process has balls they could potentially give to this empty process
-      const canReceiveBalls = allProcesses.some(p => {
-        if (p.id === process.id) return false;
-        if (p.isDone) return false;
-        if (p.stack.length === 0) return false;
-        
-        // Check if this other process has multiple colors (i.e., can give away unwanted balls)
-        const uniqueColors = new Set(p.stack);
-        return uniqueColors.size > 1;
-      });
-      
-      if (!canReceiveBalls) {
-        if (!process.isDone) {
-          process.isDone = true;
-          this.sendDoneMessages(process, allProcesses, messageQueue);
-        }
-      }
-      return;
+      return this.fillLimitOf(process) === 0 || !this.canReceiveBalls(process, allProcesses);
     }
 
-    const uniqueColors = new Set(process.stack);
-    
-    // Perfect monochrome state - but check if it can still receive more balls
-    if (uniqueColors.size === 1) {
-      const monochromeColor = process.stack[0];
-      
-      // Check if other processes have unwanted balls of this color
-      const canReceiveMore = allProcesses.some(p => {
-        if (p.id === process.id) return false;
-        if (p.isDone) return false;
-        
-        // Check if this other process has the monochrome color and doesn't want it
-        const hasMonochromeColor = p.stack.includes(monochromeColor);
-        if (!hasMonochromeColor) return false;
-        
-        // Compute what this other process wants
-        const otherProcessColorCounts = new Map<Color, number>();
-        for (const color of p.stack) {
-          otherProcessColorCounts.set(color, (otherProcessColorCounts.get(color) || 0) + 1);
-        }
-        
-        if (otherProcessColorCounts.size === 0) return false;
-        
-        const otherProcessDominantColor = Array.from(otherProcessColorCounts.entries())
-          .reduce((max, current) => current[1] > max[1] ? current : max)[0];
-        
-        return otherProcessDominantColor !== monochromeColor;
-      });
-      
-      if (!canReceiveMore) {
-        if (!process.isDone) {
-          process.isDone = true;
-          this.sendDoneMessages(process, allProcesses, messageQueue);
-        }
-        return;
-      }
+    // Perfect monochrome state - but check if it can still receive more balls (a full one cannot)
+    if (new Set(process.stack).size === 1
+      && (process.stack.length >= this.fillLimitOf(process) || !this.canReceiveMoreOf(process.stack[0], process, allProcesses))) {
+      return true;
     }
 
     // Check for optimal state when perfect monochrome isn't achievable
-    if (this.isProcessInOptimalState(process, allProcesses, perfectMonochromeAchievable)) {
-      if (!process.isDone) {
-        process.isDone = true;
-        this.sendDoneMessages(process, allProcesses, messageQueue);
-      }
+    return this.isProcessInOptimalState(process, allProcesses, perfectMonochromeAchievable);
+  }
+
+  /**
+   * Whether some active process in `allProcesses` still holds a ball this process could collect:
+   * any ball from a mixed stack if it is empty, otherwise an unwanted ball of the color it collects
+   * A monochrome (or empty) process that has reached its capacity or target size takes nothing more
+   */
+  mayStillReceive(process: ProcessState, allProcesses: ProcessState[]): boolean {
+    if (process.stack.length >= this.fillLimitOf(process) && new Set(process.stack).size <= 1) {
+      return false;
     }
+    if (process.stack.length === 0) {
+      return this.canReceiveBalls(process, allProcesses);
+    }
+    return this.canReceiveMoreOf(process.wanted ?? process.stack[0], process, allProcesses);
+  }
+
+  /**
+   * Balls a process takes before it stops asking for more: its target size, or else its capacity
+   */
+  private fillLimitOf(process: ProcessState): number {
+    return Math.min(process.targetSize ?? Infinity, process.capacity ?? Infinity);
+  }
+
+  /**
+   * Check if any other process has balls they could potentially give to this empty process
+   */
+  private canReceiveBalls(process: ProcessState, allProcesses: ProcessState[]): boolean {
+    return allProcesses.some(p => {
+      if (p.id === process.id) return false;
+      if (p.isDone) return false;
+      if (p.stack.length === 0) return false;
+
+      // Check if this other process has multiple colors (i.e., can give away unwanted balls)
+      const uniqueColors = new Set(p.stack);
+      return uniqueColors.size > 1;
+    });
+  }
+
+  /**
+   * Check if other processes have unwanted balls of this color
+   */
+  private canReceiveMoreOf(monochromeColor: Color, process: ProcessState, allProcesses: ProcessState[]): boolean {
+    return allProcesses.some(p => {
+      if (p.id === process.id) return false;
+      if (p.isDone) return false;
+
+      // Check if this other process has the monochrome color and doesn't want it
+      const hasMonochromeColor = p.stack.includes(monochromeColor);
+      if (!hasMonochromeColor) return false;
+
+      // Compute what this other process wants
+      const otherProcessColorCounts = new Map<Color, number>();
+      for (const color of p.stack) {
+        otherProcessColorCounts.set(color, (otherProcessColorCounts.get(color) || 0) + 1);
+      }
+
+      if (otherProcessColorCounts.size === 0) return false;
+
+      const otherProcessDominantColor = Array.from(otherProcessColorCounts.entries())
+        .reduce((max, current) => current[1] > max[1] ? current : max)[0];
+
+      return otherProcessDominantColor !== monochromeColor;
+    });
   }
 
   /**
@@ -1,5 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { Color, ProcessState, Message, SystemState } from '../types';
+import { RunHistory } from '../history';
 
 /**
  * Service responsible for system state management and calculations
@@ -26,12 +27,17 @@ export class SystemStateService {
   /**
    * Check if the system has reached optimal consensus for unequal color distributions
    */
-  private isOptimalConsensusReached(processes: ProcessState[], messageQueue: Message[]): boolean {
+  isOptimalConsensusReached(processes: ProcessState[], messageQueue: Message[]): boolean {
     // No messages should be in transit
     if (messageQueue.length > 0) {
       return false;
     }
 
+    // Nor can it be optimal while a process is away from its target size
+    if (processes.some(p => p.targetSize !== undefined && p.stack.length !== p.targetSize)) {
+      return false;
+    }
+
     // First check if perfect monochrome is theoretically possible
     if (this.isPerfectMonochromeAchievable(processes)) {
       // If perfect monochrome is achievable, only accept perfect monochrome
@@ -85,7 +91,6 @@ export class SystemStateService {
       .reduce((max, current) => current[1] > max[1] ? current : max)[0];
     
     const dominantCount = processColorCounts.get(dominantColor) || 0;
-    const totalOfDominantColor = totalColorCounts.get(dominantColor) || 0;
     
     // Enhanced logic: Check if this process can improve by considering the global optimal distribution
     // For unequal color counts, we need to find the best possible distribution
@@ -156,51 +161,65 @@ export class SystemStateService {
     return phi;
   }
 
+  /**
+   * Balls still to move before every stack with a target size is at it
+   */
+  calculateTargetDistance(processes: ProcessState[]): number {
+    return processes.reduce((sum, p) => sum + (p.targetSize === undefined ? 0 : Math.abs(p.stack.length - p.targetSize)), 0);
+  }
+
   /**
    * Create a snapshot of the current system state
    */
   createSystemState(processes: ProcessState[], messageQueue: Message[], totalExchanges: number): SystemState {
     return {
-      processes: processes.map(p => ({ ...p })),
-      messages: [...messageQueue],
+      processes: processes.map(p => ({ ...p, stack: [...p.stack] })),
+      messages: messageQueue.map(m => ({ ...m })),
       isComplete: this.isSystemComplete(processes, messageQueue),
       totalExchanges: totalExchanges
     };
   }
 
   /**
-   * Save current system state to history
+   * Save current system state to history (stored as a delta against the previous snapshot)
    */
   saveSystemState(
     processes: ProcessState[], 
     messageQueue: Message[], 
     totalExchanges: number, 
-    systemHistory: SystemState[]
-  ): void {
+    systemHistory: RunHistory
+  ): SystemState {
     const state = this.createSystemState(processes, messageQueue, totalExchanges);
-    systemHistory.push(state);
+    systemHistory.append(state);
+    return state;
   }
 
   /**
    * Utility method to add delay for visualization
    */
   sleep(ms: number): Promise<void> {
+    if (ms <= 0) {
+      return new Promise(resolve => setImmediate(resolve));
+    }
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
   /**
    * Check if perfect monochrome is mathematically achievable given the color distribution
+   * Without capacities or target sizes every process must end with the same number of balls;
+   * with them, each process must fit one color within its capacity, at its target size if it has one
    */
   isPerfectMonochromeAchievable(processes: ProcessState[]): boolean {
     const totalColorCounts = this.getTotalColorCounts(processes);
     const processCount = processes.length;
     
-    // For perfect monochrome, each process must have balls of only one color
-    const nonZeroColors = Array.from(totalColorCounts.entries()).filter(([_, count]) => count > 0);
-    
-    if (nonZeroColors.length < processCount) {
+    if (processCount === 0) {
       return false;
     }
+
+    if (processes.some(p => p.capacity !== undefined || p.targetSize !== undefined)) {
+      return this.canPackMonochrome(Array.from(totalColorCounts.values()), processes);
+    }
     
     // Calculate total balls
     const totalBalls = Array.from(totalColorCounts.values()).reduce((sum, count) => sum + count, 0);
@@ -216,7 +235,8 @@ export class SystemStateService {
     // each process gets exactly ballsPerProcess balls
     
     // For this to work, we need to be able to partition the balls into processCount groups
-    // where each group contains exactly ballsPerProcess balls of the same color
+    // where each group contains exactly ballsPerProcess balls of the same color.
+    // Several processes may share a color, so the palette can be smaller than the process set.
     
     // Sort colors by count (descending)
     const sortedColors = Array.from(totalColorCounts.entries()).sort((a, b) => b[1] - a[1]);
@@ -242,4 +262,48 @@ export class SystemStateService {
     const result = assignedProcesses >= processCount;
     return result;
   }
+
+  /**
+   * Whether every ball fits on processes holding a single color each: a process with a target size takes exactly
+   * that many balls of one color, any other takes up to its capacity of one color or stays empty
+   * Depth-first over the processes, largest first, remembering remaining color counts already found to fail
+   */
+  private canPackMonochrome(colorCounts: number[], processes: ProcessState[]): boolean {
+    const targeted = processes.filter(p => p.targetSize !== undefined).sort((a, b) => b.targetSize! - a.targetSize!);
+    const untargeted = processes.filter(p => p.targetSize === undefined)
+      .sort((a, b) => (b.capacity ?? Infinity) - (a.capacity ?? Infinity));
+    const order = [...targeted, ...untargeted];
+    const failed = new Set<string>();
+
+    const pack = (index: number, remaining: number[]): boolean => {
+      if (remaining.every(n => n === 0)) {
+        return order.slice(index).every(p => !p.targetSize);
+      }
+      if (index === order.length) return false;
+
+      const key = `${index}:${[...remaining].sort((a, b) => a - b).join(',')}`;
+      if (failed.has(key)) return false;
+
+      const process = order[index];
+      const tried = new Set<number>();
+      for (let color = 0; color < remaining.length; color++) {
+        // Colors with the same count left are interchangeable
+        if (remaining[color] === 0 || tried.has(remaining[color])) continue;
+        tried.add(remaining[color]);
+
+        const take = process.targetSize ?? Math.min(process.capacity ?? Infinity, remaining[color]);
+        if (take > remaining[color]) continue;
+        const next = [...remaining];
+        next[color] -= take;
+        if (pack(index + 1, next)) return true;
+      }
+      // A process without a target may stay empty, as may one whose target is zero
+      if (!process.targetSize && pack(index + 1, remaining)) return true;
+
+      failed.add(key);
+      return false;
+    };
+
+    return pack(0, colorCounts);
+  }
 }
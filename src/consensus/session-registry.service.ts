@@ -0,0 +1,181 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException, OnModuleDestroy } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { ConsensusService } from './consensus.service';
+
+export const DEFAULT_SESSION_ID = 'default';
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * A simulation with its own isolated engine instance
+ */
+export interface ConsensusSession {
+  id: string;
+  engine: ConsensusService;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  createdAt: string;
+  lastAccessedAt: string;
+  expiresAt: string | null;
+  running: boolean;
+  isComplete: boolean;
+  processCount: number;
+}
+
+/**
+ * Registry of simulation sessions
+ * The injected ConsensusService is registered as the never-expiring default session
+ * so the legacy /consensus routes keep working; every other session gets its own engine
+ */
+@Injectable()
+export class SessionRegistryService implements OnModuleDestroy {
+  private readonly logger = new Logger(SessionRegistryService.name);
+  private readonly sessions = new Map<string, ConsensusSession>();
+  private readonly idleTimeoutMs: number;
+  private readonly sweepTimer: NodeJS.Timeout;
+
+  /**
+   * Emits 'created' and 'deleted' with the affected session
+   */
+  readonly events = new EventEmitter();
+
+  constructor(
+    private readonly moduleRef: ModuleRef,
+    defaultEngine: ConsensusService
+  ) {
+    const configuredTimeout = Number(process.env.SESSION_IDLE_TIMEOUT_MS);
+    this.idleTimeoutMs = configuredTimeout > 0 ? configuredTimeout : DEFAULT_IDLE_TIMEOUT_MS;
+
+    const now = Date.now();
+    this.sessions.set(DEFAULT_SESSION_ID, {
+      id: DEFAULT_SESSION_ID,
+      engine: defaultEngine,
+      createdAt: now,
+      lastAccessedAt: now
+    });
+
+    this.sweepTimer = setInterval(() => this.expireIdleSessions(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.sweepTimer);
+    // The default engine is a provider of its own and is destroyed with the module
+    for (const session of this.sessions.values()) {
+      if (session.id !== DEFAULT_SESSION_ID) session.engine.dispose();
+    }
+  }
+
+  /**
+   * Create a new session with a fresh engine instance
+   */
+  async createSession(): Promise<ConsensusSession> {
+    const engine = await this.moduleRef.create(ConsensusService);
+    const now = Date.now();
+    const session: ConsensusSession = {
+      id: randomUUID(),
+      engine,
+      createdAt: now,
+      lastAccessedAt: now
+    };
+
+    this.sessions.set(session.id, session);
+    this.logger.log(`Session ${session.id} created`);
+    this.events.emit('created', session);
+    return session;
+  }
+
+  /**
+   * Look up a session and mark it as recently used
+   */
+  getSession(id: string): ConsensusSession {
+    const session = this.sessions.get(id);
+    if (!session) {
+      throw new NotFoundException(`Session ${id} not found`);
+    }
+
+    session.lastAccessedAt = Date.now();
+    return session;
+  }
+
+  getDefaultSession(): ConsensusSession {
+    return this.getSession(DEFAULT_SESSION_ID);
+  }
+
+  listSessions(): ConsensusSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Delete a session; the default session and running sessions cannot be deleted
+   */
+  deleteSession(id: string): void {
+    if (id === DEFAULT_SESSION_ID) {
+      throw new BadRequestException('The default session cannot be deleted');
+    }
+
+    const session = this.getSession(id);
+    if (session.engine.isConsensusRunning()) {
+      throw new ConflictException(`Session ${id} is running and cannot be deleted`);
+    }
+
+    this.removeSession(session);
+  }
+
+  /**
+   * Remove sessions idle for longer than the timeout; running sessions are kept alive
+   * Returns the IDs of the expired sessions
+   */
+  expireIdleSessions(now: number = Date.now()): string[] {
+    const expired: string[] = [];
+
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.id === DEFAULT_SESSION_ID) continue;
+
+      if (session.engine.isConsensusRunning()) {
+        session.lastAccessedAt = now;
+        continue;
+      }
+
+      if (now - session.lastAccessedAt > this.idleTimeoutMs) {
+        this.removeSession(session);
+        expired.push(session.id);
+      }
+    }
+
+    if (expired.length > 0) {
+      this.logger.log(`Expired ${expired.length} idle session(s)`);
+    }
+
+    return expired;
+  }
+
+  summarize(session: ConsensusSession): SessionSummary {
+    const state = session.engine.getSystemState();
+    return {
+      id: session.id,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastAccessedAt: new Date(session.lastAccessedAt).toISOString(),
+      expiresAt: session.id === DEFAULT_SESSION_ID
+        ? null
+        : new Date(session.lastAccessedAt + this.idleTimeoutMs).toISOString(),
+      running: session.engine.isConsensusRunning(),
+      isComplete: state.isComplete,
+      processCount: state.processes.length
+    };
+  }
+
+  private removeSession(session: ConsensusSession): void {
+    this.sessions.delete(session.id);
+    this.logger.log(`Session ${session.id} deleted`);
+    this.events.emit('deleted', session);
+    session.engine.events.removeAllListeners();
+    session.engine.dispose();
+  }
+}
@@ -0,0 +1,53 @@
+import { 
+  Controller, 
+  Get, 
+  Delete,
+  Param,
+  HttpCode
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { Request } from 'express';
+import { BaseConsensusController } from './base-consensus.controller';
+import { ConsensusService } from './consensus.service';
+import { SessionRegistryService, SessionSummary } from './session-registry.service';
+
+/**
+ * REST API Controller for a single simulation session
+ * Mirrors every /consensus engine route under /consensus/sessions/:id
+ */
+@ApiTags('sessions')
+@ApiParam({ name: 'id', description: 'Session ID' })
+@Controller('consensus/sessions/:id')
+export class SessionController extends BaseConsensusController {
+  constructor(private readonly sessionRegistry: SessionRegistryService) {
+    super();
+  }
+
+  protected resolveEngine(request: Request): ConsensusService {
+    return this.sessionRegistry.getSession(request.params.id).engine;
+  }
+
+  /**
+   * Get session details
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get session details' })
+  @ApiResponse({ status: 200, description: 'Session details' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  getSession(@Param('id') id: string): SessionSummary {
+    return this.sessionRegistry.summarize(this.sessionRegistry.getSession(id));
+  }
+
+  /**
+   * Delete a session and its engine
+   */
+  @Delete()
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete a session' })
+  @ApiResponse({ status: 204, description: 'Session deleted' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  @ApiResponse({ status: 409, description: 'Session is running' })
+  deleteSession(@Param('id') id: string): void {
+    this.sessionRegistry.deleteSession(id);
+  }
+}
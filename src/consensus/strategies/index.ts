@@ -0,0 +1,91 @@
+import { ConsensusInputError } from '../errors';
+import { WantedColorStrategy, WantedColorStrategyName, WANTED_COLOR_STRATEGIES, DEFAULT_WANTED_COLOR_STRATEGY } from './wanted-color-strategy';
+import { PartnerSelectionStrategy, PartnerSelectionConfig, PARTNER_SELECTION_STRATEGIES, DEFAULT_SCORING_WEIGHTS } from './partner-selection-strategy';
+import {
+  ScoringPartnerStrategy,
+  RoundRobinPartnerStrategy,
+  RandomPartnerStrategy,
+  AdaptivePartnerStrategy
+} from './partner-selection.strategies';
+import {
+  BottomOfStackStrategy,
+  MajorityStrategy,
+  MajorityIdTiebreakStrategy,
+  PriorityTableStrategy,
+  LeastContestedStrategy
+} from './wanted-color.strategies';
+
+export {
+  WantedColorStrategy,
+  WantedColorStrategyName,
+  WantedColorContext,
+  WANTED_COLOR_STRATEGIES,
+  DEFAULT_WANTED_COLOR_STRATEGY,
+  countColors
+} from './wanted-color-strategy';
+export {
+  BottomOfStackStrategy,
+  MajorityStrategy,
+  MajorityIdTiebreakStrategy,
+  PriorityTableStrategy,
+  LeastContestedStrategy
+} from './wanted-color.strategies';
+export {
+  PartnerSelectionStrategy,
+  PartnerSelectionStrategyName,
+  PartnerSelectionConfig,
+  ScoringWeights,
+  PARTNER_SELECTION_STRATEGIES,
+  DEFAULT_SCORING_WEIGHTS,
+  scorePartner,
+  nextInRotation
+} from './partner-selection-strategy';
+export {
+  ScoringPartnerStrategy,
+  RoundRobinPartnerStrategy,
+  RandomPartnerStrategy,
+  AdaptivePartnerStrategy
+} from './partner-selection.strategies';
+
+/**
+ * Built-in wanted-color strategies by name; a new idea needs only a class and an entry here
+ */
+const WANTED_COLOR_REGISTRY: Record<WantedColorStrategyName, () => WantedColorStrategy> = {
+  'bottom-of-stack': () => new BottomOfStackStrategy(),
+  'majority': () => new MajorityStrategy(),
+  'majority-id-tiebreak': () => new MajorityIdTiebreakStrategy(),
+  'priority-table': () => new PriorityTableStrategy(),
+  'least-contested': () => new LeastContestedStrategy()
+};
+
+/**
+ * Build the wanted-color strategy for a run; bottom-of-stack when none is named
+ */
+export function createWantedColorStrategy(name: WantedColorStrategyName = DEFAULT_WANTED_COLOR_STRATEGY): WantedColorStrategy {
+  if (!WANTED_COLOR_STRATEGIES.includes(name)) {
+    throw new ConsensusInputError(`Unknown wanted-color strategy "${name}" (available: ${WANTED_COLOR_STRATEGIES.join(', ')})`);
+  }
+  return WANTED_COLOR_REGISTRY[name]();
+}
+
+/**
+ * Build a fresh partner selection strategy for a run; scoring with the default weights when none is configured
+ */
+export function createPartnerSelectionStrategy(config?: PartnerSelectionConfig): PartnerSelectionStrategy {
+  const weights = { ...DEFAULT_SCORING_WEIGHTS, ...config?.weights };
+  switch (config?.type) {
+    case undefined:
+    case 'scoring':
+      return new ScoringPartnerStrategy(weights);
+    case 'round-robin':
+      return new RoundRobinPartnerStrategy();
+    case 'random':
+      return new RandomPartnerStrategy(config.seed ?? 0);
+    case 'adaptive':
+      return new AdaptivePartnerStrategy(weights);
+    default:
+      throw new ConsensusInputError(
+        `Unknown partner selection strategy "${(config as PartnerSelectionConfig).type}" (available: ${PARTNER_SELECTION_STRATEGIES.join(', ')})`
+      );
+  }
+}
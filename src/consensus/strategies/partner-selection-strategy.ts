@@ -0,0 +1,78 @@
+import { Message, ProcessId, ProcessState } from '../types';
+
+export const PARTNER_SELECTION_STRATEGIES = ['scoring', 'round-robin', 'random', 'adaptive'] as const;
+
+export type PartnerSelectionStrategyName = typeof PARTNER_SELECTION_STRATEGIES[number];
+
+/**
+ * Weights of the partner score: balls of our wanted color the candidate holds, the penalty when it wants
+ * the same color, and balls we hold that the candidate wants and we do not
+ */
+export interface ScoringWeights {
+  wantedBall: number;
+  conflictPenalty: number;
+  mutualBall: number;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = { wantedBall: 3, conflictPenalty: 20, mutualBall: 2 };
+
+/**
+ * Per-run choice of partner selection
+ */
+export interface PartnerSelectionConfig {
+  type: PartnerSelectionStrategyName;
+  seed?: number;                       // random
+  weights?: Partial<ScoringWeights>;   // scoring and adaptive
+}
+
+/**
+ * Decides which active process a process asks next
+ * Built fresh for every run; implementations must be deterministic given their configuration (and seed)
+ */
+export interface PartnerSelectionStrategy {
+  readonly description: string;
+
+  /**
+   * ID of the partner to ask, out of the (non-empty) active candidates in ascending ID order
+   */
+  choose(process: ProcessState, candidates: readonly ProcessState[]): ProcessId;
+
+  /**
+   * Observe a message its sender just sent, and one its recipient just received (before handling it)
+   */
+  messageSent?(message: Message): void;
+  messageDelivered?(message: Message): void;
+}
+
+/**
+ * How good a partner the candidate is for the process; higher is better, 0 without a wanted color
+ */
+export function scorePartner(process: ProcessState, candidate: ProcessState, weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS): number {
+  if (!process.wanted) return 0;
+
+  let score = 0;
+
+  // Positive score: candidate has balls of the color we want
+  score += candidate.stack.filter(c => c === process.wanted).length * weights.wantedBall;
+
+  // Negative score: candidate wants the same color we want (conflict)
+  if (candidate.wanted === process.wanted) {
+    score -= weights.conflictPenalty;
+  }
+
+  // Positive score: we have balls of the color the candidate wants, good mutual exchange
+  if (candidate.wanted) {
+    const unwantedByUs = process.stack.filter(c => c === candidate.wanted && c !== process.wanted).length;
+    score += unwantedByUs * weights.mutualBall;
+  }
+
+  return score;
+}
+
+/**
+ * The candidate after the process's current partner, wrapping around; the first one without a current partner
+ */
+export function nextInRotation(process: ProcessState, candidates: readonly ProcessState[]): ProcessId {
+  const currentIndex = process.partner ? candidates.findIndex(p => p.id === process.partner) : -1;
+  return candidates[(currentIndex + 1) % candidates.length].id;
+}
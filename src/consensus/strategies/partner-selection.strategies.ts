@@ -0,0 +1,113 @@
+import { Message, ProcessId, ProcessState } from '../types';
+import { SeededRandom } from '../utils/seeded-random';
+import { PartnerSelectionStrategy, ScoringWeights, scorePartner, nextInRotation } from './partner-selection-strategy';
+
+/**
+ * The best-scoring candidate; round-robin when no candidate scores above zero (the engine's original behavior)
+ */
+export class ScoringPartnerStrategy implements PartnerSelectionStrategy {
+  readonly description = 'scoring';
+
+  constructor(private readonly weights: ScoringWeights) {}
+
+  choose(process: ProcessState, candidates: readonly ProcessState[]): ProcessId {
+    let bestPartner: ProcessState | null = null;
+    let bestScore = -1;
+
+    for (const candidate of candidates) {
+      const score = scorePartner(process, candidate, this.weights);
+      if (score > bestScore) {
+        bestScore = score;
+        bestPartner = candidate;
+      }
+    }
+
+    return bestPartner && bestScore > 0 ? bestPartner.id : nextInRotation(process, candidates);
+  }
+}
+
+/**
+ * Every active process in turn
+ */
+export class RoundRobinPartnerStrategy implements PartnerSelectionStrategy {
+  readonly description = 'round-robin';
+
+  choose(process: ProcessState, candidates: readonly ProcessState[]): ProcessId {
+    return nextInRotation(process, candidates);
+  }
+}
+
+/**
+ * A uniformly random active process, reproducible from the seed
+ */
+export class RandomPartnerStrategy implements PartnerSelectionStrategy {
+  readonly description: string;
+  private readonly random: SeededRandom;
+
+  constructor(seed: number) {
+    this.random = new SeededRandom(seed);
+    this.description = `random(seed=${seed})`;
+  }
+
+  choose(process: ProcessState, candidates: readonly ProcessState[]): ProcessId {
+    return candidates[this.random.nextInt(candidates.length)].id;
+  }
+}
+
+/**
+ * The candidate most likely to fulfil a request, learned from the process's own experience:
+ * REQUESTs it sent to each partner against SENDs it received from them, smoothed so untried partners
+ * start at one half. Ties go to the better score, then to round-robin order
+ */
+export class AdaptivePartnerStrategy implements PartnerSelectionStrategy {
+  readonly description = 'adaptive';
+  private readonly asked = new Map<string, number>();
+  private readonly fulfilled = new Map<string, number>();
+
+  constructor(private readonly weights: ScoringWeights) {}
+
+  choose(process: ProcessState, candidates: readonly ProcessState[]): ProcessId {
+    const rotation = nextInRotation(process, candidates);
+    const start = candidates.findIndex(p => p.id === rotation);
+    const ordered = [...candidates.slice(start), ...candidates.slice(0, start)];
+
+    let best = ordered[0];
+    let bestRate = this.fulfilmentRate(process.id, best.id);
+    let bestScore = scorePartner(process, best, this.weights);
+    for (const candidate of ordered.slice(1)) {
+      const rate = this.fulfilmentRate(process.id, candidate.id);
+      const score = scorePartner(process, candidate, this.weights);
+      if (rate > bestRate || (rate === bestRate && score > bestScore)) {
+        best = candidate;
+        bestRate = rate;
+        bestScore = score;
+      }
+    }
+    return best.id;
+  }
+
+  messageSent(message: Message): void {
+    if (message.type === 'REQUEST') {
+      this.increment(this.asked, message.from, message.to);
+    }
+  }
+
+  messageDelivered(message: Message): void {
+    if (message.type === 'SEND') {
+      this.increment(this.fulfilled, message.to, message.from);
+    }
+  }
+
+  /**
+   * Estimated chance that `partner` answers a request from `process` with a ball
+   */
+  fulfilmentRate(process: ProcessId, partner: ProcessId): number {
+    const key = `${process}->${partner}`;
+    return ((this.fulfilled.get(key) ?? 0) + 1) / ((this.asked.get(key) ?? 0) + 2);
+  }
+
+  private increment(counts: Map<string, number>, process: ProcessId, partner: ProcessId): void {
+    const key = `${process}->${partner}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+}
@@ -0,0 +1,42 @@
+import { Color, ColorPriorityTable, Message, ProcessState } from '../types';
+
+export const WANTED_COLOR_STRATEGIES = [
+  'bottom-of-stack',
+  'majority',
+  'majority-id-tiebreak',
+  'priority-table',
+  'least-contested'
+] as const;
+
+export type WantedColorStrategyName = typeof WANTED_COLOR_STRATEGIES[number];
+
+export const DEFAULT_WANTED_COLOR_STRATEGY: WantedColorStrategyName = 'bottom-of-stack';
+
+/**
+ * What a process may look at when deciding which color to collect
+ */
+export interface WantedColorContext {
+  messageQueue: readonly Message[];
+  priorities: ColorPriorityTable;
+}
+
+/**
+ * Decides which color a process collects
+ * Only called for processes holding at least one ball; implementations must be deterministic
+ */
+export interface WantedColorStrategy {
+  readonly name: WantedColorStrategyName;
+
+  choose(process: ProcessState, context: WantedColorContext): Color;
+}
+
+/**
+ * Balls per color in a stack, in order of first appearance
+ */
+export function countColors(stack: readonly Color[]): Map<Color, number> {
+  const counts = new Map<Color, number>();
+  for (const color of stack) {
+    counts.set(color, (counts.get(color) || 0) + 1);
+  }
+  return counts;
+}
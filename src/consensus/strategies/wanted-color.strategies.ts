@@ -0,0 +1,88 @@
+import { Color, ProcessState } from '../types';
+import { WantedColorContext, WantedColorStrategy, countColors } from './wanted-color-strategy';
+
+/**
+ * The color at the bottom of the stack, whatever the counts (the engine's original behavior)
+ */
+export class BottomOfStackStrategy implements WantedColorStrategy {
+  readonly name = 'bottom-of-stack';
+
+  choose(process: ProcessState): Color {
+    return process.stack[0];
+  }
+}
+
+/**
+ * The color the process holds most of; ties go to the color nearest the bottom of the stack
+ */
+export class MajorityStrategy implements WantedColorStrategy {
+  readonly name = 'majority';
+
+  choose(process: ProcessState): Color {
+    let best: [Color, number] | null = null;
+    for (const entry of Array.from(countColors(process.stack))) {
+      if (!best || entry[1] > best[1]) best = entry;
+    }
+    return best![0];
+  }
+}
+
+/**
+ * The color the process holds most of; ties go to the color ranked highest in the process's priority table,
+ * which is rotated by process ID, so tied processes tend to split the colors between them
+ */
+export class MajorityIdTiebreakStrategy implements WantedColorStrategy {
+  readonly name = 'majority-id-tiebreak';
+
+  choose(process: ProcessState, { priorities }: WantedColorContext): Color {
+    const counts = countColors(process.stack);
+    const most = Math.max(...Array.from(counts.values()));
+    const tied = Array.from(counts.keys()).filter(color => counts.get(color) === most);
+    return rankByPriority(tied, priorities[process.id] || [])[0];
+  }
+}
+
+/**
+ * The held color ranked highest in the process's priority table, whatever the counts
+ */
+export class PriorityTableStrategy implements WantedColorStrategy {
+  readonly name = 'priority-table';
+
+  choose(process: ProcessState, { priorities }: WantedColorContext): Color {
+    return rankByPriority(Array.from(countColors(process.stack).keys()), priorities[process.id] || [])[0];
+  }
+}
+
+/**
+ * The held color the fewest other processes are requesting right now (REQUESTs in transit, as far as the
+ * process can see them), then the one the process holds most of, then the one nearest the bottom of the stack
+ */
+export class LeastContestedStrategy implements WantedColorStrategy {
+  readonly name = 'least-contested';
+
+  choose(process: ProcessState, { messageQueue }: WantedColorContext): Color {
+    const contention = new Map<Color, number>();
+    for (const message of messageQueue) {
+      if (message.type === 'REQUEST' && message.color && message.from !== process.id) {
+        contention.set(message.color, (contention.get(message.color) || 0) + 1);
+      }
+    }
+
+    const counts = Array.from(countColors(process.stack));
+    counts.sort(([a, countA], [b, countB]) =>
+      (contention.get(a) || 0) - (contention.get(b) || 0) || countB - countA
+    );
+    return counts[0][0];
+  }
+}
+
+/**
+ * Colors in the order of a priority table; colors missing from the table keep their relative order, last
+ */
+function rankByPriority(colors: Color[], table: Color[]): Color[] {
+  const rank = (color: Color) => {
+    const index = table.indexOf(color);
+    return index === -1 ? table.length : index;
+  };
+  return [...colors].sort((a, b) => rank(a) - rank(b));
+}
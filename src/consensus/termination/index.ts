@@ -0,0 +1,7 @@
+export {
+  SafraDetector,
+  SafraToken,
+  TerminationKind,
+  TerminationStatus,
+  ProcessTerminationState
+} from './safra-detector';
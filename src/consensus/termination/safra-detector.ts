@@ -0,0 +1,285 @@
+import { Message, ProcessId } from '../types';
+
+/**
+ * How a run ended: termination announced by the detection protocol, or given up on by the engine
+ */
+export type TerminationKind = 'detected' | 'forced-stagnation' | 'forced-iteration-limit';
+
+/**
+ * The token as it travels: what the processes it passed added up, and whether any of them was black
+ * `announced` marks the message that tells processes hosted elsewhere that termination was detected
+ */
+export interface SafraToken {
+  count: number;
+  black: boolean;
+  announced?: boolean;
+}
+
+export interface ProcessTerminationState {
+  id: ProcessId;
+  counter: number;    // basic messages sent minus basic messages received
+  black: boolean;     // received a basic message since it last forwarded the token
+}
+
+/**
+ * Snapshot of the termination detector since the last reset
+ */
+export interface TerminationStatus {
+  protocol: 'safra';
+  ring: ProcessId[];
+  initiator: ProcessId | null;
+  detected: boolean;
+  waves: number;                      // token rounds started by the initiator
+  detectedInWave: number | null;
+  tokenHolder: ProcessId | null;      // null while the token is in transit (or after detection)
+  tokenHops: number;                  // TOKEN messages sent
+  token: SafraToken | null;           // the circulating token, null between waves
+  processes: ProcessTerminationState[];  // the processes hosted here
+  retired: number;                    // counters left behind by processes that left the ring
+}
+
+/**
+ * Safra's token-ring termination detection, run alongside the sorting protocol
+ * Every process counts basic messages (REQUEST, SEND, DONE, INFO) sent minus received and turns black on receipt.
+ * A single token travels the ring of process IDs in ascending order; a process forwards it only while passive,
+ * adding its counter and blackening the token if it is black itself. The initiator (lowest ID) announces
+ * termination when the token comes back white, it is white itself and the counters sum to zero;
+ * otherwise it starts another wave
+ *
+ * Passivity is decided by the caller (the engine treats a process as passive once it is DONE).
+ * Receipts are counted once per sender and message ID, so duplicates and retransmissions do not unbalance the counters;
+ * a message lost for good leaves its sender's counter positive and termination is never announced
+ *
+ * The token travels inside TOKEN messages, so the ring may span several engines: each keeps counters for the
+ * processes it hosts only. Termination is detected by the initiator's engine, which passes the announcement on
+ * to the processes hosted elsewhere, in ring order
+ *
+ * Processes may join and leave the ring. A departing process's counter is retired but still counts, as do
+ * messages it sent afterwards (passed on by the network) or received afterwards (discarded), and a token
+ * it held or was sent goes to its successor
+ */
+export class SafraDetector {
+  private ring: ProcessId[];
+  private readonly counters = new Map<ProcessId, number>();
+  private readonly black = new Set<ProcessId>();
+  private readonly received = new Set<string>();
+  private readonly departed = new Set<ProcessId>();
+  private retired = 0;
+
+  private holder: ProcessId | null;
+  private token: SafraToken | null = null;
+  private detected = false;
+  private waves = 0;
+  private detectedInWave: number | null = null;
+  private tokenHops = 0;
+
+  constructor(processIds: ProcessId[], hosted: ProcessId[] = processIds) {
+    this.ring = [...processIds].sort((a, b) => a - b);
+    for (const id of this.ring.filter(id => hosted.includes(id))) {
+      this.counters.set(id, 0);
+    }
+    this.holder = this.initialHolder();
+  }
+
+  isTerminated(): boolean {
+    return this.detected;
+  }
+
+  /**
+   * A basic message left its sender
+   */
+  recordSend(message: Message): void {
+    if (message.type === 'TOKEN') return;
+    if (this.departed.has(message.from)) {
+      this.retired++;
+      return;
+    }
+    if (!this.counters.has(message.from)) return;
+    this.counters.set(message.from, this.counters.get(message.from)! + 1);
+  }
+
+  /**
+   * The network lost every copy of a basic message: it will never be received, so its send no longer counts
+   */
+  recordLoss(message: Message): void {
+    if (message.type === 'TOKEN') return;
+    if (this.departed.has(message.from)) {
+      this.retired--;
+      return;
+    }
+    if (!this.counters.has(message.from)) return;
+    this.counters.set(message.from, this.counters.get(message.from)! - 1);
+  }
+
+  /**
+   * A basic message reached its recipient; copies of an already received message are ignored
+   */
+  recordReceive(message: Message): void {
+    if (message.type === 'TOKEN') return;
+    if (!this.counters.has(message.to) && !this.departed.has(message.to)) return;
+    if (message.id !== undefined) {
+      const key = `${message.from}:${message.id}`;
+      if (this.received.has(key)) return;
+      this.received.add(key);
+    }
+
+    if (this.departed.has(message.to)) {
+      this.retired--;
+      return;
+    }
+    this.counters.set(message.to, this.counters.get(message.to)! - 1);
+    this.black.add(message.to);
+  }
+
+  /**
+   * The token reached its next process, or the successor of one that has left; an announcement ends detection here too
+   */
+  receiveToken(message: Message): void {
+    this.holder = this.departed.has(message.to) ? this.successorOf(message.to) : message.to;
+    if (message.token) {
+      this.token = { ...message.token };
+    }
+    if (this.token?.announced && !this.detected) {
+      this.detected = true;
+    }
+  }
+
+  /**
+   * State was changed from outside the protocol: every process turns black, so no wave
+   * that saw the old state can announce termination, and a detection already made is withdrawn
+   */
+  invalidate(): void {
+    for (const id of this.ring) {
+      this.black.add(id);
+    }
+    if (this.detected) {
+      this.detected = false;
+      this.detectedInWave = null;
+      this.token = null;
+      this.holder = this.initialHolder();
+    }
+  }
+
+  /**
+   * A process joined the ring; it starts black, so the wave under way cannot announce termination
+   */
+  join(id: ProcessId): void {
+    this.ring = [...this.ring, id].sort((a, b) => a - b);
+    this.counters.set(id, 0);
+    this.black.add(id);
+    if (!this.token && this.holder !== null) {
+      this.holder = this.initialHolder(); // between waves the initiator holds the token, and it may be the newcomer
+    }
+  }
+
+  /**
+   * A process left the ring: its counter is retired, and a token it held passes to its successor
+   * (to the new initiator before the first wave)
+   */
+  leave(id: ProcessId): void {
+    this.ring = this.ring.filter(other => other !== id);
+    this.retired += this.counters.get(id) ?? 0;
+    this.counters.delete(id);
+    this.black.delete(id);
+    this.departed.add(id);
+    if (this.holder === id) {
+      this.holder = this.token ? this.successorOf(id) : this.initialHolder();
+    }
+  }
+
+  /**
+   * Let the token holder act if it is passive: forward the token, judge a completed wave or start a new one
+   * Returns the TOKEN message to send, if any
+   */
+  advance(isPassive: (id: ProcessId) => boolean): Message | null {
+    const holder = this.holder;
+    if (holder !== null && this.token?.announced) return this.announceFrom(holder);
+    if (this.detected || holder === null || !isPassive(holder)) return null;
+
+    const initiator = this.ring[0];
+    if (holder !== initiator) {
+      const token = this.token!;
+      token.count += this.counters.get(holder)!;
+      token.black = token.black || this.black.has(holder);
+      this.black.delete(holder);
+      return this.pass(holder);
+    }
+
+    if (this.token && this.isWaveConclusive(this.token)) {
+      this.announce();
+      return this.token ? this.announceFrom(initiator) : null;
+    }
+
+    this.waves++;
+    this.black.delete(initiator);
+    this.token = { count: 0, black: false };
+    if (this.ring.length === 1) {
+      if (this.isWaveConclusive(this.token)) this.announce();
+      return null;
+    }
+    return this.pass(initiator);
+  }
+
+  getStatus(): TerminationStatus {
+    return {
+      protocol: 'safra',
+      ring: [...this.ring],
+      initiator: this.ring[0] ?? null,
+      detected: this.detected,
+      waves: this.waves,
+      detectedInWave: this.detectedInWave,
+      tokenHolder: this.holder,
+      tokenHops: this.tokenHops,
+      token: this.token && !this.token.announced ? { ...this.token } : null,
+      processes: Array.from(this.counters, ([id, counter]) => ({ id, counter, black: this.black.has(id) })),
+      retired: this.retired
+    };
+  }
+
+  private isWaveConclusive(token: { count: number; black: boolean }): boolean {
+    const initiator = this.ring[0];
+    return !token.black && !this.black.has(initiator) && token.count + this.counters.get(initiator)! + this.retired === 0;
+  }
+
+  /**
+   * Termination is detected; processes hosted elsewhere still have to be told
+   */
+  private announce(): void {
+    this.detected = true;
+    this.detectedInWave = this.waves;
+    this.token = this.ring.every(id => this.counters.has(id)) ? null : { count: 0, black: false, announced: true };
+  }
+
+  /**
+   * Pass the announcement to the next process in ring order that is hosted elsewhere, if any is left
+   */
+  private announceFrom(holder: ProcessId): Message | null {
+    const next = this.ring.slice(this.ring.indexOf(holder) + 1).find(id => !this.counters.has(id));
+    if (next === undefined) {
+      this.holder = null;
+      return null;
+    }
+    return this.pass(holder, next);
+  }
+
+  private pass(from: ProcessId, to = this.ring[(this.ring.indexOf(from) + 1) % this.ring.length]): Message {
+    this.holder = null;
+    this.tokenHops++;
+    return { type: 'TOKEN', from, to, timestamp: Date.now(), token: { ...this.token! } };
+  }
+
+  /**
+   * The first process after `id` in ring order, wrapping around; `id` need not be in the ring
+   */
+  private successorOf(id: ProcessId): ProcessId | null {
+    return this.ring.find(other => other > id) ?? this.ring[0] ?? null;
+  }
+
+  /**
+   * The initiator holds the token before the first wave, wherever it is hosted
+   */
+  private initialHolder(): ProcessId | null {
+    const initiator = this.ring[0];
+    return initiator !== undefined && this.counters.has(initiator) ? initiator : null;
+  }
+}
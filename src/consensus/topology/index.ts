@@ -0,0 +1,90 @@
+import { ProcessId } from '../types';
+import { ConsensusInputError } from '../errors';
+import { Topology, TopologyConfig, TOPOLOGY_TYPES } from './topology';
+
+export { Topology, TopologyConfig, TopologyGraph, TopologyType, TOPOLOGY_TYPES } from './topology';
+
+/**
+ * Build the topology of a run over `processIds`; the complete graph when none is configured
+ * Rejects configurations naming processes the run does not have, and graphs that leave a process unreachable
+ */
+export function createTopology(config: TopologyConfig | undefined, processIds: ProcessId[]): Topology {
+  const ids = [...processIds].sort((a, b) => a - b);
+  const links = new Map<ProcessId, Set<ProcessId>>(ids.map(id => [id, new Set()]));
+  const link = (a: ProcessId, b: ProcessId) => {
+    links.get(a)!.add(b);
+    links.get(b)!.add(a);
+  };
+
+  let topology: Topology;
+  switch (config?.type) {
+    case undefined:
+    case 'complete':
+      ids.forEach((a, i) => ids.slice(i + 1).forEach(b => link(a, b)));
+      return new Topology('complete', 'complete', sorted(links, ids));
+    case 'ring':
+    case 'line':
+      ids.slice(1).forEach((id, i) => link(ids[i], id));
+      if (config.type === 'ring' && ids.length > 2) {
+        link(ids[ids.length - 1], ids[0]);
+      }
+      topology = new Topology(config.type, config.type, sorted(links, ids));
+      break;
+    case 'star': {
+      const center = config.center ?? ids[0];
+      if (center !== undefined && !links.has(center)) {
+        throw new ConsensusInputError(`topology.center names process ${center}, which is not in the distributions`);
+      }
+      ids.filter(id => id !== center).forEach(id => link(center, id));
+      topology = new Topology('star', `star(center=${center})`, sorted(links, ids), { center });
+      break;
+    }
+    case 'grid': {
+      const columns = config.columns ?? Math.max(1, Math.ceil(Math.sqrt(ids.length)));
+      if (!Number.isInteger(columns) || columns < 1) {
+        throw new ConsensusInputError('topology.columns must be a positive integer');
+      }
+      ids.forEach((id, i) => {
+        if ((i + 1) % columns !== 0 && i + 1 < ids.length) link(id, ids[i + 1]);
+        if (i + columns < ids.length) link(id, ids[i + columns]);
+      });
+      topology = new Topology('grid', `grid(columns=${columns})`, sorted(links, ids), { columns });
+      break;
+    }
+    case 'adjacency':
+      for (const [key, neighbours] of Object.entries(config.adjacency ?? {})) {
+        const id = Number(key);
+        if (!links.has(id)) {
+          throw new ConsensusInputError(`topology.adjacency.${key} names a process that is not in the distributions`);
+        }
+        if (!Array.isArray(neighbours)) {
+          throw new ConsensusInputError(`topology.adjacency.${key} must be an array of process IDs`);
+        }
+        for (const neighbour of neighbours) {
+          if (neighbour === id) {
+            throw new ConsensusInputError(`topology.adjacency.${key} links process ${id} to itself`);
+          }
+          if (!links.has(neighbour)) {
+            throw new ConsensusInputError(`topology.adjacency.${key} names process ${neighbour}, which is not in the distributions`);
+          }
+          link(id, neighbour);
+        }
+      }
+      topology = new Topology('adjacency', 'adjacency', sorted(links, ids));
+      break;
+    default:
+      throw new ConsensusInputError(
+        `Unknown topology "${(config as TopologyConfig).type}" (available: ${TOPOLOGY_TYPES.join(', ')})`
+      );
+  }
+
+  const unreachable = ids.slice(1).filter(id => topology.routeBetween(ids[0], id).length === 0 && !topology.areNeighbours(ids[0], id));
+  if (unreachable.length > 0) {
+    throw new ConsensusInputError(`The ${topology.description} topology leaves processes ${unreachable.join(', ')} unreachable from process ${ids[0]}`);
+  }
+  return topology;
+}
+
+function sorted(links: Map<ProcessId, Set<ProcessId>>, ids: ProcessId[]): Map<ProcessId, ProcessId[]> {
+  return new Map(ids.map(id => [id, Array.from(links.get(id)!).sort((a, b) => a - b)]));
+}
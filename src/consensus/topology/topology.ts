@@ -0,0 +1,114 @@
+import { ProcessId } from '../types';
+
+export const TOPOLOGY_TYPES = ['complete', 'ring', 'line', 'star', 'grid', 'adjacency'] as const;
+
+export type TopologyType = typeof TOPOLOGY_TYPES[number];
+
+/**
+ * Per-run choice of who may talk to whom directly; links are undirected
+ * ring, line and grid take the processes in ascending ID order, the grid row by row
+ */
+export interface TopologyConfig {
+  type: TopologyType;
+  center?: ProcessId;                           // star; default the lowest ID
+  columns?: number;                             // grid; default the square root of the process count, rounded up
+  adjacency?: Record<ProcessId, ProcessId[]>;   // adjacency; a link listed on either side counts for both
+}
+
+/**
+ * The communication graph as the UI draws it
+ */
+export interface TopologyGraph {
+  type: TopologyType;
+  description: string;
+  nodes: ProcessId[];
+  edges: [ProcessId, ProcessId][];     // each link once, lower ID first
+  columns?: number;                    // grid
+  center?: ProcessId;                  // star
+}
+
+/**
+ * Links between the processes of a run and the shortest routes between those that are not linked
+ * In a complete graph every pair is linked, so nothing is ever relayed
+ */
+export class Topology {
+  private readonly routes = new Map<ProcessId, Map<ProcessId, ProcessId[]>>();
+
+  constructor(
+    readonly type: TopologyType,
+    readonly description: string,
+    private readonly links: Map<ProcessId, ProcessId[]>,
+    private readonly layout: Pick<TopologyGraph, 'columns' | 'center'> = {}
+  ) {
+    for (const id of links.keys()) {
+      this.routes.set(id, this.shortestPathsFrom(id));
+    }
+  }
+
+  /**
+   * Whether some processes may not talk to each other directly; a ring of three, for one, is complete
+   */
+  get restricted(): boolean {
+    return Array.from(this.links.values()).some(neighbours => neighbours.length < this.links.size - 1);
+  }
+
+  /**
+   * Hops on the longest of the shortest routes, 1 for a complete graph (or a single process)
+   */
+  get diameter(): number {
+    let longest = 1;
+    for (const paths of this.routes.values()) {
+      for (const path of paths.values()) {
+        longest = Math.max(longest, path.length);
+      }
+    }
+    return longest;
+  }
+
+  neighboursOf(id: ProcessId): ProcessId[] {
+    return [...(this.links.get(id) ?? [])];
+  }
+
+  areNeighbours(a: ProcessId, b: ProcessId): boolean {
+    return this.links.get(a)?.includes(b) ?? false;
+  }
+
+  /**
+   * The processes a message from `from` to `to` passes through on a shortest route, nearest first;
+   * empty between neighbours and for processes outside the topology
+   */
+  routeBetween(from: ProcessId, to: ProcessId): ProcessId[] {
+    const path = this.routes.get(from)?.get(to);
+    return path ? path.slice(0, -1) : [];
+  }
+
+  getGraph(): TopologyGraph {
+    const edges: [ProcessId, ProcessId][] = [];
+    for (const [id, neighbours] of this.links) {
+      for (const neighbour of neighbours) {
+        if (id < neighbour) edges.push([id, neighbour]);
+      }
+    }
+    return { type: this.type, description: this.description, nodes: Array.from(this.links.keys()), edges, ...this.layout };
+  }
+
+  /**
+   * Breadth-first from `source`: for every reachable process, the path to it without `source` itself
+   * Neighbours are explored in ascending ID order, so routes are deterministic
+   */
+  private shortestPathsFrom(source: ProcessId): Map<ProcessId, ProcessId[]> {
+    const paths = new Map<ProcessId, ProcessId[]>([[source, []]]);
+    const frontier = [source];
+    while (frontier.length > 0) {
+      const current = frontier.shift()!;
+      for (const neighbour of this.links.get(current) ?? []) {
+        if (!paths.has(neighbour)) {
+          paths.set(neighbour, [...paths.get(current)!, neighbour]);
+          frontier.push(neighbour);
+        }
+      }
+    }
+    paths.delete(source);
+    return paths;
+  }
+}
@@ -0,0 +1 @@
+export { MessageTracer, TraceEvent, TraceHeader, VectorClock, MAX_TRACE_EVENTS, toJsonLines } from './message-tracer';
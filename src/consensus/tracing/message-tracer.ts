@@ -0,0 +1,155 @@
+import { Message, MessageType, ProcessId, Color, RunOptions } from '../types';
+
+export type VectorClock = Record<ProcessId, number>;
+
+export const MAX_TRACE_EVENTS = 100000;
+
+/**
+ * One send or delivery in a run
+ * A send's causal parent is the message whose delivery triggered it (null for spontaneous sends);
+ * a delivery's causal parent is the message itself
+ */
+export interface TraceEvent {
+  kind: 'send' | 'deliver';
+  seq: number;
+  messageId: number;
+  type: MessageType;
+  from: ProcessId;
+  to: ProcessId;
+  color?: Color;
+  process: ProcessId;       // sender for sends, recipient for deliveries
+  lamport: number;          // that process's clock after the event
+  vector?: VectorClock;
+  parentId: number | null;
+  wallTime: number;
+}
+
+/**
+ * First line of an exported trace: everything needed to interpret (or re-run) the events that follow
+ */
+export interface TraceHeader {
+  kind: 'run';
+  runId: string | null;
+  status: string;
+  scheduler: string;
+  options: RunOptions;
+  palette: Color[];
+  initialDistributions: Record<ProcessId, Color[]>;
+  eventCount: number;
+  truncated: boolean;
+}
+
+/**
+ * Serialize a trace as JSON Lines: the header followed by one event per line
+ */
+export function toJsonLines(header: TraceHeader, events: TraceEvent[]): string {
+  return [header, ...events].map(line => JSON.stringify(line)).join('\n') + '\n';
+}
+
+/**
+ * Per-process logical clocks and the send/deliver trace for a run
+ * Both Lamport and vector clocks are always maintained; vectors are only attached to messages and events when enabled
+ */
+export class MessageTracer {
+  private nextMessageId = 1;
+  private lamport = new Map<ProcessId, number>();
+  private vectors = new Map<ProcessId, VectorClock>();
+  private events: TraceEvent[] = [];
+  private truncated = false;
+
+  constructor(processIds: ProcessId[], private includeVectors = false) {
+    for (const id of processIds) {
+      this.lamport.set(id, 0);
+      this.vectors.set(id, Object.fromEntries(processIds.map(other => [other, 0])));
+    }
+  }
+
+  /**
+   * Start clocks for a process joining mid-run; the others learn of it through the timestamps it sends
+   */
+  addProcess(processId: ProcessId): void {
+    this.lamport.set(processId, 0);
+    this.vectors.set(processId, Object.fromEntries([...this.lamport.keys()].map(id => [id, 0])));
+  }
+
+  setVectorClocks(enabled: boolean): void {
+    this.includeVectors = enabled;
+  }
+
+  /**
+   * Tick the sender's clocks and stamp a newly sent message with an ID and its timestamps
+   */
+  recordSend(message: Message, parent: Message | null): void {
+    const lamport = this.tick(message.from);
+    message.id = this.nextMessageId++;
+    message.lamport = lamport;
+    if (this.includeVectors) {
+      message.vector = { ...this.vectors.get(message.from) };
+    }
+
+    this.record('send', message, message.from, lamport, parent?.id ?? null);
+  }
+
+  /**
+   * Merge the message's timestamps into the recipient's clocks
+   */
+  recordDelivery(message: Message): void {
+    const current = this.lamport.get(message.to) ?? 0;
+    this.lamport.set(message.to, Math.max(current, message.lamport ?? 0));
+
+    const vector = this.vectors.get(message.to);
+    if (vector && message.vector) {
+      for (const [id, value] of Object.entries(message.vector)) {
+        vector[Number(id)] = Math.max(vector[Number(id)] ?? 0, value);
+      }
+    }
+
+    const lamport = this.tick(message.to);
+    this.record('deliver', message, message.to, lamport, message.id ?? null);
+  }
+
+  getClock(processId: ProcessId): { lamport: number; vector: VectorClock } {
+    return { lamport: this.lamport.get(processId) ?? 0, vector: { ...this.vectors.get(processId) } };
+  }
+
+  getEvents(): TraceEvent[] {
+    return [...this.events];
+  }
+
+  isTruncated(): boolean {
+    return this.truncated;
+  }
+
+  private tick(processId: ProcessId): number {
+    const lamport = (this.lamport.get(processId) ?? 0) + 1;
+    this.lamport.set(processId, lamport);
+
+    const vector = this.vectors.get(processId);
+    if (vector) {
+      vector[processId] = (vector[processId] ?? 0) + 1;
+    }
+    return lamport;
+  }
+
+  private record(kind: TraceEvent['kind'], message: Message, process: ProcessId, lamport: number, parentId: number | null): void {
+    if (this.events.length >= MAX_TRACE_EVENTS) {
+      this.truncated = true;
+      return;
+    }
+
+    this.events.push({
+      kind,
+      seq: this.events.length + 1,
+      messageId: message.id ?? 0,
+      type: message.type,
+      from: message.from,
+      to: message.to,
+      ...(message.color !== undefined ? { color: message.color } : {}),
+      process,
+      lamport,
+      ...(this.includeVectors ? { vector: { ...this.vectors.get(process) } } : {}),
+      parentId,
+      wallTime: Date.now()
+    });
+  }
+}
@@ -0,0 +1,121 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { Message, ProcessId } from '../types';
+import { PeerConfig, PeerList } from './peer-list';
+import { PeerStatus, Transport, TransportStatus, TransportType } from './transport';
+
+export const INBOX_PATH = '/consensus/inbox';
+export const DEFAULT_QUIET_SPELL_MS = 1000;
+
+const MAX_ATTEMPTS = 5;
+const RETRY_DELAY_MS = 200; // times the attempt number
+
+/**
+ * The way to one other instance: messages leave one at a time, in the order they were sent,
+ * and are retried while the instance cannot be reached (it may not have started yet)
+ */
+class PeerLink {
+  private delivered = 0;
+  private failed = 0;
+  private pending = 0;
+  private lastError: string | null = null;
+  private outgoing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly peer: PeerConfig, private readonly signal: AbortSignal) {}
+
+  post(message: Message): void {
+    const body = JSON.stringify(message);
+    this.pending++;
+    this.outgoing = this.outgoing
+      .then(() => this.deliver(body, message))
+      .finally(() => this.pending--);
+  }
+
+  getStatus(): PeerStatus {
+    return {
+      id: this.peer.id,
+      url: this.peer.url,
+      delivered: this.delivered,
+      failed: this.failed,
+      pending: this.pending,
+      lastError: this.lastError
+    };
+  }
+
+  private async deliver(body: string, message: Message): Promise<void> {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS && !this.signal.aborted; attempt++) {
+      try {
+        const response = await fetch(`${this.peer.url.replace(/\/$/, '')}${INBOX_PATH}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body,
+          signal: this.signal
+        });
+        if (response.ok) {
+          this.delivered++;
+          return;
+        }
+        this.lastError = `HTTP ${response.status}: ${await response.text()}`;
+        if (response.status < 500) break; // refused for what it is: sending it again will not help
+      } catch (error) {
+        this.lastError = error instanceof Error ? error.message : String(error);
+      }
+      if (attempt < MAX_ATTEMPTS) {
+        await sleep(RETRY_DELAY_MS * attempt, undefined, { signal: this.signal }).catch(() => undefined);
+      }
+    }
+    if (this.signal.aborted) return;
+
+    this.failed++;
+    console.warn(`Gave up on ${message.type} from Process ${message.from} to Process ${message.to} at ${this.peer.url}: ${this.lastError}`);
+  }
+}
+
+/**
+ * Hosts one process of a deployment whose every process runs in its own instance of this app
+ * Messages for the others are posted to their instance's inbox (POST /consensus/inbox), listed in a static peer list
+ */
+export class HttpTransport implements Transport {
+  readonly type: TransportType = 'http';
+  private readonly links = new Map<ProcessId, PeerLink>();
+  private readonly abort = new AbortController();
+
+  constructor(private readonly peerList: PeerList, readonly quietSpellMs = DEFAULT_QUIET_SPELL_MS) {
+    for (const peer of peerList.peers) {
+      if (peer.id !== peerList.self) {
+        this.links.set(peer.id, new PeerLink(peer, this.abort.signal));
+      }
+    }
+  }
+
+  hosts(id: ProcessId): boolean {
+    return id === this.peerList.self;
+  }
+
+  reaches(id: ProcessId): boolean {
+    return this.hosts(id) || this.links.has(id);
+  }
+
+  /**
+   * Mail for a process outside the peer list has nowhere to go and is dropped,
+   * as mail for an unknown process is dropped on delivery in memory
+   */
+  send(message: Message, queue: Message[]): void {
+    if (this.hosts(message.to)) {
+      queue.push(message);
+      return;
+    }
+    this.links.get(message.to)?.post(message);
+  }
+
+  getStatus(): TransportStatus {
+    return {
+      type: this.type,
+      self: this.peerList.self,
+      peers: Array.from(this.links.values(), link => link.getStatus())
+    };
+  }
+
+  close(): void {
+    this.abort.abort();
+  }
+}
@@ -0,0 +1,30 @@
+import { Message } from '../types';
+import { Transport, TransportStatus, TransportType } from './transport';
+
+/**
+ * Every process lives on this engine: a sent message joins the queue straight away
+ */
+export class InMemoryTransport implements Transport {
+  readonly type: TransportType = 'memory';
+  readonly quietSpellMs = 0;
+
+  hosts(): boolean {
+    return true;
+  }
+
+  reaches(): boolean {
+    return true;
+  }
+
+  send(message: Message, queue: Message[]): void {
+    queue.push(message);
+  }
+
+  getStatus(): TransportStatus {
+    return { type: this.type, self: null, peers: [] };
+  }
+
+  close(): void {
+    // Nothing leaves this engine
+  }
+}
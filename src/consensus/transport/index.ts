@@ -0,0 +1,20 @@
+import { PeerList, validatePeerList } from './peer-list';
+import { Transport } from './transport';
+import { InMemoryTransport } from './in-memory.transport';
+import { HttpTransport } from './http.transport';
+
+export { Transport, TransportStatus, TransportType, PeerStatus, TRANSPORT_TYPES } from './transport';
+export { PeerConfig, PeerList, validatePeerList, loadPeerList } from './peer-list';
+export { InMemoryTransport } from './in-memory.transport';
+export { HttpTransport, INBOX_PATH, DEFAULT_QUIET_SPELL_MS } from './http.transport';
+
+/**
+ * Build the transport for an engine: in memory without a peer list, over HTTP with one
+ */
+export function createTransport(peerList?: PeerList | null): Transport {
+  if (!peerList) {
+    return new InMemoryTransport();
+  }
+  validatePeerList(peerList);
+  return new HttpTransport(peerList);
+}
@@ -0,0 +1,70 @@
+import { existsSync, readFileSync } from 'fs';
+import { ProcessId } from '../types';
+import { ConsensusInputError } from '../errors';
+
+/**
+ * One process of the deployment and the base URL of the instance hosting it, e.g. http://localhost:3001
+ */
+export interface PeerConfig {
+  id: ProcessId;
+  url: string;
+}
+
+/**
+ * Static membership of a deployment: every process with its instance, and the process hosted here
+ */
+export interface PeerList {
+  self: ProcessId;
+  peers: PeerConfig[];
+}
+
+/**
+ * Check a peer list before anything is sent to it
+ */
+export function validatePeerList(list: PeerList): void {
+  if (!Array.isArray(list.peers) || list.peers.length === 0) {
+    throw new ConsensusInputError('The peer list must name at least one process');
+  }
+
+  const seen = new Set<ProcessId>();
+  list.peers.forEach((peer, index) => {
+    if (!Number.isInteger(peer?.id) || peer.id < 1) {
+      throw new ConsensusInputError(`peers[${index}].id must be a positive integer`);
+    }
+    if (seen.has(peer.id)) {
+      throw new ConsensusInputError(`peers[${index}] lists process ${peer.id} a second time`);
+    }
+    seen.add(peer.id);
+    if (typeof peer.url !== 'string' || !/^https?:\/\/[^/]+/.test(peer.url)) {
+      throw new ConsensusInputError(`peers[${index}].url must be an http(s) URL, got ${JSON.stringify(peer.url)}`);
+    }
+  });
+  if (!seen.has(list.self)) {
+    throw new ConsensusInputError(`Process ${list.self} is to be hosted here but is not in the peer list`);
+  }
+}
+
+/**
+ * The peer list this instance was started with, or null to host every process in memory
+ * CONSENSUS_PEERS holds the peers as a JSON array, or the path of a JSON file holding one;
+ * CONSENSUS_PROCESS_ID names the process hosted here
+ */
+export function loadPeerList(env: NodeJS.ProcessEnv = process.env): PeerList | null {
+  const source = env.CONSENSUS_PEERS?.trim();
+  if (!source) return null;
+
+  const text = source.startsWith('[') || !existsSync(source) ? source : readFileSync(source, 'utf8');
+  let peers: PeerConfig[];
+  try {
+    peers = JSON.parse(text);
+  } catch {
+    throw new ConsensusInputError('CONSENSUS_PEERS must be a JSON array of { id, url } or the path of a file holding one');
+  }
+  if (!env.CONSENSUS_PROCESS_ID) {
+    throw new ConsensusInputError('CONSENSUS_PROCESS_ID must name the process hosted here');
+  }
+
+  const list = { self: Number(env.CONSENSUS_PROCESS_ID), peers };
+  validatePeerList(list);
+  return list;
+}
@@ -0,0 +1,62 @@
+import { Message, ProcessId } from '../types';
+
+export const TRANSPORT_TYPES = ['memory', 'http'] as const;
+
+/**
+ * memory: every process runs on this engine and messages join its queue directly (the original behavior)
+ * http: this instance hosts one process and reaches the others at their own instances over HTTP
+ */
+export type TransportType = typeof TRANSPORT_TYPES[number];
+
+/**
+ * Another instance as this one sees it: where it listens and how delivering to it went so far
+ */
+export interface PeerStatus {
+  id: ProcessId;
+  url: string;
+  delivered: number;
+  failed: number;              // messages given up on after every attempt failed: lost for good
+  pending: number;             // messages waiting for (or between) attempts
+  lastError: string | null;
+}
+
+export interface TransportStatus {
+  type: TransportType;
+  self: ProcessId | null;      // the process hosted here, null when every process is
+  peers: PeerStatus[];
+}
+
+/**
+ * Carries messages from the process that sent them to the queue of the engine hosting their recipient
+ */
+export interface Transport {
+  readonly type: TransportType;
+
+  /**
+   * How long an idle engine waits for mail from other instances before its processes act on their own;
+   * 0 when every process is hosted here and an empty queue means nothing is on its way
+   */
+  readonly quietSpellMs: number;
+
+  /**
+   * Whether `id` runs on this engine
+   */
+  hosts(id: ProcessId): boolean;
+
+  /**
+   * Whether messages for `id` can be delivered at all
+   */
+  reaches(id: ProcessId): boolean;
+
+  /**
+   * Take a stamped message; one for a process hosted here joins `queue`, any other leaves for its instance
+   */
+  send(message: Message, queue: Message[]): void;
+
+  getStatus(): TransportStatus;
+
+  /**
+   * Give up on messages still waiting to leave
+   */
+  close(): void;
+}
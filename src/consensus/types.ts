@@ -1,5 +1,22 @@
-export type Color = 'R' | 'G' | 'B' ;
-export type ProcessId = 1 | 2 | 3;
+import type { SchedulerConfig } from './schedulers';
+import type { FaultConfig, FaultStats } from './faults';
+import type { VectorClock } from './tracing';
+import type { SafraToken, TerminationKind } from './termination';
+import type { WantedColorStrategyName, PartnerSelectionConfig } from './strategies';
+import type { KnowledgeMode, PeerSummary } from './knowledge';
+import type { RuntimeMode } from './actors';
+import type { TopologyConfig } from './topology';
+
+/**
+ * Colors and process IDs are data-driven: any palette and any number of processes
+ */
+export type Color = string;
+export type ProcessId = number;
+
+/**
+ * Color preference order per process, highest priority first
+ */
+export type ColorPriorityTable = Record<ProcessId, Color[]>;
 
 export interface ProcessState {
   id: ProcessId;
@@ -7,14 +24,39 @@ export interface ProcessState {
   wanted: Color | null;
   partner: ProcessId | null;
   isDone: boolean;
+  capacity?: number;          // most balls it may hold at any time; unbounded when absent
+  targetSize?: number;        // balls it must hold when finished; any number when absent
 }
 
+/**
+ * Optional per-process bounds on stack sizes, configured alongside the distributions
+ */
+export interface StackLimits {
+  capacities?: Record<ProcessId, number>;
+  targetSizes?: Record<ProcessId, number>;
+}
+
+export type MessageType = 'REQUEST' | 'SEND' | 'DONE' | 'INFO' | 'TOKEN';
+
+/**
+ * Messages of the sorting protocol itself; TOKEN belongs to termination detection
+ */
+export type BasicMessageType = Exclude<MessageType, 'TOKEN'>;
+
 export interface Message {
-  type: 'REQUEST' | 'SEND' | 'DONE';
+  type: MessageType;
   from: ProcessId;
   to: ProcessId;
   color?: Color;
-  timestamp: number;
+  timestamp: number;          // wall clock, for display only
+  id?: number;                // unique per reset; duplicates and retransmissions keep the original's ID
+  lamport?: number;           // sender's Lamport clock at send time
+  vector?: VectorClock;       // sender's vector clock at send time, when vector clocks are enabled
+  gossip?: PeerSummary[];     // what the sender knows about itself and its peers, in gossip knowledge mode
+  token?: SafraToken;         // the termination detector's token, on TOKEN messages
+  handback?: 'swap' | 'refused' | 'handoff';  // on a SEND not asked for: given by a full process in exchange for the ball received, that ball returned, or handed off by a process that left
+  origin?: ProcessId;         // on a REQUEST passed on by a process that could not serve it: the requester, which the ball goes to
+  route?: ProcessId[];        // processes a message to a non-neighbour has still to be relayed through, nearest first
 }
 
 export interface SystemState {
@@ -30,3 +72,77 @@ export interface BallExchange {
   color: Color;
   timestamp: number;
 }
+
+export type RunStatus = 'idle' | 'running' | 'paused' | 'stopped' | 'completed' | 'failed';
+
+/**
+ * Handle describing the current (or last) consensus run
+ */
+export interface RunInfo {
+  runId: string | null;
+  status: RunStatus;
+  startedAt: string | null;
+  finishedAt: string | null;
+  iterations: number;
+  error: string | null;
+  scheduler: string;
+  wantedColorStrategy: WantedColorStrategyName;
+  partnerSelection: string;
+  knowledge: KnowledgeMode;
+  runtime: RuntimeMode;
+  topology: string;
+  invariantViolations: number;
+  messagesDelivered: Record<MessageType, number>;
+  termination: TerminationKind | null;   // set when a run completes: detected by the protocol, or forced
+}
+
+/**
+ * Faults injected so far and whether every ball is still accounted for
+ * (balls held by processes plus balls in transit, including messages held back by the network)
+ */
+export interface FaultReport extends FaultStats {
+  enabled: boolean;
+  conservation: {
+    expectedBalls: number;
+    actualBalls: number;
+    held: boolean;
+  };
+}
+
+/**
+ * Per-run configuration; a fresh scheduler is built from it on every reset
+ */
+export interface RunOptions {
+  scheduler?: SchedulerConfig;
+  faults?: FaultConfig;
+  failOnInvariantViolation?: boolean;   // end the run as 'failed' on the first invariant violation
+  vectorClocks?: boolean;               // attach vector clocks to messages and trace events
+  stepDelayMs?: number;                 // pause between deliveries in a run (default 10); 0 only yields to the event loop
+  wantedColorStrategy?: WantedColorStrategyName;   // how processes pick the color to collect (default bottom-of-stack)
+  partnerSelection?: PartnerSelectionConfig;        // how processes pick whom to ask (default scoring)
+  knowledge?: KnowledgeMode;                        // what processes know about their peers (default gossip)
+  runtime?: RuntimeMode;                            // where processes run: inline or in worker threads (default CONSENSUS_RUNTIME, then inline)
+  topology?: TopologyConfig;                        // who may talk to whom directly (default complete)
+}
+
+/**
+ * One unit of step-mode execution: a delivered message or a request-triggering tick
+ */
+export interface StepRecord {
+  kind: 'message' | 'tick';
+  message: Message | null;
+  affectedProcesses: { id: ProcessId; before: ProcessState; after: ProcessState }[];
+  potentialBefore: number;
+  potentialAfter: number;
+  potentialDelta: number;
+}
+
+export interface StepResult {
+  steps: StepRecord[];
+  isComplete: boolean;
+  terminationDetected: boolean;
+  potentialFunction: number;
+  pendingMessages: number;
+}
+
+export type ConsensusEvent = 'message' | 'state' | 'potential' | 'completed' | 'reset' | 'status' | 'corrupted' | 'violation' | 'membership';
@@ -1,10 +1,16 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
+import { ConsensusService } from './consensus/consensus.service';
+import { createTransport, loadPeerList } from './consensus/transport';
 import { ValidationPipe } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
+
+  // With a peer list, this instance hosts one process and reaches the others over HTTP
+  const peerList = loadPeerList();
+  app.get(ConsensusService).useTransport(createTransport(peerList));
   
   // Enable CORS for frontend integration
   app.enableCors({
@@ -37,6 +43,9 @@ async function bootstrap() {
   console.log(`NestJS Application is running on: http://localhost:${port}`);
   console.log(`API Documentation available at: http://localhost:${port}/api/docs`);
   console.log(`Consensus Algorithm UI available at: http://localhost:${port}`);
+  if (peerList) {
+    console.log(`Hosting Process ${peerList.self} of ${peerList.peers.length}; peers reached over HTTP`);
+  }
 }
 
 bootstrap();
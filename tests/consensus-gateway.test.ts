@@ -0,0 +1,172 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Socket } from 'socket.io';
+import { ConsensusGateway } from '../src/consensus/consensus.gateway';
+import { ConsensusService } from '../src/consensus/consensus.service';
+import { SessionRegistryService, DEFAULT_SESSION_ID } from '../src/consensus/session-registry.service';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+/**
+ * What the gateway emitted, per room, through a stand-in for the Socket.IO server
+ */
+function createServer() {
+  const emitted: { room: string; event: string; payload: unknown }[] = [];
+  const server = {
+    to: (room: string) => ({
+      emit: (event: string, payload: unknown) => {
+        emitted.push({ room, event, payload });
+        return true;
+      }
+    })
+  };
+  return { server, emitted };
+}
+
+/**
+ * A connected client, recording what it was sent and the rooms it is in
+ */
+function createClient(sessionId?: string) {
+  const received: { event: string; payload: unknown }[] = [];
+  const rooms = new Set<string>();
+  const client = {
+    data: {} as { sessionId?: string },
+    handshake: { query: sessionId ? { sessionId } : {} },
+    join: (room: string) => rooms.add(room),
+    leave: (room: string) => rooms.delete(room),
+    emit: (event: string, payload: unknown) => {
+      received.push({ event, payload });
+      return true;
+    },
+    disconnect: jest.fn()
+  };
+  return { client: client as unknown as Socket, received, rooms, disconnect: client.disconnect };
+}
+
+describe('Consensus Gateway Tests', () => {
+  let module: TestingModule;
+  let gateway: ConsensusGateway;
+  let engine: ConsensusService;
+  let emitted: ReturnType<typeof createServer>['emitted'];
+
+  const waitFor = async (condition: () => boolean, timeoutMs = 5000): Promise<void> => {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      providers: [
+        ConsensusGateway,
+        ConsensusService,
+        SessionRegistryService,
+        ColorSelectionService,
+        PartnerSelectionService,
+        MessageHandlingService,
+        LoggingSystemService,
+        SystemStateService,
+      ],
+    }).compile();
+    module.useLogger(false);
+
+    const stub = createServer();
+    emitted = stub.emitted;
+    gateway = module.get<ConsensusGateway>(ConsensusGateway);
+    gateway.server = stub.server as unknown as ConsensusGateway['server'];
+    gateway.afterInit();
+    engine = module.get<ConsensusService>(ConsensusService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('should put a connecting client in its session room and send it the current snapshot', () => {
+    const { client, received, rooms } = createClient();
+
+    gateway.handleConnection(client);
+
+    expect(rooms).toEqual(new Set([`session:${DEFAULT_SESSION_ID}`]));
+    expect(received.map(r => r.event)).toEqual(['state', 'potential', 'status']);
+    expect(received[0].payload).toEqual(engine.getSystemState());
+  });
+
+  it('should turn away clients asking for an unknown session', () => {
+    const { client, received, disconnect } = createClient('missing');
+
+    gateway.handleConnection(client);
+
+    expect(received).toEqual([{ event: 'error', payload: { message: 'Session missing not found' } }]);
+    expect(disconnect).toHaveBeenCalledWith(true);
+  });
+
+  it('should forward engine events to the room of their session only', async () => {
+    const other = await module.get(SessionRegistryService).createSession();
+
+    engine.reset({ 1: ['R', 'G'], 2: ['G', 'R'] });
+    await engine.startConsensus({ stepDelayMs: 0 });
+
+    const rooms = new Set(emitted.map(e => e.room));
+    const events = new Set(emitted.map(e => e.event));
+    expect(rooms).toEqual(new Set([`session:${DEFAULT_SESSION_ID}`]));
+    expect(events).toEqual(new Set(['reset', 'status', 'message', 'state', 'potential', 'completed']));
+    expect(emitted.find(e => e.event === 'completed')?.payload).toMatchObject({ termination: 'detected' });
+
+    other.engine.reset();
+    expect(emitted.filter(e => e.room === `session:${other.id}`).map(e => e.event)).toContain('reset');
+  });
+
+  it('should acknowledge start and reset commands', async () => {
+    const { client } = createClient();
+    gateway.handleConnection(client);
+
+    await expect(gateway.handleStart(client, { stepDelayMs: 0 })).resolves.toEqual({ ok: true, message: 'Consensus algorithm started' });
+    await expect(gateway.handleStart(client)).resolves.toEqual({ ok: false, message: 'Consensus algorithm is already running' });
+    await waitFor(() => engine.getRunInfo().status === 'completed');
+
+    await expect(gateway.handleReset(client)).resolves.toEqual({ ok: true, message: 'System reset to initial state' });
+    expect(engine.getRunInfo().status).toBe('idle');
+  });
+
+  it('should acknowledge invalid start options with an error and leave the engine idle', async () => {
+    const { client } = createClient();
+    gateway.handleConnection(client);
+
+    const acks = [
+      await gateway.handleStart(client, { stepDelayMs: 1e9 }),
+      await gateway.handleStart(client, { faults: { probabilities: { SEND: { drop: 2 } } } }),
+      await gateway.handleStart(client, { scheduler: { type: 'bogus' } }),
+      await gateway.handleStart(client, { speed: 'fast' }),
+      await gateway.handleStart(client, 'fast')
+    ];
+
+    expect(acks.every(ack => !ack.ok)).toBe(true);
+    expect(acks.map(ack => ack.message)).toEqual([
+      expect.stringMatching(/^Invalid start options: stepDelayMs must not be greater than/),
+      expect.stringMatching(/^Invalid start options: drop must not be greater than 1/),
+      expect.stringMatching(/^Invalid start options: type must be one of/),
+      'Invalid start options: property speed should not exist',
+      'Start options must be an object'
+    ]);
+    expect(engine.getRunInfo().status).toBe('idle');
+  });
+
+  it('should acknowledge commands for a session deleted since the client joined with an error', async () => {
+    const registry = module.get(SessionRegistryService);
+    const session = await registry.createSession();
+    const { client } = createClient(session.id);
+    gateway.handleConnection(client);
+
+    registry.deleteSession(session.id);
+
+    await expect(gateway.handleReset(client)).resolves.toEqual({ ok: false, message: `Session ${session.id} not found` });
+    expect(emitted).toContainEqual({ room: `session:${session.id}`, event: 'session-deleted', payload: { sessionId: session.id } });
+  });
+});
@@ -420,4 +420,69 @@ describe('Custom Distribution Tests', () => {
     });
 
 
+  describe('Arbitrary Process and Color Sets', () => {
+    it('should derive a priority table where every color is some process\'s first choice', () => {
+      const palette: Color[] = ['red', 'green', 'blue', 'cyan', 'magenta'];
+      const processIds: ProcessId[] = [10, 20, 30, 40, 50, 60, 70];
+
+      const priorities = colorSelectionService.buildColorPriorities(processIds, palette);
+
+      expect(Object.keys(priorities)).toHaveLength(7);
+      expect(priorities[10]).toEqual(palette);
+      expect(priorities[20]).toEqual(['green', 'blue', 'cyan', 'magenta', 'red']);
+      expect(priorities[60]).toEqual(palette);
+
+      const firstChoices = new Set(processIds.slice(0, palette.length).map(id => priorities[id][0]));
+      expect(firstChoices.size).toBe(palette.length);
+      expect(colorSelectionService.getColorPriorityForProcess(20, 'red', priorities)).toBe(5);
+      expect(colorSelectionService.getColorPriorityForProcess(20, 'unknown', priorities)).toBe(6);
+    });
+
+    it('should derive the palette in order of first appearance', () => {
+      const palette = colorSelectionService.derivePalette({
+        2: ['Y', 'X'],
+        1: ['Z', 'Y'],
+        3: ['W']
+      });
+
+      expect(palette).toEqual(['Z', 'Y', 'X', 'W']);
+    });
+
+    it('should allow several processes to share a color for perfect monochrome', () => {
+      const mockProcesses: any[] = [
+        { id: 1, stack: ['R', 'G'], wanted: null, partner: null, isDone: false },
+        { id: 2, stack: ['G', 'R'], wanted: null, partner: null, isDone: false },
+        { id: 3, stack: ['R', 'G'], wanted: null, partner: null, isDone: false },
+        { id: 4, stack: ['G', 'R'], wanted: null, partner: null, isDone: false }
+      ];
+
+      // 8 balls over 4 processes: two processes of R and two of G
+      expect(systemStateService.isPerfectMonochromeAchievable(mockProcesses)).toBe(true);
+    });
+
+    it('should run five processes with a five color palette and conserve every ball', async () => {
+      const palette: Color[] = ['red', 'green', 'blue', 'cyan', 'magenta'];
+      const customDistributions: Record<ProcessId, Color[]> = {};
+      for (let id = 1; id <= 5; id++) {
+        customDistributions[id] = palette.map((_, j) => palette[(id + j) % palette.length]);
+      }
+
+      consensusService.reset(customDistributions);
+
+      const initialState = consensusService.getSystemState();
+      expect(initialState.processes).toHaveLength(5);
+      expect(initialState.processes.map(p => p.id)).toEqual([1, 2, 3, 4, 5]);
+
+      await consensusService.startConsensus();
+
+      const finalState = consensusService.getSystemState();
+      const finalBalls = finalState.processes.flatMap(p => p.stack);
+      expect(finalBalls).toHaveLength(25);
+      for (const color of palette) {
+        expect(finalBalls.filter(ball => ball === color)).toHaveLength(5);
+      }
+      expect(finalState.processes.every(p => p.isDone)).toBe(true);
+    }, 10000);
+  });
+
 });
@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ExperimentRunnerService,
+  generateDistributions,
+  runOptionsFor,
+  summarizeMetric,
+  toCsv
+} from '../src/consensus/experiments';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+describe('Experiment Runner Tests', () => {
+  let module: TestingModule;
+  let runner: ExperimentRunnerService;
+
+  beforeAll(async () => {
+    module = await Test.createTestingModule({
+      providers: [
+        ExperimentRunnerService,
+        ColorSelectionService,
+        PartnerSelectionService,
+        MessageHandlingService,
+        LoggingSystemService,
+        SystemStateService,
+      ],
+    }).compile();
+    module.useLogger(false);
+
+    runner = module.get<ExperimentRunnerService>(ExperimentRunnerService);
+  });
+
+  afterAll(async () => {
+    await module.close();
+  });
+
+  it('should record per-run metrics and aggregate them', async () => {
+    const report = await runner.run({ runs: 6, seed: 10, generator: { processes: 3, ballsPerProcess: 6, colors: 3 } });
+
+    expect(report.runs).toHaveLength(6);
+    expect(report.runs.map(r => r.seed)).toEqual([10, 11, 12, 13, 14, 15]);
+    for (const run of report.runs) {
+      expect(run).toMatchObject({ processes: 3, balls: 18, status: 'completed', error: null });
+      expect(run.messages.total).toBe(run.messages.REQUEST + run.messages.SEND + run.messages.DONE + run.messages.INFO);
+      expect(run.messages.total).toBeLessThanOrEqual(run.iterations);
+      expect(run.messages.SEND).toBe(run.exchanges);
+      expect(run.wallTimeMs).toBeGreaterThanOrEqual(0);
+    }
+
+    const { summary } = report;
+    expect(summary).toMatchObject({ runs: 6, completed: 6, failed: 0 });
+    expect(summary.detected + summary.forcedStagnation + summary.forcedIterationLimit).toBe(6);
+    expect(summary.detected).toBe(report.runs.filter(r => r.termination === 'detected').length);
+    expect(summary.exchanges.max).toBe(Math.max(...report.runs.map(r => r.exchanges)));
+  });
+
+  it('should be reproducible from its configuration', async () => {
+    const config = {
+      runs: 3,
+      seed: 4,
+      scheduler: { type: 'random' as const, seed: 7 },
+      faults: { seed: 1, probabilities: { REQUEST: { drop: 0.2 } } }
+    };
+    const strip = (runs: { wallTimeMs: number }[]) => runs.map(({ wallTimeMs, ...run }) => run);
+
+    const first = await runner.run(config);
+    const second = await runner.run(config);
+
+    expect(strip(second.runs)).toEqual(strip(first.runs));
+  });
+
+  it('should pin how far gossip lags behind global knowledge on generated runs', async () => {
+    const config = { runs: 5, seed: 1, generator: { processes: 4, ballsPerProcess: 6, colors: 3 } };
+
+    const gossip = await runner.run({ ...config, knowledge: 'gossip' });
+    const global = await runner.run({ ...config, knowledge: 'global' });
+
+    // Known gap (see README, Local Knowledge): with more processes than colors a stale view can leave two
+    // processes collecting the same color, so one gossip run stagnates where global knowledge converges
+    expect(global.summary).toMatchObject({ converged: 5, detected: 5, forcedStagnation: 0 });
+    expect(gossip.summary).toMatchObject({ converged: 4, detected: 4, forcedStagnation: 1 });
+    expect(gossip.runs.map(r => r.finalPotential)).toEqual([0, 2, 0, 0, 0]);
+  });
+
+  it('should cycle through supplied distributions', async () => {
+    const report = await runner.run({
+      runs: 3,
+      distributions: [{ 1: ['R', 'G'], 2: ['G', 'R'] }, { 1: ['R'], 2: ['G'], 3: ['B'] }]
+    });
+
+    expect(report.runs.map(r => r.processes)).toEqual([2, 3, 2]);
+  });
+
+  it('should reject invalid configurations', async () => {
+    await expect(runner.run({ runs: 0 })).rejects.toThrow('runs must be a positive integer');
+    await expect(runner.run({ runs: 1, distributions: [{ 1: ['R', 'Y'] }] }))
+      .rejects.toThrow('distributions[0]: distributions.1[1] has unknown color "Y" (allowed: R, G, B)');
+    await expect(runner.run({ runs: 1, generator: { processes: 2, ballsPerProcess: 2, colors: 9 } }))
+      .rejects.toThrow('generator.colors must be between 1 and 8');
+  });
+
+  it('should derive per-run seeds and export CSV', () => {
+    expect(generateDistributions({ processes: 2, ballsPerProcess: 4, colors: 2 }, 3))
+      .toEqual(generateDistributions({ processes: 2, ballsPerProcess: 4, colors: 2 }, 3));
+    expect(runOptionsFor({ runs: 5, scheduler: { type: 'random', seed: 100 }, faults: { seed: 20 } }, 2))
+      .toEqual({ stepDelayMs: 0, scheduler: { type: 'random', seed: 102 }, faults: { seed: 22 } });
+    expect(summarizeMetric([4, 1, 3, 2])).toEqual({ mean: 2.5, stdDev: 1.118, min: 1, median: 2, p95: 4, max: 4 });
+
+    const csv = toCsv([{
+      run: 0, seed: 1, processes: 2, balls: 4, status: 'failed', error: 'Invariant x violated: a, b', wantedColorStrategy: 'bottom-of-stack', partnerSelection: 'scoring',
+      knowledge: 'gossip', exchanges: 1, iterations: 3, messages: { REQUEST: 2, SEND: 1, DONE: 0, INFO: 1, TOKEN: 2, total: 4 },
+      finalPotential: 1, termination: 'forced-stagnation', invariantViolations: 1, wallTimeMs: 2.5
+    }]).trim().split('\n');
+
+    expect(csv[0]).toBe('run,seed,processes,balls,status,wantedColorStrategy,partnerSelection,knowledge,exchanges,iterations,requests,sends,dones,infos,messages,tokens,finalPotential,termination,invariantViolations,wallTimeMs,error');
+    expect(csv[1]).toBe('0,1,2,4,failed,bottom-of-stack,scoring,gossip,1,3,2,1,0,1,4,2,1,forced-stagnation,1,2.5,"Invariant x violated: a, b"');
+  });
+});
@@ -0,0 +1,205 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { FaultInjector } from '../src/consensus/faults';
+import { Message, RunOptions } from '../src/consensus/types';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+describe('Network Fault Injection Tests', () => {
+  const request: Message = { id: 0, type: 'REQUEST', from: 1, to: 2, color: 'R', timestamp: 1 };
+  const send: Message = { id: 1, type: 'SEND', from: 2, to: 1, color: 'R', timestamp: 2 };
+
+  describe('FaultInjector', () => {
+    it('should drop and duplicate messages per type', () => {
+      const injector = new FaultInjector({ probabilities: { SEND: { drop: 1 }, REQUEST: { duplicate: 1 } } });
+      const queue: Message[] = [];
+
+      injector.transmit(send, queue);
+      injector.transmit(request, queue);
+
+      expect(queue).toEqual([request, request]);
+      expect(injector.getStats().injected.drop.SEND).toBe(1);
+      expect(injector.getStats().injected.duplicate.REQUEST).toBe(1);
+    });
+
+    it('should hold delayed messages back and release them within the delay bound', () => {
+      const injector = new FaultInjector({ probabilities: { SEND: { delay: 1 } }, maxDelayTicks: 3 });
+      const queue: Message[] = [request];
+
+      injector.transmit(send, queue);
+      expect(queue).toEqual([{ ...request, timestamp: expect.any(Number) }]);
+      expect(injector.hasHeldMessages()).toBe(true);
+
+      for (let tick = 0; tick < 3; tick++) {
+        injector.tick(queue);
+      }
+      expect(queue).toEqual([request, send]);
+      expect(injector.hasHeldMessages()).toBe(false);
+    });
+
+    it('should release a held message early when nothing else is in transit', () => {
+      const injector = new FaultInjector({ probabilities: { SEND: { delay: 1 } }, maxDelayTicks: 100 });
+      const queue: Message[] = [];
+
+      injector.transmit(send, queue);
+      injector.tick(queue);
+
+      expect(queue).toEqual([send]);
+    });
+
+    it('should retransmit undelivered REQUESTs until the retry limit', () => {
+      const injector = new FaultInjector({
+        probabilities: { REQUEST: { drop: 1 } },
+        requestTimeoutTicks: 2,
+        maxRetries: 2
+      });
+      const queue: Message[] = [];
+
+      injector.transmit(request, queue);
+      for (let tick = 0; tick < 10; tick++) {
+        injector.tick(queue);
+      }
+
+      const stats = injector.getStats();
+      expect(queue).toEqual([]);
+      expect(stats.injected.drop.REQUEST).toBe(3);
+      expect(stats.retransmissions).toBe(2);
+      expect(stats.abandonedRequests).toBe(1);
+    });
+
+    it('should stop retransmitting once the requested ball arrives', () => {
+      const injector = new FaultInjector({ requestTimeoutTicks: 2 });
+      const queue: Message[] = [];
+
+      injector.transmit(request, queue);
+      injector.delivered(queue[0]);
+      injector.answered(queue.shift()!, [send]);
+      injector.transmit(send, queue);
+      injector.delivered(queue.shift()!);
+      for (let tick = 0; tick < 10; tick++) {
+        injector.tick(queue);
+      }
+
+      expect(queue).toEqual([]);
+      expect(injector.getStats().retransmissions).toBe(0);
+    });
+
+    it('should retransmit a REQUEST whose reply was lost', () => {
+      const injector = new FaultInjector({ probabilities: { SEND: { drop: 1 } }, requestTimeoutTicks: 2, maxRetries: 1 });
+      const queue: Message[] = [];
+
+      injector.transmit(request, queue);
+      injector.delivered(queue[0]);
+      injector.answered(queue.shift()!, [send]);
+      injector.transmit(send, queue);
+      for (let tick = 0; tick < 2; tick++) {
+        injector.tick(queue);
+      }
+
+      expect(queue).toEqual([{ ...request, timestamp: expect.any(Number) }]);
+      expect(injector.getStats().retransmissions).toBe(1);
+    });
+
+    it('should report a message as lost once no copy of it is left', () => {
+      const lost: Message[] = [];
+      const injector = new FaultInjector({ probabilities: { SEND: { drop: 1 }, DONE: { duplicate: 1 } } }, m => lost.push(m));
+      const done: Message = { id: 3, type: 'DONE', from: 1, to: 2, timestamp: 3 };
+      const queue: Message[] = [];
+
+      injector.transmit({ ...send, id: 2 }, queue);
+      injector.transmit(done, queue);
+      injector.delivered(queue.shift()!);
+      injector.delivered(queue.shift()!);
+
+      expect(lost).toEqual([{ ...send, id: 2 }]);
+    });
+  });
+
+  describe('Engine Integration', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+
+    beforeAll(async () => {
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    });
+
+    afterEach(() => {
+      consensusService.configureRun({});
+      consensusService.reset();
+    });
+
+    afterAll(async () => {
+      await module.close();
+    });
+
+    const runWith = async (options: RunOptions) => {
+      consensusService.reset();
+      await consensusService.startConsensus(options);
+      return consensusService.getFaultReport();
+    };
+
+    it('should report a reliable network by default', async () => {
+      const report = await runWith({});
+
+      expect(report.enabled).toBe(false);
+      expect(report.retransmissions).toBe(0);
+      expect(report.conservation).toEqual({ expectedBalls: 30, actualBalls: 30, held: true });
+    });
+
+    it('should conserve balls when only REQUEST and DONE messages are unreliable', async () => {
+      const report = await runWith({
+        faults: {
+          seed: 7,
+          probabilities: {
+            REQUEST: { drop: 0.3, duplicate: 0.1, delay: 0.2, reorder: 0.2 },
+            DONE: { drop: 0.5 }
+          }
+        }
+      });
+
+      expect(report.enabled).toBe(true);
+      expect(report.injected.drop.REQUEST).toBeGreaterThan(0);
+      expect(report.retransmissions).toBeGreaterThan(0);
+      expect(report.conservation.held).toBe(true);
+      expect(consensusService.getRunInfo().status).toBe('completed');
+    });
+
+    it('should detect lost balls when SENDs are dropped', async () => {
+      const report = await runWith({ faults: { seed: 3, probabilities: { SEND: { drop: 0.5 } } } });
+
+      expect(report.injected.drop.SEND).toBeGreaterThan(0);
+      expect(report.conservation.actualBalls).toBe(30 - report.injected.drop.SEND);
+      expect(report.conservation.held).toBe(false);
+    });
+
+    it('should replay the same faults for the same seed', async () => {
+      const options: RunOptions = {
+        scheduler: { type: 'random', seed: 11 },
+        faults: { seed: 5, probabilities: { REQUEST: { drop: 0.2, delay: 0.3 }, SEND: { reorder: 0.3, delay: 0.2 } } }
+      };
+
+      const first = await runWith(options);
+      const firstStacks = consensusService.getSystemState().processes.map(p => p.stack);
+      const second = await runWith(options);
+
+      expect(second).toEqual(first);
+      expect(consensusService.getSystemState().processes.map(p => p.stack)).toEqual(firstStacks);
+    });
+  });
+});
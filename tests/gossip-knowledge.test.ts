@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { KNOWLEDGE_MODES, KnowledgeBase, resolveKnowledgeMode } from '../src/consensus/knowledge';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+import { makeProcess } from './process-fixtures';
+
+describe('Gossip Knowledge Tests', () => {
+  describe('KnowledgeBase', () => {
+    it('should spread versioned summaries and keep the newest one per peer', () => {
+      const knowledge = new KnowledgeBase([3, 1, 2]);
+      const first = knowledge.gossipFrom(makeProcess(1, ['R', 'G', 'R'], { wanted: 'R' }));
+      const second = knowledge.gossipFrom(makeProcess(1, ['R', 'R'], { wanted: 'R' }));
+
+      expect(first).toEqual([{ id: 1, colorCounts: { R: 2, G: 1 }, wanted: 'R', isDone: false, version: 1 }]);
+      knowledge.absorb(2, second);
+      knowledge.absorb(2, first);   // arrives late: ignored
+      knowledge.absorb(1, second);  // about itself: ignored
+
+      // Process 3 hears about Process 1 second-hand, through Process 2
+      knowledge.absorb(3, knowledge.gossipFrom(makeProcess(2, ['B'], { wanted: 'B' })));
+
+      const report = knowledge.getReport('gossip');
+      expect(report.processes[0]).toEqual({ id: 1, peers: [], unknown: [2, 3] });
+      expect(report.processes[1].peers).toEqual([{ id: 1, colorCounts: { R: 2 }, wanted: 'R', isDone: false, version: 2 }]);
+      expect(report.processes[2].peers.map(p => [p.id, p.version])).toEqual([[1, 2], [2, 1]]);
+      expect(knowledge.knowsEveryPeer(3)).toBe(true);
+      expect(knowledge.knowsEveryPeer(2)).toBe(false);
+    });
+
+    it('should rebuild peers from their summaries and show unknown peers as empty and active', () => {
+      const knowledge = new KnowledgeBase([1, 2, 3]);
+      knowledge.absorb(1, knowledge.gossipFrom(makeProcess(2, ['G', 'B', 'G'], { wanted: 'G', isDone: true })));
+      const self = makeProcess(1, ['R'], { wanted: 'R' });
+
+      const view = knowledge.viewOf(self);
+
+      expect(view[0]).toBe(self);
+      expect(view.slice(1)).toEqual([
+        { id: 2, stack: ['G', 'G', 'B'], wanted: 'G', partner: null, isDone: true },
+        { id: 3, stack: [], wanted: null, partner: null, isDone: false }
+      ]);
+    });
+
+    it('should default to gossip and reject unknown modes', () => {
+      expect(resolveKnowledgeMode()).toBe('gossip');
+      expect(() => resolveKnowledgeMode('oracle' as never))
+        .toThrow(`Unknown knowledge mode "oracle" (available: ${KNOWLEDGE_MODES.join(', ')})`);
+    });
+  });
+
+  describe('Engine', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+
+    beforeAll(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    });
+
+    afterAll(async () => {
+      await module.close();
+      jest.restoreAllMocks();
+    });
+
+    it('should start every process knowing nothing and piggyback gossip on protocol messages', async () => {
+      consensusService.reset();
+      expect(consensusService.getKnowledgeReport().processes.map(p => p.unknown)).toEqual([[2, 3], [1, 3], [1, 2]]);
+
+      await consensusService.step(1, {});
+      const [request] = consensusService.getSystemState().messages;
+
+      expect(request.type).toBe('REQUEST');
+      expect(request.gossip?.[0]).toMatchObject({ id: request.from, colorCounts: expect.any(Object) });
+      expect(consensusService.getSystemState().processes.every(p => !p.isDone)).toBe(true);   // nobody judges before it has heard of everyone
+    });
+
+    it('should complete the default scenario on gossip alone', async () => {
+      consensusService.reset();
+      await consensusService.startConsensus({ stepDelayMs: 0 });
+
+      expect(consensusService.getRunInfo()).toMatchObject({ status: 'completed', knowledge: 'gossip', termination: 'detected' });
+      expect(consensusService.calculatePotentialFunction()).toBe(0);
+      expect(consensusService.getKnowledgeReport().processes.every(p => p.unknown.length === 0)).toBe(true);
+    });
+
+    it('should keep global knowledge available for comparison', async () => {
+      consensusService.reset();
+      await consensusService.startConsensus({ stepDelayMs: 0, knowledge: 'global' });
+
+      const run = consensusService.getRunInfo();
+      expect(run).toMatchObject({ status: 'completed', knowledge: 'global' });
+      expect(run.messagesDelivered.INFO).toBe(0);
+      expect(consensusService.getKnowledgeReport()).toMatchObject({ mode: 'global' });
+      expect(consensusService.getKnowledgeReport().processes.every(p => p.peers.length === 0)).toBe(true);
+    });
+
+    it('should leave wanted colors to the processes themselves', async () => {
+      const distributions = { 1: ['R', 'R', 'G'], 2: ['R', 'R', 'G'], 3: ['G', 'B', 'B'], 4: ['B', 'B', 'R'] };
+      const conflictPasses = () => consensusService.getRecording().journal.filter(entry => entry.kind === 'resolve-conflicts').length;
+
+      consensusService.reset(distributions);
+      await consensusService.startConsensus({ stepDelayMs: 0, knowledge: 'global', scheduler: { type: 'random', seed: 1 } });
+      expect(conflictPasses()).toBeGreaterThan(0);
+
+      consensusService.reset(distributions);
+      await consensusService.startConsensus({ stepDelayMs: 0, knowledge: 'gossip', scheduler: { type: 'random', seed: 1 } });
+      expect(conflictPasses()).toBe(0);
+      expect(consensusService.getRunInfo().termination).toBe('detected');
+    });
+
+    it('should end a stagnating run without marking processes done on their behalf', async () => {
+      consensusService.reset({ 1: ['R', 'R', 'R', 'G'], 2: ['R', 'R', 'G', 'B'], 3: ['B', 'B', 'G', 'G'] });
+      await consensusService.startConsensus({ stepDelayMs: 0, scheduler: { type: 'random', seed: 2 } });
+
+      expect(consensusService.getRunInfo().termination).toBe('forced-stagnation');
+      expect(consensusService.getSystemState().processes.some(p => !p.isDone)).toBe(true);
+    });
+
+    it('should answer a requester that never heard of the recipient with INFO', async () => {
+      consensusService.reset({ 1: ['R', 'G'], 2: ['B'] });
+
+      const { steps } = await consensusService.step(2, {});
+
+      expect(steps.map(step => step.message?.type)).toEqual(['REQUEST', 'REQUEST']);
+      expect(consensusService.getSystemState().messages.map(m => [m.type, m.from, m.to])).toContainEqual(['INFO', 2, 1]);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { InvariantChecker, InvariantContext } from '../src/consensus/invariants';
+import { InvariantViolationError } from '../src/consensus/errors';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+describe('Invariant Checker Tests', () => {
+  const context = (overrides: Partial<InvariantContext> = {}): InvariantContext => ({
+    processes: [
+      { id: 1, stack: ['R', 'R'], wanted: 'R', partner: 2, isDone: false },
+      { id: 2, stack: ['G'], wanted: 'G', partner: 1, isDone: false }
+    ],
+    messagesInTransit: [{ type: 'SEND', from: 1, to: 2, color: 'G', timestamp: 0 }],
+    expectedColorCounts: { R: 2, G: 2 },
+    perfectMonochromeAchievable: true,
+    deliveredMessage: null,
+    potentialBefore: 0,
+    potentialAfter: 0,
+    ...overrides
+  });
+
+  describe('Checks', () => {
+    it('should pass when every ball is held or in transit', () => {
+      const checker = new InvariantChecker();
+
+      expect(checker.check(context(), null)).toEqual([]);
+      expect(checker.getReport()).toMatchObject({ checks: 1, passed: true, violationCount: 0 });
+    });
+
+    it('should report a lost ball once while it stays lost', () => {
+      const checker = new InvariantChecker();
+      const lost = context({ messagesInTransit: [] });
+
+      const first = checker.check(lost, 'run-1');
+      checker.check(lost, 'run-1');
+
+      expect(first.map(v => v.invariant)).toEqual(['ball-conservation', 'color-conservation']);
+      expect(first[1]).toMatchObject({
+        message: 'Ball counts changed for G (expected 2, found 1)',
+        details: { expected: { R: 2, G: 2 }, actual: { R: 2, G: 1 } },
+        delivery: 1,
+        runId: 'run-1'
+      });
+      expect(checker.getReport()).toMatchObject({
+        checks: 2,
+        passed: false,
+        violationCount: 2,
+        activeViolations: ['ball-conservation', 'color-conservation']
+      });
+
+      checker.check(context(), 'run-1');
+      expect(checker.getReport().activeViolations).toEqual([]);
+    });
+
+    it('should flag DONE processes with mixed colors only when perfect monochrome is achievable', () => {
+      const processes = [
+        { id: 1, stack: ['R', 'G'], wanted: 'R', partner: 2, isDone: true },
+        { id: 2, stack: ['G', 'R'], wanted: 'G', partner: 1, isDone: false }
+      ];
+
+      expect(new InvariantChecker().check(context({ processes, messagesInTransit: [] }), null).map(v => v.invariant))
+        .toEqual(['done-monochrome']);
+      expect(new InvariantChecker().check(context({ processes, messagesInTransit: [], perfectMonochromeAchievable: false }), null))
+        .toEqual([]);
+    });
+
+    it('should report every SEND that increases Φ', () => {
+      const checker = new InvariantChecker();
+      const send = { type: 'SEND' as const, from: 2, to: 1, color: 'G', timestamp: 0 };
+      const rising = context({ deliveredMessage: send, potentialBefore: 1, potentialAfter: 2 });
+
+      checker.check(rising, null);
+      checker.check(rising, null);
+      checker.check(context({ deliveredMessage: { ...send, type: 'REQUEST' }, potentialBefore: 1, potentialAfter: 2 }), null);
+
+      expect(checker.getReport().violations.map(v => v.invariant)).toEqual(['potential-on-send', 'potential-on-send']);
+    });
+  });
+
+  describe('Engine Integration', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+
+    beforeAll(async () => {
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    });
+
+    beforeEach(() => {
+      consensusService.configureRun({});
+      consensusService.reset();
+    });
+
+    afterAll(async () => {
+      await module.close();
+    });
+
+    it('should check every delivery of a clean run without violations', async () => {
+      await consensusService.startConsensus({ failOnInvariantViolation: true });
+
+      const report = consensusService.getInvariantReport();
+      expect(report.checks).toBe(consensusService.getRunInfo().iterations);
+      expect(report.passed).toBe(true);
+      expect(consensusService.getRunInfo()).toMatchObject({ status: 'completed', invariantViolations: 0 });
+    });
+
+    it('should not blame the protocol for SENDs the network dropped', async () => {
+      await consensusService.startConsensus({ faults: { seed: 3, probabilities: { SEND: { drop: 0.5, duplicate: 0.3 } } } });
+
+      expect(consensusService.getFaultReport().conservation.held).toBe(false);
+      expect(consensusService.getInvariantReport().violations.map(v => v.invariant))
+        .not.toContain('ball-conservation');
+    });
+
+    it('should fail the run on the first violation when asked to', async () => {
+      await consensusService.step(15);
+      consensusService.injectCorruption({ processes: [{ id: 1, isDone: true }] });
+
+      await expect(consensusService.startConsensus({ failOnInvariantViolation: true }))
+        .rejects.toThrow(InvariantViolationError);
+
+      const run = consensusService.getRunInfo();
+      expect(run.status).toBe('failed');
+      expect(run.invariantViolations).toBe(1);
+      expect(run.error).toMatch(/^Invariant done-monochrome violated: Process\(es\) 1 are DONE with mixed colors/);
+      expect(consensusService.getInvariantReport().violations[0]).toMatchObject({
+        invariant: 'done-monochrome',
+        runId: run.runId
+      });
+    });
+  });
+});
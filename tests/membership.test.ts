@@ -0,0 +1,199 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { ConsensusInputError } from '../src/consensus/errors';
+import { planHandoff, validateMembershipChange } from '../src/consensus/membership';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+import { SystemState } from '../src/consensus/types';
+import { makeProcess } from './process-fixtures';
+
+describe('Membership Tests', () => {
+  describe('validateMembershipChange', () => {
+    const processes = [makeProcess(1, ['R']), makeProcess(2, ['G'])];
+    const palette = ['R', 'G'];
+
+    it('should reject joins that reuse an ID or bring unknown balls', () => {
+      expect(() => validateMembershipChange({ kind: 'join', id: 2, stack: [] }, processes, palette, []))
+        .toThrow(new ConsensusInputError('Process 2 is already taking part'));
+      expect(() => validateMembershipChange({ kind: 'join', id: 3, stack: [] }, processes, palette, [3]))
+        .toThrow(new ConsensusInputError('Process 3 took part in this run before; a joining process needs a new ID'));
+      expect(() => validateMembershipChange({ kind: 'join', id: 3, stack: ['R', 'B'] }, processes, palette, []))
+        .toThrow(new ConsensusInputError('stack[1] has unknown color "B" (allowed: R, G)'));
+      expect(() => validateMembershipChange({ kind: 'join', id: 3, stack: ['R', 'G'], capacity: 1 }, processes, palette, []))
+        .toThrow(new ConsensusInputError('Process 3 joins with 2 balls but its capacity is 1'));
+      expect(() => validateMembershipChange({ kind: 'join', id: 3, stack: ['R'] }, processes, palette, [])).not.toThrow();
+    });
+
+    it('should reject departures of unknown processes and of the last one', () => {
+      expect(() => validateMembershipChange({ kind: 'leave', id: 5 }, processes, palette, []))
+        .toThrow(new ConsensusInputError('Process 5 is not taking part'));
+      expect(() => validateMembershipChange({ kind: 'crash', id: 1 }, [processes[0]], palette, []))
+        .toThrow(new ConsensusInputError('Process 1 is the only process left'));
+    });
+  });
+
+  describe('planHandoff', () => {
+    it('should prefer peers that want the color, then those holding most of it, among those with room', () => {
+      const peers = [
+        makeProcess(2, ['G', 'G', 'R']),
+        makeProcess(3, ['B'], { wanted: 'R' }),
+        makeProcess(4, ['G'], { capacity: 1 })
+      ];
+
+      expect(planHandoff(['R', 'G', 'B'], peers)).toEqual([
+        { to: 3, color: 'R' },
+        { to: 2, color: 'G' },
+        { to: 3, color: 'B' }
+      ]);
+    });
+
+    it('should give up when some ball fits nowhere', () => {
+      expect(planHandoff(['R', 'R'], [makeProcess(2, [], { capacity: 1 })])).toBeNull();
+    });
+  });
+
+  describe('Engine', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+
+    const totalBalls = (state: SystemState) =>
+      state.processes.reduce((sum, p) => sum + p.stack.length, 0) + state.messages.filter(m => m.type === 'SEND' && m.color).length;
+    const conservationViolations = () =>
+      consensusService.getInvariantReport().violations.filter(v => v.invariant === 'ball-conservation');
+
+    beforeAll(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    });
+
+    beforeEach(() => {
+      consensusService.configureRun({ stepDelayMs: 0 });
+      consensusService.reset({ 1: ['R', 'R', 'G', 'B'], 2: ['G', 'G', 'R', 'B'], 3: ['B', 'B', 'R', 'G'] });
+    });
+
+    afterAll(async () => {
+      await module.close();
+      jest.restoreAllMocks();
+    });
+
+    it('should let a process join mid-run and sort its balls with the others', async () => {
+      await consensusService.step(6);
+      const record = await consensusService.changeMembership({ kind: 'join', id: 4, stack: ['R', 'R', 'G'] });
+
+      expect(record).toMatchObject({ id: 1, members: [1, 2, 3, 4], handedOff: [], lost: [] });
+      await consensusService.startConsensus();
+
+      const state = consensusService.getSystemState();
+      expect(state.processes.map(p => p.id)).toEqual([1, 2, 3, 4]);
+      expect(totalBalls(state)).toBe(15);
+      expect(consensusService.calculatePotentialFunction()).toBe(0);
+      expect(consensusService.getRunInfo().termination).toBe('detected');
+      expect(consensusService.getFaultReport().conservation).toEqual({ expectedBalls: 15, actualBalls: 15, held: true });
+      expect(conservationViolations()).toEqual([]);
+      expect(consensusService.getMembershipReport().joinedBalls).toEqual({ R: 2, G: 1 });
+    });
+
+    it('should hand the balls of a leaving process to its peers', async () => {
+      await consensusService.step(6);
+      const held = consensusService.getSystemState().processes.find(p => p.id === 2)!.stack;
+
+      const record = await consensusService.changeMembership({ kind: 'leave', id: 2 });
+
+      expect(record.handedOff.map(h => h.color).sort()).toEqual([...held].sort());
+      expect(record.handedOff.every(h => h.to !== 2)).toBe(true);
+      await consensusService.startConsensus();
+
+      const state = consensusService.getSystemState();
+      expect(state.processes.map(p => p.id)).toEqual([1, 3]);
+      expect(totalBalls(state)).toBe(12);
+      expect(consensusService.getRunInfo().termination).not.toBe(null);
+      expect(conservationViolations()).toEqual([]);
+      expect(consensusService.getMembershipReport()).toMatchObject({ departed: [{ id: 2, kind: 'leave' }], lostBalls: {} });
+    });
+
+    it('should report the balls of a crashed process as lost and expect fewer balls', async () => {
+      await consensusService.step(6);
+      const held = consensusService.getSystemState().processes.find(p => p.id === 3)!.stack;
+
+      const record = await consensusService.changeMembership({ kind: 'crash', id: 3 });
+      expect(record.lost).toEqual(held);
+      await consensusService.startConsensus();
+
+      const report = consensusService.getMembershipReport();
+      const lost = Object.values(report.lostBalls).reduce((sum, n) => sum + n, 0);
+      expect(lost).toBeGreaterThanOrEqual(held.length);
+      expect(consensusService.getFaultReport().conservation).toEqual({ expectedBalls: 12 - lost, actualBalls: 12 - lost, held: true });
+      expect(totalBalls(consensusService.getSystemState())).toBe(12 - lost);
+      expect(conservationViolations()).toEqual([]);
+      expect(consensusService.getRunInfo().termination).not.toBe(null);
+    });
+
+    it('should wake DONE processes that could do better once a process joins', async () => {
+      consensusService.reset({ 1: ['R', 'R'], 2: ['G', 'G'] }, ['R', 'G', 'B']);
+      await consensusService.startConsensus();
+      expect(consensusService.getSystemState().processes.every(p => p.isDone)).toBe(true);
+
+      const record = await consensusService.changeMembership({ kind: 'join', id: 3, stack: ['B', 'B', 'R'] });
+
+      expect(record.woken).toEqual([1]);
+      expect(consensusService.getTerminationStatus().detected).toBe(false);
+      await consensusService.startConsensus();
+      expect(consensusService.getSystemState().processes.map(p => p.stack)).toEqual([['R', 'R', 'R'], ['G', 'G'], ['B', 'B']]);
+    });
+
+    it('should reject changes that leave target sizes out of reach', async () => {
+      consensusService.reset({ 1: ['R', 'R'], 2: ['G', 'G'] }, undefined, { targetSizes: { 1: 2, 2: 2 } });
+
+      await expect(consensusService.changeMembership({ kind: 'leave', id: 2 })).rejects.toThrow(ConsensusInputError);
+      await expect(consensusService.changeMembership({ kind: 'join', id: 3, stack: ['R'], targetSize: 0 })).rejects.toThrow(ConsensusInputError);
+      expect(consensusService.getMembershipReport().changes).toEqual([]);
+    });
+
+    it('should replay runs with membership changes identically', async () => {
+      await consensusService.step(8, { scheduler: { type: 'random', seed: 7 } });
+      await consensusService.changeMembership({ kind: 'join', id: 4, stack: ['R', 'G'] });
+      await consensusService.step(8);
+      await consensusService.changeMembership({ kind: 'leave', id: 1 });
+      await consensusService.startConsensus();
+      const recording = consensusService.getRecording();
+
+      const result = await consensusService.replay(JSON.parse(JSON.stringify(recording)));
+
+      expect(result).toMatchObject({ identical: true, divergence: null });
+      expect(recording.journal.filter(entry => entry.kind === 'membership')).toHaveLength(2);
+      expect(consensusService.getMembershipReport().members).toEqual([2, 3, 4]);
+    });
+
+    it('should host joining processes in worker threads and release those that leave', async () => {
+      await consensusService.step(6, { runtime: 'workers', stepDelayMs: 0 });
+      await consensusService.changeMembership({ kind: 'join', id: 4, stack: ['R', 'G'] });
+      await consensusService.changeMembership({ kind: 'leave', id: 2 });
+      await consensusService.startConsensus();
+
+      const state = consensusService.getSystemState();
+      expect(consensusService.getRunInfo().runtime).toBe('workers');
+      expect(state.processes.map(p => p.id)).toEqual([1, 3, 4]);
+      expect(totalBalls(state)).toBe(14);
+      expect(conservationViolations()).toEqual([]);
+    }, 30000);
+  });
+});
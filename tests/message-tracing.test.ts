@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { MessageTracer, TraceEvent, VectorClock, toJsonLines } from '../src/consensus/tracing';
+import { Message } from '../src/consensus/types';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+describe('Message Tracing Tests', () => {
+  describe('MessageTracer', () => {
+    it('should stamp sends and merge clocks on delivery', () => {
+      const tracer = new MessageTracer([1, 2], true);
+      const request: Message = { type: 'REQUEST', from: 1, to: 2, color: 'R', timestamp: 0 };
+
+      tracer.recordSend(request, null);
+      expect(request).toMatchObject({ id: 1, lamport: 1, vector: { 1: 1, 2: 0 } });
+
+      tracer.recordDelivery(request);
+      expect(tracer.getClock(2)).toEqual({ lamport: 2, vector: { 1: 1, 2: 1 } });
+
+      const send: Message = { type: 'SEND', from: 2, to: 1, color: 'R', timestamp: 0 };
+      tracer.recordSend(send, request);
+      expect(send).toMatchObject({ id: 2, lamport: 3, vector: { 1: 1, 2: 2 } });
+
+      expect(tracer.getEvents().map(e => [e.kind, e.messageId, e.process, e.lamport, e.parentId])).toEqual([
+        ['send', 1, 1, 1, null],
+        ['deliver', 1, 2, 2, 1],
+        ['send', 2, 2, 3, 1]
+      ]);
+    });
+
+    it('should omit vector clocks unless enabled', () => {
+      const tracer = new MessageTracer([1, 2]);
+      const done: Message = { type: 'DONE', from: 1, to: 2, timestamp: 0 };
+
+      tracer.recordSend(done, null);
+
+      expect(done.vector).toBeUndefined();
+      expect(tracer.getEvents()[0].vector).toBeUndefined();
+    });
+  });
+
+  describe('Engine Integration', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+
+    beforeAll(async () => {
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    });
+
+    beforeEach(() => {
+      consensusService.configureRun({});
+      consensusService.reset();
+    });
+
+    afterAll(async () => {
+      await module.close();
+    });
+
+    const happenedBefore = (a: VectorClock, b: VectorClock) =>
+      Object.keys(a).every(id => a[Number(id)] <= b[Number(id)]) && Object.keys(a).some(id => a[Number(id)] < b[Number(id)]);
+
+    it('should give every sent message a unique ID and respect the clock condition', async () => {
+      await consensusService.startConsensus({ vectorClocks: true });
+      const { events } = consensusService.getTrace();
+
+      const sends = new Map<number, TraceEvent>();
+      for (const event of events.filter(e => e.kind === 'send')) {
+        expect(sends.has(event.messageId)).toBe(false);
+        sends.set(event.messageId, event);
+      }
+
+      const deliveries = events.filter(e => e.kind === 'deliver');
+      expect(deliveries.length).toBeGreaterThan(0);
+      for (const delivery of deliveries) {
+        const send = sends.get(delivery.messageId)!;
+        expect(send.seq).toBeLessThan(delivery.seq);
+        expect(delivery.lamport).toBeGreaterThan(send.lamport);
+        expect(happenedBefore(send.vector!, delivery.vector!)).toBe(true);
+      }
+    });
+
+    it('should link sends to the delivery that caused them', async () => {
+      await consensusService.step(40);
+      const { events } = consensusService.getTrace();
+
+      const caused = events.filter(e => e.kind === 'send' && e.parentId !== null);
+      expect(caused.length).toBeGreaterThan(0);
+
+      for (const send of caused) {
+        const cause = events.find(e => e.kind === 'deliver' && e.messageId === send.parentId && e.seq < send.seq)!;
+        expect(cause).toBeDefined();
+        expect(cause.process).toBe(send.process);
+        expect(send.lamport).toBeGreaterThan(cause.lamport);
+      }
+    });
+
+    it('should stamp messages in the queue with their IDs and Lamport clocks', async () => {
+      await consensusService.step(5);
+
+      for (const message of consensusService.getSystemState().messages) {
+        expect(message.id).toEqual(expect.any(Number));
+        expect(message.lamport).toEqual(expect.any(Number));
+      }
+    });
+
+    it('should export a header followed by one event per line', async () => {
+      consensusService.reset({ 1: ['R', 'G'], 2: ['G', 'R'] });
+      await consensusService.step(3, { scheduler: { type: 'random', seed: 4 } });
+
+      const { header, events } = consensusService.getTrace();
+      const lines = toJsonLines(header, events).trim().split('\n').map(line => JSON.parse(line));
+
+      expect(lines).toHaveLength(events.length + 1);
+      expect(lines[0]).toMatchObject({
+        kind: 'run',
+        scheduler: 'random(seed=4)',
+        initialDistributions: { 1: ['R', 'G'], 2: ['G', 'R'] },
+        eventCount: events.length,
+        truncated: false
+      });
+      expect(lines.slice(1).map(line => line.kind)).toEqual(events.map(event => event.kind));
+    });
+
+    it('should restart IDs and clocks on reset', async () => {
+      await consensusService.step(5);
+      consensusService.reset();
+
+      expect(consensusService.getTrace().events).toEqual([]);
+      await consensusService.step(1);
+      expect(Math.min(...consensusService.getTrace().events.map(e => e.messageId))).toBe(1);
+    });
+  });
+});
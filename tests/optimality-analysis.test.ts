@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { analyzeOptimality, maxWeightAssignment } from '../src/consensus/analysis';
+import { ProcessState } from '../src/consensus/types';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+describe('Optimality Analysis Tests', () => {
+  const palette = ['R', 'G', 'B'];
+  const processes = (stacks: Record<number, string[]>): ProcessState[] =>
+    Object.entries(stacks).map(([id, stack]) => ({ id: Number(id), stack, wanted: null, partner: null, isDone: true }));
+
+  it('should find a maximum-weight assignment', () => {
+    expect(maxWeightAssignment([
+      [4, 1, 3],
+      [2, 0, 5],
+      [3, 2, 2]
+    ])).toEqual([0, 2, 1]);
+    expect(maxWeightAssignment([])).toEqual([]);
+  });
+
+  it('should compute the minimum transfers for the default distributions', () => {
+    const initial = {
+      1: ['R', 'R', 'R', 'G', 'G', 'G', 'B', 'B', 'B', 'R'],
+      2: ['G', 'G', 'G', 'R', 'R', 'B', 'B', 'B', 'R', 'R'],
+      3: ['B', 'B', 'B', 'B', 'R', 'G', 'G', 'G', 'G', 'R']
+    };
+    const final = processes({ 1: Array(10).fill('R'), 2: Array(10).fill('G'), 3: Array(10).fill('B') });
+
+    const analysis = analyzeOptimality(initial, final, 25, palette, true);
+
+    expect(analysis).toMatchObject({
+      everyColorPlaceable: true,
+      minimumTransfers: 19,
+      unplaceableBalls: 0,
+      exchanges: 25,
+      excessTransfers: 6,
+      efficiency: 0.76,
+      finalAssignment: { 1: 'R', 2: 'G', 3: 'B' },
+      finalAssignmentTransfers: 19,
+      finalAssignmentOptimal: true
+    });
+  });
+
+  it('should let processes share a color and leave spare processes empty', () => {
+    const shared = analyzeOptimality({ 1: ['R', 'R'], 2: ['R'], 3: ['G', 'R'] }, [], 0, palette, false);
+    expect(shared.optimalAssignment).toEqual({ 1: 'R', 2: 'R', 3: 'G' });
+    expect(shared.minimumTransfers).toBe(1);
+
+    const spare = analyzeOptimality({ 1: ['R', 'G'], 2: ['G'], 3: [] }, [], 0, palette, false);
+    expect(spare.optimalAssignment).toEqual({ 1: 'R', 2: 'G', 3: null });
+    expect(spare.minimumTransfers).toBe(1);
+  });
+
+  it('should place the most abundant colors when colors outnumber processes', () => {
+    const analysis = analyzeOptimality({ 1: ['R', 'G', 'B'], 2: ['B', 'B'] }, [], 0, palette, false);
+
+    expect(analysis).toMatchObject({
+      everyColorPlaceable: false,
+      optimalAssignment: { 1: 'R', 2: 'B' },
+      unplaceableBalls: 1,
+      minimumTransfers: 1,
+      efficiency: null
+    });
+  });
+
+  it('should flag a final assignment that is not optimal', () => {
+    const initial = { 1: ['R', 'R', 'G'], 2: ['G', 'G', 'R'] };
+    const swapped = processes({ 1: ['G', 'G', 'G'], 2: ['R', 'R', 'R'] });
+
+    const analysis = analyzeOptimality(initial, swapped, 4, ['R', 'G'], true);
+
+    expect(analysis.minimumTransfers).toBe(2);
+    expect(analysis.finalAssignmentTransfers).toBe(4);
+    expect(analysis.finalAssignmentOptimal).toBe(false);
+  });
+
+  describe('Engine Integration', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+
+    beforeAll(async () => {
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    });
+
+    afterAll(async () => {
+      await module.close();
+    });
+
+    it('should report the run against the bound and include it in the final log', async () => {
+      const logAnalysis = jest.spyOn(module.get(LoggingSystemService), 'logOptimalityAnalysis');
+      consensusService.reset({ 1: ['R', 'G', 'R'], 2: ['G', 'R', 'G'] });
+
+      const before = consensusService.getOptimalityAnalysis();
+      expect(before).toMatchObject({ minimumTransfers: 2, exchanges: 0, isComplete: false });
+
+      await consensusService.startConsensus();
+      const after = consensusService.getOptimalityAnalysis();
+
+      expect(after.isComplete).toBe(true);
+      expect(after.exchanges).toBe(consensusService.getSystemState().totalExchanges);
+      expect(after.finalAssignmentOptimal).toBe(true);
+      expect(after.exchanges).toBeGreaterThanOrEqual(after.minimumTransfers);
+      expect(logAnalysis).toHaveBeenCalledWith(after);
+    });
+  });
+});
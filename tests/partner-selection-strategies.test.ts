@@ -0,0 +1,131 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import {
+  AdaptivePartnerStrategy,
+  DEFAULT_SCORING_WEIGHTS,
+  PARTNER_SELECTION_STRATEGIES,
+  createPartnerSelectionStrategy
+} from '../src/consensus/strategies';
+import { Message } from '../src/consensus/types';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+import { makeProcess } from './process-fixtures';
+
+describe('Partner Selection Strategy Tests', () => {
+  const message = (type: 'REQUEST' | 'SEND', from: number, to: number): Message => ({ type, from, to, color: 'R', timestamp: 0 });
+
+  const asker = makeProcess(1, ['R', 'G'], { wanted: 'R', partner: 3 });
+  const candidates = [
+    makeProcess(2, ['R', 'R'], { wanted: 'R' }),  // 2 wanted balls, conflict: 6 - 20 = -14
+    makeProcess(3, ['B'], { wanted: 'B' }),       // nothing to offer: 0
+    makeProcess(4, ['R', 'B'], { wanted: 'G' })   // 1 wanted ball, wants our G: 3 + 2 = 5
+  ];
+
+  it('should score with the default weights and fall back to round-robin', () => {
+    const scoring = createPartnerSelectionStrategy();
+
+    expect(scoring.description).toBe('scoring');
+    expect(scoring.choose(asker, candidates)).toBe(4);
+    expect(scoring.choose(asker, candidates.slice(0, 2))).toBe(2);   // nobody scores above zero: next after 3 wraps to 2
+  });
+
+  it('should apply configured weights', () => {
+    const lenient = createPartnerSelectionStrategy({ type: 'scoring', weights: { conflictPenalty: 0 } });
+
+    expect(lenient.choose(asker, candidates)).toBe(2);
+    expect(new PartnerSelectionService(new ColorSelectionService()).calculatePartnerScore(asker, candidates[0]))
+      .toBe(2 * DEFAULT_SCORING_WEIGHTS.wantedBall - DEFAULT_SCORING_WEIGHTS.conflictPenalty);
+  });
+
+  it('should rotate, and pick reproducibly at random', () => {
+    const roundRobin = createPartnerSelectionStrategy({ type: 'round-robin' });
+    expect(roundRobin.choose(asker, candidates)).toBe(4);
+    expect(roundRobin.choose({ ...asker, partner: 4 }, candidates)).toBe(2);
+
+    const picks = (seed: number) => {
+      const random = createPartnerSelectionStrategy({ type: 'random', seed });
+      return Array.from({ length: 10 }, () => random.choose(asker, candidates));
+    };
+    expect(picks(5)).toEqual(picks(5));
+    expect(createPartnerSelectionStrategy({ type: 'random', seed: 5 }).description).toBe('random(seed=5)');
+  });
+
+  it('should learn which partners fulfil requests', () => {
+    const adaptive = createPartnerSelectionStrategy({ type: 'adaptive' }) as AdaptivePartnerStrategy;
+
+    // Untried partners tie at one half; the score decides
+    expect(adaptive.choose(asker, candidates)).toBe(4);
+
+    for (let i = 0; i < 3; i++) adaptive.messageSent(message('REQUEST', 1, 4));
+    adaptive.messageSent(message('REQUEST', 1, 3));
+    adaptive.messageDelivered(message('SEND', 3, 1));
+
+    expect(adaptive.fulfilmentRate(1, 4)).toBeCloseTo(0.2);
+    expect(adaptive.fulfilmentRate(1, 3)).toBeCloseTo(2 / 3);
+    expect(adaptive.choose(asker, candidates)).toBe(3);
+  });
+
+  it('should reject unknown strategies', () => {
+    expect(() => createPartnerSelectionStrategy({ type: 'nearest' as never }))
+      .toThrow(`Unknown partner selection strategy "nearest" (available: ${PARTNER_SELECTION_STRATEGIES.join(', ')})`);
+  });
+
+  describe('Per-run selection', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+
+    beforeAll(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    });
+
+    afterAll(async () => {
+      await module.close();
+      jest.restoreAllMocks();
+    });
+
+    it.each([
+      { type: 'scoring' as const, weights: { conflictPenalty: 5 } },
+      { type: 'round-robin' as const },
+      { type: 'random' as const, seed: 3 },
+      { type: 'adaptive' as const }
+    ])('should complete the default scenario with $type', async partnerSelection => {
+      consensusService.reset();
+      await consensusService.startConsensus({ stepDelayMs: 0, partnerSelection });
+
+      expect(consensusService.getRunInfo()).toMatchObject({
+        status: 'completed',
+        partnerSelection: partnerSelection.type === 'random' ? 'random(seed=3)' : partnerSelection.type
+      });
+    });
+
+    it('should reproduce seeded random partner choices across resets', async () => {
+      const run = async () => {
+        consensusService.reset();
+        await consensusService.step(30, { partnerSelection: { type: 'random', seed: 9 } });
+        return consensusService.getRecording().historyDigests;
+      };
+
+      expect(await run()).toEqual(await run());
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { ActorRuntime, ProcessContext, ProcessProtocol } from '../src/consensus/actors';
+import { createPartnerSelectionStrategy, createWantedColorStrategy } from '../src/consensus/strategies';
+import { Message } from '../src/consensus/types';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+describe('Process Actor Tests', () => {
+  describe('ActorRuntime', () => {
+    const colorSelection = new ColorSelectionService();
+    const protocol = new ProcessProtocol(
+      { knowledge: 'global', colorPriorities: { 1: ['R', 'G'], 2: ['G', 'R'] } },
+      { wantedColor: createWantedColorStrategy(), partnerSelection: createPartnerSelectionStrategy() },
+      { messageHandling: new MessageHandlingService(), colorSelection, partnerSelection: new PartnerSelectionService(colorSelection) }
+    );
+    const states = () => [
+      { id: 1, stack: ['R', 'G'], wanted: 'G', partner: null, isDone: false },
+      { id: 2, stack: ['G'], wanted: null, partner: null, isDone: false }
+    ];
+    const contextOf = (runtime: ActorRuntime): ProcessContext =>
+      ({ peers: runtime.snapshot(), knowsEveryPeer: true, messagesInTransit: [], perfectMonochromeAchievable: true, terminationForced: false });
+    const request = (from: number, to: number): Message => ({ type: 'REQUEST', from, to, color: 'R', timestamp: 0 });
+
+    beforeAll(() => jest.spyOn(console, 'log').mockImplementation(() => undefined));
+    afterAll(() => jest.restoreAllMocks());
+
+    it('should hand out copies and change state only through the protocol', async () => {
+      const initial = states();
+      const runtime = new ActorRuntime(initial, protocol);
+      initial[0].stack.push('B');
+      runtime.snapshot()[0].stack.push('B');
+
+      expect(runtime.ids).toEqual([1, 2]);
+      expect(runtime.snapshotOf(1)!.stack).toEqual(['R', 'G']);
+
+      // Process 1 gives away the R it does not want, is left monochrome and announces it is done
+      const { sent } = await runtime.deliver(request(2, 1), contextOf(runtime));
+
+      expect(sent.map(m => [m.type, m.to, m.color])).toEqual([['SEND', 2, 'R'], ['DONE', 2, undefined]]);
+      expect(runtime.inspect(1)).toEqual({ state: expect.objectContaining({ stack: ['G'], isDone: true }), received: 1, sent: 2 });
+    });
+
+    it('should let processes act on their own and discard mail for unknown processes', async () => {
+      const runtime = new ActorRuntime(states(), protocol);
+
+      const { sent } = await runtime.act(2, 'start', contextOf(runtime));
+      expect(sent).toEqual([expect.objectContaining({ type: 'REQUEST', from: 2, to: 1, color: 'G' })]);
+      expect(await runtime.deliver(request(1, 9), contextOf(runtime))).toEqual({ sent: [], exchanges: 0 });
+      expect(runtime.inspect(9)).toBeUndefined();
+
+      runtime.override(processes => processes.forEach(p => p.isDone = true));
+      expect(runtime.snapshot().every(p => p.isDone)).toBe(true);
+    });
+  });
+
+  describe('Engine', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+
+    beforeAll(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    });
+
+    afterAll(async () => {
+      await module.close();
+      jest.restoreAllMocks();
+    });
+
+    it('should count what each process received and sent', async () => {
+      consensusService.reset();
+      const { steps } = await consensusService.step(5, {});
+
+      const inspections = [1, 2, 3].map(id => consensusService.getProcessInspection(id)!);
+      const delivered = steps.filter(step => step.message).length;
+      expect(inspections.reduce((sum, p) => sum + p.received, 0)).toBe(delivered);
+
+      const sent = inspections.reduce((sum, p) => sum + p.sent, 0);
+      expect(sent).toBe(delivered + consensusService.getSystemState().messages.length);
+      expect(consensusService.getProcessInspection(9)).toBeUndefined();
+    });
+
+    it('should not let callers change a process through what they are shown', async () => {
+      consensusService.reset();
+      consensusService.getProcessInspection(1)!.state.stack.length = 0;
+      consensusService.getSystemState().processes[1].isDone = true;
+
+      expect(consensusService.getProcessInspection(1)!.state.stack).toHaveLength(10);
+      expect(consensusService.getProcessInspection(2)!.state.isDone).toBe(false);
+    });
+  });
+});
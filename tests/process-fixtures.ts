@@ -0,0 +1,8 @@
+import { ProcessState } from '../src/consensus/types';
+
+/**
+ * A process state for unit tests: active, with no wanted color or partner unless `extra` sets them
+ */
+export function makeProcess(id: number, stack: string[], extra: Partial<ProcessState> = {}): ProcessState {
+  return { id, stack, wanted: null, partner: null, isDone: false, ...extra };
+}
@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { RecordedRun, digestState } from '../src/consensus/replay';
+import { SystemState } from '../src/consensus/types';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+describe('Deterministic Replay Tests', () => {
+  let module: TestingModule;
+  let consensusService: BaseConsensusService;
+
+  const distributions = {
+    1: ['R', 'R', 'G', 'B', 'G'],
+    2: ['G', 'B', 'R', 'G', 'B'],
+    3: ['B', 'G', 'R', 'B', 'R']
+  };
+
+  beforeAll(async () => {
+    module = await Test.createTestingModule({
+      providers: [
+        BaseConsensusService,
+        ColorSelectionService,
+        PartnerSelectionService,
+        MessageHandlingService,
+        LoggingSystemService,
+        SystemStateService,
+      ],
+    }).compile();
+
+    consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+  });
+
+  beforeEach(() => {
+    consensusService.configureRun({});
+    consensusService.reset(distributions);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await module.close();
+  });
+
+  const withoutTimestamps = (history: SystemState[]) =>
+    history.map(state => ({ ...state, messages: state.messages.map(({ timestamp, ...message }) => message) }));
+
+  it('should reproduce a completed run with a random scheduler and network faults', async () => {
+    await consensusService.startConsensus({
+      scheduler: { type: 'random', seed: 11 },
+      faults: { seed: 5, probabilities: { SEND: { delay: 0.2, reorder: 0.2 }, REQUEST: { drop: 0.2, duplicate: 0.2 } } }
+    });
+    const recording = consensusService.getRecording();
+    const recordedHistory = withoutTimestamps(consensusService.getSystemHistory());
+
+    const result = await consensusService.replay(recording);
+
+    expect(result).toMatchObject({ identical: true, divergence: null, replayedEntries: recording.journal.length });
+    expect(result.historyLength).toEqual({ recorded: recordedHistory.length, replayed: recordedHistory.length });
+    expect(withoutTimestamps(consensusService.getSystemHistory())).toEqual(recordedHistory);
+    expect(recording.journal.map(entry => entry.kind)).toEqual(expect.arrayContaining(['configure', 'start-protocol', 'deliver', 'final-check']));
+  });
+
+  it('should reproduce stepped runs with injected corruption', async () => {
+    await consensusService.step(12, { scheduler: { type: 'random', seed: 3 } });
+    consensusService.injectCorruption({
+      processes: [{ id: 2, partner: 3 }],
+      messages: [{ type: 'REQUEST', from: 3, to: 1, color: 'B' }]
+    });
+    await consensusService.step(40);
+    const recording = consensusService.getRecording();
+
+    const result = await consensusService.replay(JSON.parse(JSON.stringify(recording)));
+
+    expect(result.identical).toBe(true);
+    expect(consensusService.getRecording().historyDigests).toEqual(recording.historyDigests);
+    expect(consensusService.getRecoveryReport().records).toHaveLength(1);
+  });
+
+  it('should flag a delivery that can no longer be followed', async () => {
+    await consensusService.step(10, { scheduler: { type: 'lifo' } });
+    const recording = consensusService.getRecording();
+    const deliveries = recording.journal
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => entry.kind === 'deliver');
+    const { entry, index } = deliveries[3];
+    const tampered: RecordedRun = {
+      ...recording,
+      journal: recording.journal.map((e, i) => i === index ? { ...entry, messageId: 999 } : e)
+    };
+
+    const result = await consensusService.replay(tampered);
+
+    expect(result.identical).toBe(false);
+    expect(result.replayedEntries).toBe(index);
+    expect(result.divergence).toMatchObject({ kind: 'delivery', journalIndex: index, historyIndex: null });
+    expect(result.divergence!.message).toContain('Expected to deliver message 999');
+  });
+
+  it('should flag the first history snapshot that no longer matches', async () => {
+    await consensusService.step(10);
+    const recording = consensusService.getRecording();
+    const historyDigests = [...recording.historyDigests];
+    historyDigests[4] = 'f'.repeat(40);
+
+    const result = await consensusService.replay({ ...recording, historyDigests });
+
+    expect(result.divergence).toMatchObject({ kind: 'state', historyIndex: 4, expectedDigest: 'f'.repeat(40) });
+    expect(result.divergence!.actualDigest).toBe(recording.historyDigests[4]);
+  });
+
+  it('should detect behavior changed since the recording', async () => {
+    // The spy reaches processes that share the engine's services, not those in worker threads
+    await consensusService.startConsensus({ runtime: 'inline' });
+    const recording = consensusService.getRecording();
+
+    // Simulate a code change: processes now always want the color on top of their stack
+    const colorSelection = module.get(ColorSelectionService);
+    jest.spyOn(colorSelection, 'computeWantedColor').mockImplementation(process => {
+      process.wanted = process.stack[process.stack.length - 1] ?? null;
+    });
+
+    const result = await consensusService.replay(recording);
+
+    expect(result.identical).toBe(false);
+    expect(result.divergence).not.toBeNull();
+    expect(result.divergence!.journalIndex).toBeLessThan(recording.journal.length);
+  });
+
+  it('should digest states independently of message timestamps', () => {
+    const state = consensusService.getSystemState();
+    const later: SystemState = { ...state, messages: state.messages.map(m => ({ ...m, timestamp: m.timestamp + 1000 })) };
+
+    expect(digestState(later)).toBe(digestState(state));
+    expect(digestState({ ...state, totalExchanges: state.totalExchanges + 1 })).not.toBe(digestState(state));
+  });
+});
@@ -0,0 +1,81 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { ResetConsensusDto } from '../src/consensus/dto';
+import { MAX_PROCESSES, MAX_BALLS_PER_PROCESS } from '../src/consensus/dto/reset-consensus.dto';
+
+describe('ResetConsensusDto Validation', () => {
+  const validationMessages = async (body: object): Promise<string[]> => {
+    const dto = plainToInstance(ResetConsensusDto, body);
+    const errors = await validate(dto, { whitelist: true, forbidNonWhitelisted: true });
+    return errors.flatMap(error => Object.values(error.constraints || {}));
+  };
+
+  it('should accept an empty body (default distributions)', async () => {
+    expect(await validationMessages({})).toEqual([]);
+  });
+
+  it('should accept distributions using the default palette', async () => {
+    const messages = await validationMessages({
+      distributions: { 1: ['R', 'G'], 2: ['B'], 3: [] }
+    });
+
+    expect(messages).toEqual([]);
+  });
+
+  it('should accept distributions using a declared palette', async () => {
+    const messages = await validationMessages({
+      colors: ['red', 'green', 'blue', 'cyan'],
+      distributions: { 1: ['red', 'cyan'], 2: ['green', 'blue'], 4: ['cyan'], 5: [] }
+    });
+
+    expect(messages).toEqual([]);
+  });
+
+  it('should reject unknown colors', async () => {
+    const messages = await validationMessages({
+      distributions: { 1: ['R', 'Y'], 2: ['G'] }
+    });
+
+    expect(messages).toEqual(['distributions.1[1] has unknown color "Y" (allowed: R, G, B)']);
+  });
+
+  it('should reject non-numeric process keys', async () => {
+    const messages = await validationMessages({
+      distributions: { 1: ['R'], abc: ['G'] }
+    });
+
+    expect(messages).toEqual(['process key "abc" must be a positive integer']);
+  });
+
+  it('should reject empty configurations', async () => {
+    expect(await validationMessages({ distributions: {} }))
+      .toEqual(['distributions must contain at least one process']);
+    expect(await validationMessages({ distributions: { 1: [], 2: [] } }))
+      .toEqual(['distributions must contain at least one ball']);
+  });
+
+  it('should reject absurd sizes', async () => {
+    const tooManyProcesses: Record<string, string[]> = {};
+    for (let id = 1; id <= MAX_PROCESSES + 1; id++) {
+      tooManyProcesses[id] = ['R'];
+    }
+
+    expect(await validationMessages({ distributions: tooManyProcesses }))
+      .toEqual([`distributions must not contain more than ${MAX_PROCESSES} processes (got ${MAX_PROCESSES + 1})`]);
+    expect(await validationMessages({ distributions: { 1: new Array(MAX_BALLS_PER_PROCESS + 1).fill('R') } }))
+      .toEqual([`distributions.1 must not contain more than ${MAX_BALLS_PER_PROCESS} balls (got ${MAX_BALLS_PER_PROCESS + 1})`]);
+  });
+
+  it('should reject a palette without distributions and malformed palettes', async () => {
+    expect(await validationMessages({ colors: ['R'] }))
+      .toContain('distributions is required when colors is provided');
+    expect(await validationMessages({ colors: ['R', 'R'], distributions: { 1: ['R'] } }))
+      .toContain("All colors's elements must be unique");
+  });
+
+  it('should reject unknown properties', async () => {
+    const messages = await validationMessages({ distributions: { 1: ['R'] }, extra: true });
+
+    expect(messages).toEqual(['property extra should not exist']);
+  });
+});
@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { RunHistory, diffStates, applyDelta } from '../src/consensus/history';
+import { Message, SystemState } from '../src/consensus/types';
+import { ConsensusInputError } from '../src/consensus/errors';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+describe('Run History Tests', () => {
+  const message = (id: number, type: Message['type'] = 'REQUEST'): Message => ({ id, type, from: 1, to: 2, color: 'R', timestamp: 0 });
+  const state = (messages: Message[], stack: string[] = ['R'], totalExchanges = 0): SystemState => ({
+    processes: [
+      { id: 1, stack, wanted: 'R', partner: 2, isDone: false },
+      { id: 2, stack: ['G'], wanted: 'G', partner: 1, isDone: false }
+    ],
+    messages,
+    isComplete: false,
+    totalExchanges
+  });
+
+  describe('Deltas', () => {
+    it('should encode FIFO and random deliveries as small queue changes', () => {
+      const previous = state([message(1), message(2), message(3)]);
+      const fifo = state([message(2), message(3), message(4, 'SEND')], ['R', 'R'], 1);
+      const middle = state([message(1), message(3), message(5), message(5)]);
+
+      const fifoDelta = diffStates(previous, fifo)!;
+      expect(fifoDelta.messages).toEqual({ removed: [0], inserted: [[2, message(4, 'SEND')]] });
+      expect(fifoDelta.processes.map(p => p.id)).toEqual([1]);
+      expect(applyDelta(previous, fifoDelta)).toEqual(fifo);
+
+      const middleDelta = diffStates(previous, middle)!;
+      expect(middleDelta.messages.removed).toEqual([1]);
+      expect(middleDelta.processes).toEqual([]);
+      expect(applyDelta(previous, middleDelta)).toEqual(middle);
+    });
+
+    it('should require a keyframe when the process set changes', () => {
+      const previous = state([]);
+      const next: SystemState = { ...previous, processes: previous.processes.slice(1) };
+
+      expect(diffStates(previous, next)).toBeNull();
+    });
+  });
+
+  describe('RunHistory', () => {
+    const snapshots = Array.from({ length: 12 }, (_, i) =>
+      state(Array.from({ length: i % 4 }, (_, k) => message(i * 10 + k)), Array(i + 1).fill('R'), i));
+
+    it('should store keyframes at the interval and reconstruct any snapshot', () => {
+      const history = new RunHistory({ retentionLimit: 100, keyframeInterval: 4 });
+      snapshots.forEach(s => history.append(s));
+
+      expect(history.length).toBe(12);
+      expect(history.toArray()).toEqual(snapshots);
+      expect(history.get(7)).toEqual(snapshots[7]);
+      expect(history.get(12)).toBeNull();
+
+      const page = history.getPage(3, 9);
+      expect(page).toMatchObject({ from: 3, to: 9, total: 12, firstRetained: 0, keyframeInterval: 4 });
+      expect(page.entries.map(e => e.kind)).toEqual(['keyframe', 'keyframe', 'delta', 'delta', 'delta', 'keyframe']);
+      expect(page.entries[0]).toEqual({ kind: 'keyframe', state: snapshots[3] });
+    });
+
+    it('should discard the oldest snapshots beyond the retention limit', () => {
+      const history = new RunHistory({ retentionLimit: 5, keyframeInterval: 4 });
+      snapshots.forEach(s => history.append(s));
+
+      expect(history.length).toBe(12);
+      expect(history.firstRetained).toBe(7);
+      expect(history.get(6)).toBeNull();
+      expect(history.toArray()).toEqual(snapshots.slice(7));
+      expect(history.getPage()).toMatchObject({ from: 7, to: 12 });
+    });
+
+    it('should reject reversed ranges and ranges outside the retained snapshots', () => {
+      const history = new RunHistory({ retentionLimit: 5, keyframeInterval: 4 });
+      snapshots.forEach(s => history.append(s));
+
+      expect(() => history.getPage(9, 8)).toThrow(new ConsensusInputError('History range start 9 is after its end 8'));
+      expect(() => history.getPage(0, 10))
+        .toThrow(new ConsensusInputError('History range [0, 10) is outside the retained snapshots [7, 12)'));
+      expect(() => history.getPage(8, 13)).toThrow(ConsensusInputError);
+      expect(() => history.getPage(13)).toThrow(ConsensusInputError);
+      expect(history.getPage(12, 12)).toMatchObject({ from: 12, to: 12, entries: [] });
+    });
+
+    it('should keep the same window however long the history grows', () => {
+      const history = new RunHistory({ retentionLimit: 3, keyframeInterval: 4 });
+      const states = Array.from({ length: 50 }, (_, i) => state([message(i)], ['R'], i));
+      states.forEach(s => history.append(s));
+
+      expect(history.firstRetained).toBe(47);
+      expect(history.toArray()).toEqual(states.slice(47));
+      expect(history.get(48)).toEqual(states[48]);
+    });
+
+    it('should not let callers mutate stored snapshots', () => {
+      const history = new RunHistory({ retentionLimit: 10, keyframeInterval: 10 });
+      history.append(snapshots[0]);
+
+      history.get(0)!.processes[0].stack.push('G');
+
+      expect(history.get(0)).toEqual(snapshots[0]);
+    });
+  });
+
+  describe('Engine Integration', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+
+    beforeAll(async () => {
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    });
+
+    afterEach(() => {
+      delete process.env.HISTORY_RETENTION_LIMIT;
+      jest.restoreAllMocks();
+      consensusService.configureRun({});
+      consensusService.reset();
+    });
+
+    afterAll(async () => {
+      await module.close();
+    });
+
+    it('should reconstruct exactly the snapshots that were saved', async () => {
+      const save = jest.spyOn(module.get(SystemStateService), 'saveSystemState');
+      consensusService.reset();
+
+      await consensusService.step(60, {
+        scheduler: { type: 'random', seed: 9 },
+        faults: { seed: 2, probabilities: { REQUEST: { duplicate: 0.3, reorder: 0.3 }, SEND: { delay: 0.3 } } }
+      });
+
+      const saved = save.mock.results.map(result => JSON.parse(JSON.stringify(result.value)));
+      expect(consensusService.getSystemHistory()).toEqual(saved);
+      expect(consensusService.getHistoryState(30)).toEqual(saved[30]);
+    });
+
+    it('should apply the retention limit from HISTORY_RETENTION_LIMIT', async () => {
+      process.env.HISTORY_RETENTION_LIMIT = '20';
+      consensusService.reset();
+
+      await consensusService.step(50);
+
+      const page = consensusService.getHistoryPage();
+      expect(page.firstRetained).toBe(page.total - 20);
+      expect(page.entries).toHaveLength(20);
+      expect(consensusService.getHistoryState(0)).toBeNull();
+      expect(consensusService.getSystemHistory()).toHaveLength(20);
+
+      const recording = consensusService.getRecording();
+      expect(recording.historyDigests).toHaveLength(20);
+      expect(recording.journal).toHaveLength(20);
+      expect(recording.discarded).toEqual({ journalEntries: 50 + 1 - 20, historySnapshots: page.total - 20 });
+      await expect(consensusService.replay(recording)).rejects.toThrow(ConsensusInputError);
+    });
+  });
+});
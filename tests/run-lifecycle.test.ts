@@ -0,0 +1,164 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { ConsensusInputError, ConsensusStateError } from '../src/consensus/errors';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+describe('Run Lifecycle Tests', () => {
+  let module: TestingModule;
+  let consensusService: BaseConsensusService;
+
+  const waitFor = async (condition: () => boolean, timeoutMs = 5000): Promise<void> => {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  beforeAll(async () => {
+    module = await Test.createTestingModule({
+      providers: [
+        BaseConsensusService,
+        ColorSelectionService,
+        PartnerSelectionService,
+        MessageHandlingService,
+        LoggingSystemService,
+        SystemStateService,
+      ],
+    }).compile();
+
+    consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+  });
+
+  beforeEach(() => {
+    consensusService.reset();
+  });
+
+  afterAll(async () => {
+    await module.close();
+  });
+
+  it('should start idle', () => {
+    const run = consensusService.getRunInfo();
+
+    expect(run.status).toBe('idle');
+    expect(run.runId).toBeNull();
+  });
+
+  it('should return a run handle immediately and complete in the background', async () => {
+    const run = consensusService.startRun();
+
+    expect(run.status).toBe('running');
+    expect(run.runId).toEqual(expect.any(String));
+    expect(consensusService.isConsensusRunning()).toBe(true);
+
+    await waitFor(() => consensusService.getRunInfo().status === 'completed');
+
+    const finished = consensusService.getRunInfo();
+    expect(finished.runId).toBe(run.runId);
+    expect(finished.finishedAt).not.toBeNull();
+    expect(finished.iterations).toBeGreaterThan(0);
+    expect(consensusService.isConsensusRunning()).toBe(false);
+  }, 10000);
+
+  it('should pause, resume and stop a run', async () => {
+    consensusService.startRun();
+    await waitFor(() => consensusService.getRunInfo().iterations >= 3);
+
+    const paused = consensusService.pauseConsensus();
+    expect(paused.status).toBe('paused');
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const iterationsWhilePaused = consensusService.getRunInfo().iterations;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(consensusService.getRunInfo().iterations).toBe(iterationsWhilePaused);
+
+    expect(consensusService.resumeConsensus().status).toBe('running');
+    await waitFor(() => consensusService.getRunInfo().iterations > iterationsWhilePaused);
+
+    const stopped = await consensusService.stopConsensus();
+    expect(stopped.status).toBe('stopped');
+    expect(consensusService.isConsensusRunning()).toBe(false);
+  }, 10000);
+
+  it('should stop a paused run', async () => {
+    consensusService.startRun();
+    consensusService.pauseConsensus();
+
+    const stopped = await consensusService.stopConsensus();
+
+    expect(stopped.status).toBe('stopped');
+  });
+
+  it('should reject invalid lifecycle transitions', async () => {
+    expect(() => consensusService.pauseConsensus()).toThrow(ConsensusStateError);
+    expect(() => consensusService.resumeConsensus()).toThrow(ConsensusStateError);
+    await expect(consensusService.stopConsensus()).rejects.toThrow(ConsensusStateError);
+
+    consensusService.startRun();
+
+    expect(() => consensusService.startRun()).toThrow('Consensus algorithm is already running');
+    expect(() => consensusService.reset()).toThrow('Cannot reset while a run is running');
+
+    await consensusService.stopConsensus();
+  });
+
+  it('should reject invalid run options before starting the run', () => {
+    expect(() => consensusService.startRun({ topology: { type: 'star', center: 99 } })).toThrow(ConsensusInputError);
+    expect(() => consensusService.startRun({ scheduler: { type: 'bogus' as never } })).toThrow(ConsensusInputError);
+
+    expect(consensusService.getRunInfo()).toMatchObject({ status: 'idle', error: null });
+    expect(consensusService.isConsensusRunning()).toBe(false);
+  });
+
+  describe('Step Mode', () => {
+    it('should deliver exactly the requested number of messages', async () => {
+      const result = await consensusService.step(3);
+
+      expect(result.steps).toHaveLength(3);
+      expect(result.steps.every(step => step.kind === 'message')).toBe(true);
+      expect(consensusService.getSystemHistory()).toHaveLength(4);
+    });
+
+    it('should report the affected processes and the change in potential function', async () => {
+      const potentialBefore = consensusService.calculatePotentialFunction();
+
+      const [step] = (await consensusService.step()).steps;
+
+      expect(step.message?.type).toBe('REQUEST');
+      const affectedIds = step.affectedProcesses.map(p => p.id);
+      expect(affectedIds).toEqual(expect.arrayContaining([step.message!.from, step.message!.to]));
+      expect(step.potentialBefore).toBe(potentialBefore);
+      expect(step.potentialDelta).toBe(step.potentialAfter - step.potentialBefore);
+    });
+
+    it('should trigger new requests as a tick when the queue is empty', async () => {
+      // Process 2 is done as soon as it hears about Process 1 and has nothing to offer, so the queue soon runs dry
+      consensusService.reset({ 1: ['R', 'G'], 2: ['R'] });
+
+      const result = await consensusService.step(12);
+      const ticks = result.steps.filter(step => step.kind === 'tick');
+
+      expect(ticks.length).toBeGreaterThan(0);
+      expect(ticks.every(tick => tick.message === null)).toBe(true);
+    });
+
+    it('should step a paused run but not a running one', async () => {
+      consensusService.startRun();
+
+      await expect(consensusService.step()).rejects.toThrow('Cannot step while a run is running; pause it first');
+
+      consensusService.pauseConsensus();
+      const result = await consensusService.step();
+      expect(result.steps).toHaveLength(1);
+
+      await consensusService.stopConsensus();
+    });
+  });
+});
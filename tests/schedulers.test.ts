@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import {
+  createScheduler,
+  FifoScheduler,
+  LifoScheduler,
+  DelaySendsScheduler,
+  StarveProcessScheduler
+} from '../src/consensus/schedulers';
+import { Message, SystemState } from '../src/consensus/types';
+import { ConsensusInputError } from '../src/consensus/errors';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+describe('Message Scheduler Tests', () => {
+  const queue: Message[] = [
+    { type: 'REQUEST', from: 1, to: 2, color: 'R', timestamp: 1 },
+    { type: 'SEND', from: 2, to: 1, color: 'R', timestamp: 2 },
+    { type: 'REQUEST', from: 3, to: 1, color: 'B', timestamp: 3 },
+    { type: 'SEND', from: 1, to: 3, color: 'B', timestamp: 4 }
+  ];
+
+  describe('Policies', () => {
+    it('should pick the oldest message for FIFO and the newest for LIFO', () => {
+      expect(new FifoScheduler().selectNext(queue)).toBe(0);
+      expect(new LifoScheduler().selectNext(queue)).toBe(3);
+    });
+
+    it('should hold back SENDs until only SENDs remain', () => {
+      const scheduler = new DelaySendsScheduler();
+
+      expect(scheduler.selectNext(queue)).toBe(0);
+      expect(scheduler.selectNext(queue.slice(1))).toBe(1);
+      expect(scheduler.selectNext([queue[1], queue[3]])).toBe(0);
+    });
+
+    it('should starve the target process while other messages are in transit', () => {
+      const scheduler = new StarveProcessScheduler(2);
+
+      expect(scheduler.selectNext(queue)).toBe(1);
+      expect(scheduler.selectNext([queue[0]])).toBe(0);
+    });
+
+    it('should produce the same choices for the same seed', () => {
+      const choices = (seed: number) => {
+        const scheduler = createScheduler({ type: 'random', seed });
+        return Array.from({ length: 20 }, () => scheduler.selectNext(queue));
+      };
+
+      expect(choices(42)).toEqual(choices(42));
+      expect(choices(42)).not.toEqual(choices(7));
+      expect(choices(42).every(index => index >= 0 && index < queue.length)).toBe(true);
+    });
+
+    it('should require a target process for the starve-process policy', () => {
+      expect(() => createScheduler({ type: 'adversarial', policy: 'starve-process' }))
+        .toThrow(new ConsensusInputError('The starve-process policy requires a targetProcess'));
+    });
+
+    it('should reject unknown scheduler types as invalid input', () => {
+      expect(() => createScheduler({ type: 'shortest-first' as never }))
+        .toThrow(new ConsensusInputError('Unknown scheduler type: shortest-first'));
+    });
+
+    it('should reject unknown or missing adversarial policies as invalid input', () => {
+      expect(() => createScheduler({ type: 'adversarial', policy: 'starve-proces' as never }))
+        .toThrow(new ConsensusInputError('Unknown adversarial policy: starve-proces'));
+      expect(() => createScheduler({ type: 'adversarial' }))
+        .toThrow(new ConsensusInputError('The adversarial scheduler requires a policy (delay-sends, starve-process)'));
+    });
+  });
+
+  describe('Engine Integration', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+
+    beforeAll(async () => {
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    });
+
+    afterEach(() => {
+      consensusService.configureRun({});
+      consensusService.reset();
+    });
+
+    afterAll(async () => {
+      await module.close();
+    });
+
+    // Wall-clock timestamps are the only non-deterministic part of a snapshot
+    const withoutTimestamps = (history: SystemState[]) =>
+      history.map(state => ({
+        ...state,
+        messages: state.messages.map(({ timestamp, ...message }) => message)
+      }));
+
+    const seededTrace = async (seed: number) => {
+      consensusService.reset();
+      const result = await consensusService.step(300, { scheduler: { type: 'random', seed } });
+      return {
+        delivered: result.steps.map(step => step.message && { ...step.message, timestamp: 0 }),
+        history: withoutTimestamps(consensusService.getSystemHistory())
+      };
+    };
+
+    it('should default to FIFO delivery', () => {
+      expect(consensusService.getRunInfo().scheduler).toBe('fifo');
+    });
+
+    it('should reproduce a seeded run exactly', async () => {
+      const first = await seededTrace(1234);
+      const second = await seededTrace(1234);
+
+      expect(second).toEqual(first);
+      expect(consensusService.getRunInfo().scheduler).toBe('random(seed=1234)');
+    });
+
+    it('should explore different interleavings for different seeds', async () => {
+      const first = await seededTrace(1);
+      const second = await seededTrace(2);
+
+      expect(second.delivered).not.toEqual(first.delivered);
+    });
+
+    it('should conserve balls under every policy', async () => {
+      const configs = [
+        { type: 'lifo' as const },
+        { type: 'random' as const, seed: 99 },
+        { type: 'adversarial' as const, policy: 'delay-sends' as const },
+        { type: 'adversarial' as const, policy: 'starve-process' as const, targetProcess: 1 }
+      ];
+
+      for (const scheduler of configs) {
+        consensusService.configureRun({ scheduler });
+        consensusService.reset();
+        await consensusService.startConsensus();
+
+        const state = consensusService.getSystemState();
+        const ballsHeld = state.processes.reduce((sum, p) => sum + p.stack.length, 0);
+        const ballsInTransit = state.messages.filter(m => m.type === 'SEND').length;
+        expect(ballsHeld + ballsInTransit).toBe(30);
+        expect(consensusService.getRunInfo().status).toBe('completed');
+      }
+    });
+  });
+});
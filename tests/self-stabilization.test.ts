@@ -0,0 +1,137 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { CorruptionSpec } from '../src/consensus/corruption';
+import { ConsensusInputError } from '../src/consensus/errors';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+/**
+ * Sweeps corruption patterns over the default scenario: run part of the protocol,
+ * corrupt it, let it finish and check what the recovery report says
+ */
+describe('Self-Stabilization Tests', () => {
+  let module: TestingModule;
+  let consensusService: BaseConsensusService;
+
+  beforeAll(async () => {
+    module = await Test.createTestingModule({
+      providers: [
+        BaseConsensusService,
+        ColorSelectionService,
+        PartnerSelectionService,
+        MessageHandlingService,
+        LoggingSystemService,
+        SystemStateService,
+      ],
+    }).compile();
+
+    consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+  });
+
+  beforeEach(() => {
+    consensusService.reset();
+  });
+
+  afterAll(async () => {
+    await module.close();
+  });
+
+  const corruptMidRunAndFinish = async (spec: CorruptionSpec) => {
+    await consensusService.step(15);
+    consensusService.injectCorruption(spec);
+    await consensusService.startConsensus();
+    return consensusService.getRecoveryReport();
+  };
+
+  const totalBalls = () => consensusService.getSystemState().processes.reduce((sum, p) => sum + p.stack.length, 0);
+
+  const patterns: Array<[string, CorruptionSpec]> = [
+    ['a false isDone', { processes: [{ id: 1, isDone: true }] }],
+    ['a false isDone everywhere', { processes: [{ id: 1, isDone: true }, { id: 2, isDone: true }, { id: 3, isDone: true }] }],
+    ['a bogus wanted color', { processes: [{ id: 1, wanted: 'B' }, { id: 2, wanted: 'B' }] }],
+    ['a bogus partner', { processes: [{ id: 1, partner: 1 }, { id: 2, partner: null }] }],
+    ['stale REQUESTs', { messages: [{ type: 'REQUEST', from: 2, to: 1, color: 'R' }, { type: 'REQUEST', from: 3, to: 2, color: 'B' }] }],
+    ['a stale DONE', { messages: [{ type: 'DONE', from: 2, to: 1 }] }],
+  ];
+
+  describe('Corruption Sweep', () => {
+    it.each(patterns)('should settle and report honestly after %s', async (_name, spec) => {
+      const report = await corruptMidRunAndFinish(spec);
+      const [record] = report.records;
+
+      expect(report.records).toHaveLength(1);
+      expect(record.status).not.toBe('recovering');
+      expect(record.deliveriesToSettle).toEqual(expect.any(Number));
+      expect(record.status === 'recovered').toBe(record.legitimate === true && !record.forcedTermination);
+      expect(totalBalls()).toBe(30);
+    });
+
+    it.each([
+      ['a bogus partner', patterns[3][1]],
+      ['stale REQUESTs', patterns[4][1]],
+      ['a stale DONE', patterns[5][1]],
+      ['a false isDone everywhere', patterns[1][1]],    // gossip still in transit shows the processes what they can collect
+    ])('should re-converge to monochrome after %s', async (_name, spec) => {
+      const report = await corruptMidRunAndFinish(spec);
+
+      expect(report.allRecovered).toBe(true);
+      expect(report.records[0].finalPotential).toBe(0);
+    });
+
+    it('should expose that a false isDone on every process is accepted as completion with global knowledge', async () => {
+      consensusService.configureRun({ knowledge: 'global' });
+      try {
+        const report = await corruptMidRunAndFinish(patterns[1][1]);
+
+        expect(report.records[0]).toMatchObject({ status: 'failed', forcedTermination: false, legitimate: false });
+        expect(report.records[0].finalPotential).toBeGreaterThan(0);
+      } finally {
+        consensusService.configureRun({});
+      }
+    });
+  });
+
+  describe('Injection', () => {
+    it('should corrupt a paused run and track recovery after resuming', async () => {
+      consensusService.startRun();
+      consensusService.pauseConsensus();
+
+      const record = consensusService.injectCorruption({ processes: [{ id: 2, partner: 2 }] });
+      expect(record).toMatchObject({ id: 1, status: 'recovering' });
+      expect(consensusService.getSystemState().processes.find(p => p.id === 2)!.partner).toBe(2);
+
+      consensusService.resumeConsensus();
+      while (consensusService.isConsensusRunning()) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+
+      const [settled] = consensusService.getRecoveryReport().records;
+      expect(settled.status).not.toBe('recovering');
+      expect(settled.settledAt).toEqual(expect.any(String));
+    });
+
+    it('should reject corruptions that reference unknown processes or colors', () => {
+      expect(() => consensusService.injectCorruption({ processes: [{ id: 9, isDone: true }] }))
+        .toThrow(new ConsensusInputError('processes[0].id refers to unknown process 9'));
+      expect(() => consensusService.injectCorruption({ processes: [{ id: 1, wanted: 'Y' }] }))
+        .toThrow('processes[0].wanted has unknown color "Y" (allowed: R, G, B)');
+      expect(() => consensusService.injectCorruption({ messages: [{ type: 'REQUEST', from: 1, to: 2 }] }))
+        .toThrow('messages[0] is a REQUEST and needs a color');
+      expect(() => consensusService.injectCorruption({}))
+        .toThrow('corruption must overwrite at least one process or inject at least one message');
+      expect(consensusService.getRecoveryReport().records).toEqual([]);
+    });
+
+    it('should clear recovery records on reset', async () => {
+      consensusService.injectCorruption({ messages: [{ type: 'DONE', from: 1, to: 2 }] });
+      consensusService.reset();
+
+      expect(consensusService.getRecoveryReport()).toEqual({ deliveries: 0, records: [], allRecovered: false });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiController } from '../src/consensus/api.controller';
+import { ConsensusService } from '../src/consensus/consensus.service';
+import { ExperimentRunnerService } from '../src/consensus/experiments';
+import { SessionRegistryService, DEFAULT_SESSION_ID } from '../src/consensus/session-registry.service';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+describe('Session Registry Tests', () => {
+  let module: TestingModule;
+  let registry: SessionRegistryService;
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      controllers: [ApiController],
+      providers: [
+        ExperimentRunnerService,
+        ConsensusService,
+        SessionRegistryService,
+        ColorSelectionService,
+        PartnerSelectionService,
+        MessageHandlingService,
+        LoggingSystemService,
+        SystemStateService,
+      ],
+    }).compile();
+    module.useLogger(false);
+
+    registry = module.get<SessionRegistryService>(SessionRegistryService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('should register the injected ConsensusService as the default session', () => {
+    const defaultSession = registry.getDefaultSession();
+
+    expect(defaultSession.id).toBe(DEFAULT_SESSION_ID);
+    expect(defaultSession.engine).toBe(module.get(ConsensusService));
+    expect(registry.listSessions()).toHaveLength(1);
+  });
+
+  it('should give every session its own isolated engine', async () => {
+    const first = await registry.createSession();
+    const second = await registry.createSession();
+
+    expect(first.id).not.toBe(second.id);
+    expect(first.engine).not.toBe(second.engine);
+
+    first.engine.reset({ 1: ['R', 'G'], 2: ['G', 'R'] });
+
+    expect(first.engine.getSystemState().processes).toHaveLength(2);
+    expect(second.engine.getSystemState().processes).toHaveLength(3);
+    expect(registry.getDefaultSession().engine.getSystemState().processes).toHaveLength(3);
+  });
+
+  it('should list and delete sessions', async () => {
+    const session = await registry.createSession();
+    expect(registry.listSessions().map(s => s.id)).toEqual([DEFAULT_SESSION_ID, session.id]);
+
+    registry.deleteSession(session.id);
+
+    expect(registry.listSessions().map(s => s.id)).toEqual([DEFAULT_SESSION_ID]);
+    expect(() => registry.getSession(session.id)).toThrow(`Session ${session.id} not found`);
+    expect(() => registry.deleteSession(DEFAULT_SESSION_ID)).toThrow('The default session cannot be deleted');
+  });
+
+  it('should expire idle sessions but never the default one', async () => {
+    const idle = await registry.createSession();
+    const active = await registry.createSession();
+    const later = Date.now() + 31 * 60 * 1000;
+    active.lastAccessedAt = later;
+
+    const expired = registry.expireIdleSessions(later);
+
+    expect(expired).toEqual([idle.id]);
+    expect(registry.listSessions().map(s => s.id)).toEqual([DEFAULT_SESSION_ID, active.id]);
+  });
+
+  it('should not keep a session whose distributions break the stack limits', async () => {
+    const controller = module.get(ApiController);
+
+    await expect(controller.createSession({ distributions: { 1: ['R', 'R'], 2: ['G'] }, capacities: { 1: 1 } }))
+      .rejects.toThrow(BadRequestException);
+
+    expect(registry.listSessions().map(s => s.id)).toEqual([DEFAULT_SESSION_ID]);
+  });
+});
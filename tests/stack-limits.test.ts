@@ -0,0 +1,192 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { ConsensusInputError } from '../src/consensus/errors';
+import { validateStackLimits } from '../src/consensus/limits';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+import { Message } from '../src/consensus/types';
+import { makeProcess } from './process-fixtures';
+
+describe('Stack Limit Tests', () => {
+  let module: TestingModule;
+  let consensusService: BaseConsensusService;
+  let messageHandling: MessageHandlingService;
+  let systemState: SystemStateService;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    module = await Test.createTestingModule({
+      providers: [
+        BaseConsensusService,
+        ColorSelectionService,
+        PartnerSelectionService,
+        MessageHandlingService,
+        LoggingSystemService,
+        SystemStateService,
+      ],
+    }).compile();
+
+    consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    messageHandling = module.get<MessageHandlingService>(MessageHandlingService);
+    systemState = module.get<SystemStateService>(SystemStateService);
+  });
+
+  afterAll(async () => {
+    await module.close();
+    jest.restoreAllMocks();
+  });
+
+  describe('validateStackLimits', () => {
+    const distributions = { 1: ['R', 'G', 'R'], 2: ['G', 'R'], 3: ['G'] };
+
+    it('should reject bounds that do not suit the distributions', () => {
+      expect(() => validateStackLimits(distributions, { capacities: { 4: 3 } }))
+        .toThrow(new ConsensusInputError('capacities.4 names a process that is not in the distributions'));
+      expect(() => validateStackLimits(distributions, { capacities: { 1: 2 } }))
+        .toThrow(new ConsensusInputError('Process 1 starts with 3 balls but its capacity is 2'));
+      expect(() => validateStackLimits(distributions, { capacities: { 2: 2 }, targetSizes: { 2: 3 } }))
+        .toThrow(new ConsensusInputError('Process 2 has a target size of 3 but its capacity is 2'));
+      expect(() => validateStackLimits(distributions, { targetSizes: { 1: 2, 2: 2, 3: 1 } }))
+        .toThrow(new ConsensusInputError('The target sizes cannot be met: 6 balls in total, 5 of them targeted'));
+      expect(() => validateStackLimits(distributions, { capacities: { 3: 1 }, targetSizes: { 1: 2, 2: 2 } }))
+        .toThrow(ConsensusInputError);
+    });
+
+    it('should accept bounds that can be met', () => {
+      expect(() => validateStackLimits(distributions, {})).not.toThrow();
+      expect(() => validateStackLimits(distributions, { capacities: { 1: 3, 2: 3, 3: 3 }, targetSizes: { 1: 3, 2: 3, 3: 0 } })).not.toThrow();
+      expect(() => validateStackLimits(distributions, { targetSizes: { 1: 2 } })).not.toThrow();
+    });
+  });
+
+  describe('Protocol', () => {
+    it('should swap an unwanted ball for a wanted one when full', () => {
+      const recipient = makeProcess(1, ['R', 'G'], { wanted: 'R', capacity: 2 });
+      const outbox: Message[] = [];
+      const exchanges = { count: 0 };
+
+      messageHandling.handleSend(
+        { type: 'SEND', from: 2, to: 1, color: 'R', timestamp: 0 }, recipient, exchanges,
+        () => undefined, () => undefined, () => undefined, outbox
+      );
+
+      expect(recipient.stack.sort()).toEqual(['R', 'R']);
+      expect(exchanges.count).toBe(1);
+      expect(outbox).toEqual([expect.objectContaining({ type: 'SEND', from: 1, to: 2, color: 'G', handback: 'swap' })]);
+    });
+
+    it('should return a ball it has no room for', () => {
+      const recipient = makeProcess(1, ['R', 'R'], { wanted: 'R', capacity: 2 });
+      const outbox: Message[] = [];
+      const exchanges = { count: 0 };
+
+      messageHandling.handleSend(
+        { type: 'SEND', from: 2, to: 1, color: 'R', timestamp: 0 }, recipient, exchanges,
+        () => undefined, () => undefined, () => undefined, outbox
+      );
+
+      expect(recipient.stack).toEqual(['R', 'R']);
+      expect(exchanges.count).toBe(0);
+      expect(outbox).toEqual([expect.objectContaining({ type: 'SEND', from: 1, to: 2, color: 'R', handback: 'refused' })]);
+    });
+
+    it('should ask only when it has room or something to swap', () => {
+      const outbox: Message[] = [];
+      messageHandling.sendRequest(makeProcess(1, ['R', 'R'], { wanted: 'R', partner: 2, capacity: 2 }), outbox);
+      messageHandling.sendRequest(makeProcess(1, ['R', 'R'], { wanted: 'R', partner: 2, targetSize: 2 }), outbox);
+      expect(outbox).toHaveLength(0);
+
+      messageHandling.sendRequest(makeProcess(1, ['R', 'G'], { wanted: 'R', partner: 2, capacity: 2 }), outbox);
+      messageHandling.sendRequest(makeProcess(1, ['R'], { wanted: 'R', partner: 2, capacity: 2 }), outbox);
+      expect(outbox).toHaveLength(2);
+    });
+
+    it('should give away wanted balls beyond its target size', () => {
+      const giver = makeProcess(2, ['G', 'G', 'G'], { wanted: 'G', isDone: true, targetSize: 2 });
+      const outbox: Message[] = [];
+
+      messageHandling.handleRequest(
+        { type: 'REQUEST', from: 1, to: 2, color: 'G', timestamp: 0 }, giver, outbox,
+        () => undefined, () => undefined, () => undefined
+      );
+
+      expect(giver.stack).toEqual(['G', 'G']);
+      expect(outbox).toEqual([expect.objectContaining({ type: 'SEND', to: 1, color: 'G' })]);
+    });
+
+    it('should finish only at its target size', () => {
+      const peers = [makeProcess(1, ['R', 'R', 'R'], { targetSize: 2 }), makeProcess(2, ['G'], { isDone: true })];
+      expect(messageHandling.isFinished(peers[0], peers, false)).toBe(false);
+
+      peers[0].stack.pop();
+      expect(messageHandling.isFinished(peers[0], peers, false)).toBe(true);
+    });
+  });
+
+  describe('Feasibility', () => {
+    it('should account for capacities and target sizes', () => {
+      // 4 R and 2 G over two processes: unequal, so never perfect without bounds
+      const unbounded = [makeProcess(1, ['R', 'R', 'G']), makeProcess(2, ['R', 'R', 'G'])];
+      expect(systemState.isPerfectMonochromeAchievable(unbounded)).toBe(false);
+
+      expect(systemState.isPerfectMonochromeAchievable([
+        makeProcess(1, ['R', 'R', 'G'], { targetSize: 4 }), makeProcess(2, ['R', 'R', 'G'], { targetSize: 2 })
+      ])).toBe(true);
+      expect(systemState.isPerfectMonochromeAchievable([
+        makeProcess(1, ['R', 'R', 'G'], { capacity: 3 }), makeProcess(2, ['R', 'R', 'G'], { capacity: 3 })
+      ])).toBe(false);
+      expect(systemState.isPerfectMonochromeAchievable([
+        makeProcess(1, ['R', 'R', 'G'], { capacity: 3 }), makeProcess(2, ['R', 'R', 'G'], { capacity: 3 }), makeProcess(3, [], { capacity: 3 })
+      ])).toBe(true);
+    });
+
+    it('should not count a system complete while a process is away from its target size', () => {
+      const processes = [
+        makeProcess(1, ['R', 'R', 'R'], { isDone: true, targetSize: 2 }),
+        makeProcess(2, ['R'], { isDone: true, targetSize: 2 })
+      ];
+      expect(systemState.isOptimalConsensusReached(processes, [])).toBe(false);
+
+      processes[1].stack.push(processes[0].stack.pop()!);
+      expect(systemState.isOptimalConsensusReached(processes, [])).toBe(true);
+    });
+  });
+
+  describe('Engine', () => {
+    it('should keep every stack within its capacity and end at the target sizes', async () => {
+      consensusService.reset(
+        { 1: ['R', 'R', 'R', 'G', 'G', 'G', 'B', 'B', 'B', 'R'], 2: ['G', 'G', 'G', 'R', 'R', 'B', 'B', 'B', 'R', 'R'], 3: ['B', 'B', 'B', 'B', 'R', 'G', 'G', 'G', 'G', 'R'] },
+        undefined,
+        { capacities: { 1: 11, 2: 11, 3: 11 }, targetSizes: { 1: 10, 2: 10, 3: 10 } }
+      );
+      await consensusService.startConsensus({ stepDelayMs: 0 });
+
+      const report = consensusService.getInvariantReport();
+      expect(report.violations.filter(v => v.invariant === 'capacity')).toEqual([]);
+      expect(report.violations.filter(v => v.invariant === 'ball-conservation')).toEqual([]);
+
+      for (const state of consensusService.getSystemHistory()) {
+        for (const p of state.processes) {
+          expect(p.stack.length).toBeLessThanOrEqual(11);
+        }
+      }
+      const final = consensusService.getSystemState();
+      expect(consensusService.getRunInfo().termination).toBe('detected');
+      expect(final.processes.map(p => p.stack.length)).toEqual([10, 10, 10]);
+      expect(final.processes.every(p => new Set(p.stack).size === 1)).toBe(true);
+    });
+
+    it('should reject bounds that do not suit the distributions on reset', () => {
+      expect(() => consensusService.reset({ 1: ['R', 'G'], 2: ['G'] }, undefined, { capacities: { 1: 1 } }))
+        .toThrow(ConsensusInputError);
+    });
+  });
+});
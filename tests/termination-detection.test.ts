@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { SafraDetector } from '../src/consensus/termination';
+import { Message } from '../src/consensus/types';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+describe('Termination Detection Tests', () => {
+  describe('SafraDetector', () => {
+    let nextId = 1;
+    const basic = (from: number, to: number): Message => ({ type: 'REQUEST', from, to, color: 'R', timestamp: 0, id: nextId++ });
+    const passive = () => true;
+
+    /**
+     * Start (or judge and restart) a wave and carry the token around the ring back to the initiator
+     */
+    const circulate = (detector: SafraDetector): Message[] => {
+      const hops: Message[] = [];
+      let token = detector.advance(passive);
+      while (token) {
+        hops.push(token);
+        detector.receiveToken(token);
+        if (token.to === detector.getStatus().initiator) break;
+        token = detector.advance(passive);
+      }
+      return hops;
+    };
+
+    it('should need a clean wave before announcing termination', () => {
+      const detector = new SafraDetector([3, 1, 2]);
+
+      const hops = circulate(detector);
+      expect(hops.map(m => [m.from, m.to])).toEqual([[1, 2], [2, 3], [3, 1]]);
+      expect(detector.isTerminated()).toBe(false);
+
+      expect(detector.advance(passive)).toBeNull();
+      expect(detector.isTerminated()).toBe(true);
+      expect(detector.getStatus()).toMatchObject({ ring: [1, 2, 3], waves: 1, detectedInWave: 1, tokenHops: 3 });
+    });
+
+    it('should not announce termination while a message is in transit or a process is black', () => {
+      const detector = new SafraDetector([1, 2, 3]);
+      const inTransit = basic(2, 3);
+      detector.recordSend(inTransit);
+
+      circulate(detector);
+      detector.recordReceive(inTransit);
+      circulate(detector);   // the first wave saw the message in transit
+      circulate(detector);   // the second was blackened by process 3, which received it
+      expect(detector.isTerminated()).toBe(false);
+
+      detector.advance(passive);
+      expect(detector.isTerminated()).toBe(true);
+      expect(detector.getStatus().waves).toBe(3);
+    });
+
+    it('should hold the token at an active process and count duplicate receipts once', () => {
+      const detector = new SafraDetector([1, 2]);
+      const request = basic(1, 2);
+      detector.recordSend(request);
+      detector.recordReceive(request);
+      detector.recordReceive({ ...request });
+
+      expect(detector.getStatus().processes.map(p => p.counter)).toEqual([1, -1]);
+
+      const token = detector.advance(passive)!;
+      detector.receiveToken(token);
+      expect(detector.advance(id => id !== 2)).toBeNull();
+      expect(detector.getStatus().tokenHolder).toBe(2);
+
+      detector.invalidate();
+      expect(detector.getStatus().processes.every(p => p.black)).toBe(true);
+    });
+  });
+
+  describe('Engine', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+
+    beforeAll(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    });
+
+    afterAll(async () => {
+      await module.close();
+      jest.restoreAllMocks();
+    });
+
+    it('should end a run when the detector announces termination', async () => {
+      consensusService.reset();
+      await consensusService.startConsensus({ stepDelayMs: 0 });
+
+      const run = consensusService.getRunInfo();
+      const status = consensusService.getTerminationStatus();
+      expect(run.termination).toBe('detected');
+      expect(run.messagesDelivered.TOKEN).toBe(status.tokenHops);
+      expect(status).toMatchObject({ detected: true, token: null });
+      expect(status.processes.reduce((sum, p) => sum + p.counter, 0)).toBe(0);
+      expect(consensusService.getSystemState()).toMatchObject({ isComplete: true, messages: [] });
+      expect(consensusService.getTrace().events.some(e => e.type === 'TOKEN')).toBe(true);
+    });
+
+    it('should still detect termination when the network loses messages', async () => {
+      consensusService.reset();
+      await consensusService.startConsensus({
+        stepDelayMs: 0,
+        faults: { seed: 1, probabilities: { REQUEST: { drop: 0.2 }, DONE: { drop: 0.5 } } }
+      });
+
+      const run = consensusService.getRunInfo();
+      const status = consensusService.getTerminationStatus();
+      const faults = consensusService.getFaultReport();
+      expect(faults.injected.drop.REQUEST).toBeGreaterThan(0);
+      expect(faults.injected.drop.DONE).toBeGreaterThan(0);
+      expect(run.status).toBe('completed');
+      expect(run.termination).toBe('detected');
+      expect(status.processes.reduce((sum, p) => sum + p.counter, 0)).toBe(0);
+    });
+
+    it('should stop stepping once termination is detected and withdraw it on corruption', async () => {
+      consensusService.reset({ 1: ['R', 'G', 'R'], 2: ['G', 'R', 'G'] });
+
+      const result = await consensusService.step(500, {});
+      expect(result.terminationDetected).toBe(true);
+      expect(result.steps.length).toBeLessThan(500);
+      expect((await consensusService.step(5)).steps).toHaveLength(0);
+
+      consensusService.injectCorruption({ processes: [{ id: 2, isDone: false }] });
+      expect(consensusService.getTerminationStatus().detected).toBe(false);
+
+      const resumed = await consensusService.step(500);
+      expect(resumed.terminationDetected).toBe(true);
+      expect(resumed.steps.some(step => step.message?.type === 'TOKEN')).toBe(true);
+    });
+  });
+});
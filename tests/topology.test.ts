@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { ConsensusInputError } from '../src/consensus/errors';
+import { createTopology } from '../src/consensus/topology';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+import { createPartnerSelectionStrategy } from '../src/consensus/strategies';
+import { Message } from '../src/consensus/types';
+import { makeProcess } from './process-fixtures';
+
+describe('Topology Tests', () => {
+  describe('createTopology', () => {
+    const ids = [1, 2, 3, 4, 5, 6];
+
+    it('should link the processes as each topology describes', () => {
+      const ring = createTopology({ type: 'ring' }, ids);
+      expect(ring.neighboursOf(1)).toEqual([2, 6]);
+      expect(ring.routeBetween(1, 4)).toEqual([2, 3]);
+      expect(ring.diameter).toBe(3);
+
+      const line = createTopology({ type: 'line' }, ids);
+      expect(line.neighboursOf(6)).toEqual([5]);
+      expect(line.routeBetween(6, 1)).toEqual([5, 4, 3, 2]);
+
+      const star = createTopology({ type: 'star', center: 3 }, ids);
+      expect(star.neighboursOf(3)).toEqual([1, 2, 4, 5, 6]);
+      expect(star.routeBetween(1, 6)).toEqual([3]);
+      expect(star.getGraph()).toMatchObject({ description: 'star(center=3)', center: 3 });
+
+      // 1 2 3
+      // 4 5 6
+      const grid = createTopology({ type: 'grid' }, ids);
+      expect(grid.neighboursOf(2)).toEqual([1, 3, 5]);
+      expect(grid.neighboursOf(4)).toEqual([1, 5]);
+      expect(grid.getGraph().edges).toHaveLength(7);
+
+      const adjacency = createTopology({ type: 'adjacency', adjacency: { 1: [2], 2: [3], 4: [3, 5, 6] } }, ids);
+      expect(adjacency.neighboursOf(3)).toEqual([2, 4]);
+      expect(adjacency.routeBetween(1, 6)).toEqual([2, 3, 4]);
+    });
+
+    it('should restrict only graphs that leave some pair unlinked', () => {
+      expect(createTopology(undefined, ids).restricted).toBe(false);
+      expect(createTopology({ type: 'ring' }, [1, 2, 3]).restricted).toBe(false);
+      expect(createTopology({ type: 'line' }, [1, 2, 3]).restricted).toBe(true);
+      expect(createTopology(undefined, ids).routeBetween(1, 6)).toEqual([]);
+    });
+
+    it('should reject topologies that do not fit the processes', () => {
+      expect(() => createTopology({ type: 'star', center: 9 }, ids))
+        .toThrow(new ConsensusInputError('topology.center names process 9, which is not in the distributions'));
+      expect(() => createTopology({ type: 'adjacency', adjacency: { 1: [2], 3: [4] } }, [1, 2, 3, 4]))
+        .toThrow(new ConsensusInputError('The adjacency topology leaves processes 3, 4 unreachable from process 1'));
+      expect(() => createTopology({ type: 'adjacency', adjacency: { 1: [1] } }, [1, 2]))
+        .toThrow(new ConsensusInputError('topology.adjacency.1 links process 1 to itself'));
+      expect(() => createTopology({ type: 'adjacency', adjacency: { 1: [7] } }, [1, 2]))
+        .toThrow(ConsensusInputError);
+      expect(() => createTopology({ type: 'torus' as never }, ids)).toThrow(ConsensusInputError);
+    });
+  });
+
+  describe('Protocol', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+    let partnerSelection: PartnerSelectionService;
+    let messageHandling: MessageHandlingService;
+
+    beforeAll(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+      partnerSelection = module.get<PartnerSelectionService>(PartnerSelectionService);
+      messageHandling = module.get<MessageHandlingService>(MessageHandlingService);
+    });
+
+    afterEach(() => {
+      consensusService.configureRun({});
+      consensusService.reset();
+    });
+
+    afterAll(async () => {
+      await module.close();
+      jest.restoreAllMocks();
+    });
+
+    it('should choose partners among neighbours only', () => {
+      const asker = makeProcess(1, ['R', 'G'], { wanted: 'R' });
+      const peers = [asker, makeProcess(2, ['G', 'G']), makeProcess(3, ['R', 'R', 'R'])];
+
+      partnerSelection.choosePartner(asker, peers, createPartnerSelectionStrategy());
+      expect(asker.partner).toBe(3);
+
+      partnerSelection.choosePartner(asker, peers, createPartnerSelectionStrategy(), [2]);
+      expect(asker.partner).toBe(2);
+    });
+
+    it('should send the ball of a passed-on request to the process that asked', () => {
+      const holder = makeProcess(3, ['R', 'G', 'G'], { wanted: 'G' });
+      const outbox: Message[] = [];
+
+      messageHandling.handleRequest(
+        { type: 'REQUEST', from: 2, to: 3, color: 'R', timestamp: 0, origin: 1 }, holder, outbox,
+        () => undefined, () => undefined, () => undefined
+      );
+
+      expect(outbox).toEqual([expect.objectContaining({ type: 'SEND', from: 3, to: 1, color: 'R' })]);
+    });
+
+    it('should relay messages between non-neighbours and still reach consensus on a line', async () => {
+      consensusService.configureRun({ topology: { type: 'line' }, knowledge: 'global', stepDelayMs: 0 });
+      consensusService.reset();
+      expect(consensusService.getTopology()).toEqual({
+        type: 'line', description: 'line', nodes: [1, 2, 3], edges: [[1, 2], [2, 3]]
+      });
+
+      await consensusService.startConsensus();
+
+      expect(consensusService.getRunInfo()).toMatchObject({ topology: 'line', termination: 'detected' });
+      expect(consensusService.calculatePotentialFunction()).toBe(0);
+      expect(consensusService.getInvariantReport().violations.filter(v => v.invariant === 'ball-conservation')).toEqual([]);
+
+      const history = consensusService.getSystemHistory();
+      const partners = history.flatMap(state => state.processes.filter(p => p.partner !== null).map(p => [p.id, p.partner]));
+      expect(partners.length).toBeGreaterThan(0);
+      expect(partners.filter(([id, partner]) => Math.abs(id - partner!) !== 1)).toEqual([]);
+      expect(history.some(state => state.messages.some(m => m.route?.[0] === 2))).toBe(true);
+      expect(history.some(state => state.messages.some(m => m.origin !== undefined))).toBe(true);
+    });
+
+    it('should reject a topology that does not fit the distributions', () => {
+      expect(() => consensusService.configureRun({ topology: { type: 'star', center: 5 } })).toThrow(ConsensusInputError);
+
+      consensusService.configureRun({ topology: { type: 'adjacency', adjacency: { 1: [2, 3] } } });
+      expect(() => consensusService.reset({ 1: ['R'], 2: ['G'], 4: ['B'] })).toThrow(ConsensusInputError);
+    });
+  });
+});
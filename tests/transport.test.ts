@@ -0,0 +1,138 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { AddressInfo } from 'net';
+import { ConsensusModule } from '../src/consensus/consensus.module';
+import { ConsensusService } from '../src/consensus/consensus.service';
+import { ConsensusInputError, ConsensusStateError } from '../src/consensus/errors';
+import { HttpTransport, InMemoryTransport, PeerList, createTransport, loadPeerList, validatePeerList } from '../src/consensus/transport';
+import { Message } from '../src/consensus/types';
+
+describe('Transport Tests', () => {
+  describe('Peer list', () => {
+    const peers = [{ id: 1, url: 'http://localhost:3001' }, { id: 2, url: 'http://localhost:3002' }];
+
+    it('should reject malformed peer lists', () => {
+      expect(() => validatePeerList({ self: 1, peers: [] })).toThrow(ConsensusInputError);
+      expect(() => validatePeerList({ self: 1, peers: [...peers, { id: 2, url: 'http://localhost:3003' }] }))
+        .toThrow(new ConsensusInputError('peers[2] lists process 2 a second time'));
+      expect(() => validatePeerList({ self: 1, peers: [{ id: 1, url: 'localhost:3001' }] }))
+        .toThrow(new ConsensusInputError('peers[0].url must be an http(s) URL, got "localhost:3001"'));
+      expect(() => validatePeerList({ self: 3, peers }))
+        .toThrow(new ConsensusInputError('Process 3 is to be hosted here but is not in the peer list'));
+    });
+
+    it('should load the peer list from the environment', () => {
+      expect(loadPeerList({})).toBeNull();
+      expect(loadPeerList({ CONSENSUS_PEERS: JSON.stringify(peers), CONSENSUS_PROCESS_ID: '2' })).toEqual({ self: 2, peers });
+      expect(() => loadPeerList({ CONSENSUS_PEERS: JSON.stringify(peers) })).toThrow(ConsensusInputError);
+      expect(() => loadPeerList({ CONSENSUS_PEERS: '[not json', CONSENSUS_PROCESS_ID: '1' })).toThrow(ConsensusInputError);
+    });
+
+    it('should create the transport the peer list calls for', () => {
+      expect(createTransport()).toBeInstanceOf(InMemoryTransport);
+
+      const transport = createTransport({ self: 1, peers });
+      expect(transport).toBeInstanceOf(HttpTransport);
+      expect(transport.hosts(1)).toBe(true);
+      expect(transport.hosts(2)).toBe(false);
+      expect(transport.reaches(2)).toBe(true);
+      expect(transport.reaches(3)).toBe(false);
+      transport.close();
+    });
+  });
+
+  describe('Engines over HTTP', () => {
+    const processIds = [1, 2, 3];
+    let apps: INestApplication[];
+    let engines: ConsensusService[];
+
+    beforeEach(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      apps = [];
+      for (let i = 0; i < processIds.length; i++) {
+        const module = await Test.createTestingModule({ imports: [ConsensusModule] }).compile();
+        const app = module.createNestApplication({ logger: false });
+        app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }));
+        await app.listen(0, '127.0.0.1');
+        apps.push(app);
+      }
+
+      const peers = apps.map((app, i) => ({
+        id: processIds[i],
+        url: `http://127.0.0.1:${(app.getHttpServer().address() as AddressInfo).port}`
+      }));
+      engines = apps.map((app, i) => {
+        const engine = app.get(ConsensusService);
+        const peerList: PeerList = { self: processIds[i], peers };
+        engine.useTransport(new HttpTransport(peerList, 100));
+        return engine;
+      });
+    });
+
+    afterEach(async () => {
+      for (const app of apps) {
+        await app.close();
+      }
+      jest.restoreAllMocks();
+    });
+
+    it('should host one process per instance', () => {
+      engines.forEach((engine, i) => {
+        expect(engine.getSystemState().processes.map(p => p.id)).toEqual([processIds[i]]);
+        expect(engine.getTransportStatus()).toMatchObject({ type: 'http', self: processIds[i] });
+        expect(engine.getTransportStatus().peers).toHaveLength(processIds.length - 1);
+      });
+    });
+
+    it('should reach consensus across instances and detect termination on each', async () => {
+      const initialBalls = engines.flatMap(engine => engine.getSystemState().processes.flatMap(p => p.stack)).sort();
+
+      await Promise.all(engines.map(engine => engine.startConsensus({ stepDelayMs: 0 })));
+
+      for (const engine of engines) {
+        expect(engine.getRunInfo()).toMatchObject({ status: 'completed', termination: 'detected' });
+        expect(engine.getTerminationStatus().detected).toBe(true);
+        expect(engine.getSystemState().processes.every(p => p.isDone)).toBe(true);
+        expect(engine.getTransportStatus().peers.every(peer => peer.failed === 0)).toBe(true);
+      }
+      const finalBalls = engines.flatMap(engine => engine.getSystemState().processes.flatMap(p => p.stack)).sort();
+      expect(finalBalls).toEqual(initialBalls);
+      expect(engines.reduce((sum, engine) => sum + engine.getRunInfo().messagesDelivered.SEND, 0)).toBeGreaterThan(0);
+    }, 60000);
+
+    it('should accept inbox messages only from peers to the process hosted here', async () => {
+      const [first] = engines;
+      const message: Message = { type: 'REQUEST', from: 2, to: 1, color: 'R', timestamp: Date.now(), id: 1 };
+
+      expect(() => first.receiveMessage({ ...message, to: 2 })).toThrow(new ConsensusInputError('Process 2 is not hosted here'));
+      expect(() => first.receiveMessage({ ...message, from: 4 })).toThrow(new ConsensusInputError('Process 4 is not a peer of this instance'));
+
+      const port = (apps[0].getHttpServer().address() as AddressInfo).port;
+      const response = await fetch(`http://127.0.0.1:${port}/consensus/inbox`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message)
+      });
+      expect(response.status).toBe(202);
+      expect(first.getSystemState().messages).toEqual([message]);
+
+      const refused = await fetch(`http://127.0.0.1:${port}/consensus/inbox`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...message, type: 'GOSSIP' })
+      });
+      expect(refused.status).toBe(400);
+    });
+
+    it('should refuse what needs every process on one instance', async () => {
+      const [first] = engines;
+
+      expect(() => first.configureRun({ knowledge: 'global' })).toThrow(ConsensusInputError);
+      expect(() => first.configureRun({ faults: { seed: 1 } })).toThrow(ConsensusInputError);
+      expect(() => first.reset({ 1: ['R'], 4: ['G'] })).toThrow(ConsensusInputError);
+      await expect(first.replay(first.getRecording())).rejects.toThrow(ConsensusStateError);
+    });
+  });
+});
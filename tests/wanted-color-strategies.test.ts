@@ -0,0 +1,103 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { WANTED_COLOR_STRATEGIES, createWantedColorStrategy } from '../src/consensus/strategies';
+import { Message } from '../src/consensus/types';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+import { makeProcess } from './process-fixtures';
+
+describe('Wanted-Color Strategy Tests', () => {
+  const priorities = { 1: ['R', 'G', 'B'], 2: ['G', 'B', 'R'], 3: ['B', 'R', 'G'] };
+  const request = (from: number, color: string): Message => ({ type: 'REQUEST', from, to: 1, color, timestamp: 0 });
+
+  it('should pick colors according to each built-in strategy', () => {
+    const stack = ['G', 'R', 'B', 'B', 'R'];
+    const context = { messageQueue: [request(2, 'B'), request(3, 'B'), request(1, 'R')], priorities };
+    const choose = (name: typeof WANTED_COLOR_STRATEGIES[number], id: number) =>
+      createWantedColorStrategy(name).choose(makeProcess(id, stack), context);
+
+    expect(choose('bottom-of-stack', 1)).toBe('G');
+    expect(choose('majority', 1)).toBe('R');
+    expect(choose('majority-id-tiebreak', 1)).toBe('R');
+    expect(choose('majority-id-tiebreak', 2)).toBe('B');
+    expect(choose('priority-table', 2)).toBe('G');
+    expect(choose('priority-table', 3)).toBe('B');
+    expect(choose('least-contested', 1)).toBe('R');
+  });
+
+  it('should default to bottom-of-stack and reject unknown strategies', () => {
+    expect(createWantedColorStrategy().name).toBe('bottom-of-stack');
+    expect(() => createWantedColorStrategy('nearest' as never))
+      .toThrow(`Unknown wanted-color strategy "nearest" (available: ${WANTED_COLOR_STRATEGIES.join(', ')})`);
+  });
+
+  it('should keep empty processes on their first priority color', () => {
+    const service = new ColorSelectionService();
+    const empty = makeProcess(2, []);
+    jest.spyOn(console, 'log').mockImplementationOnce(() => undefined);
+
+    service.computeWantedColor(empty, [], priorities, createWantedColorStrategy('majority'));
+
+    expect(empty.wanted).toBe('G');
+  });
+
+  describe('Per-run selection', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+
+    beforeAll(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    });
+
+    afterAll(async () => {
+      await module.close();
+      jest.restoreAllMocks();
+    });
+
+    it('should record the strategy on the run and use it for every process', async () => {
+      expect(consensusService.getRunInfo().wantedColorStrategy).toBe('bottom-of-stack');
+
+      consensusService.reset({ 1: ['G', 'R', 'R'], 2: ['R', 'G', 'G'] });
+      await consensusService.step(1, { wantedColorStrategy: 'majority' });
+
+      expect(consensusService.getSystemState().processes.map(p => p.wanted)).toEqual(['R', 'G']);
+      expect(consensusService.getRunInfo().wantedColorStrategy).toBe('majority');
+      expect(consensusService.getRecording().journal[0]).toEqual({ kind: 'configure', options: { wantedColorStrategy: 'majority' } });
+    });
+
+    it.each(WANTED_COLOR_STRATEGIES)('should complete the default scenario with %s', async strategy => {
+      consensusService.reset();
+      await consensusService.startConsensus({ stepDelayMs: 0, wantedColorStrategy: strategy });
+
+      expect(consensusService.getRunInfo()).toMatchObject({ status: 'completed', wantedColorStrategy: strategy });
+    });
+
+    it('should refuse unknown strategies before changing anything', () => {
+      const before = consensusService.getRunOptions();
+
+      expect(() => consensusService.configureRun({ wantedColorStrategy: 'nearest' as never }))
+        .toThrow('Unknown wanted-color strategy "nearest"');
+      expect(consensusService.getRunOptions()).toEqual(before);
+    });
+  });
+});
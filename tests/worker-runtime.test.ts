@@ -0,0 +1,93 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BaseConsensusService } from '../src/consensus/base-consensus.service';
+import { RUNTIME_MODES, resolveRuntimeMode } from '../src/consensus/actors';
+import { ConsensusInputError } from '../src/consensus/errors';
+import {
+  ColorSelectionService,
+  PartnerSelectionService,
+  MessageHandlingService,
+  LoggingSystemService,
+  SystemStateService
+} from '../src/consensus/services';
+
+describe('Worker Runtime Tests', () => {
+  describe('resolveRuntimeMode', () => {
+    it('should reject unknown modes', () => {
+      expect(resolveRuntimeMode('workers')).toBe('workers');
+      expect(() => resolveRuntimeMode('threads' as never))
+        .toThrow(new ConsensusInputError(`Unknown runtime mode "threads" (available: ${RUNTIME_MODES.join(', ')})`));
+    });
+  });
+
+  describe('Engine', () => {
+    let module: TestingModule;
+    let consensusService: BaseConsensusService;
+    let log: jest.SpyInstance;
+
+    beforeAll(async () => {
+      log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      module = await Test.createTestingModule({
+        providers: [
+          BaseConsensusService,
+          ColorSelectionService,
+          PartnerSelectionService,
+          MessageHandlingService,
+          LoggingSystemService,
+          SystemStateService,
+        ],
+      }).compile();
+
+      consensusService = module.get<BaseConsensusService>(BaseConsensusService);
+    });
+
+    afterAll(async () => {
+      await module.close();
+      jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+      consensusService.reset();
+    });
+
+    it('should reach the same outcome as running inline', async () => {
+      await consensusService.startConsensus({ runtime: 'inline', stepDelayMs: 0 });
+      const inline = consensusService.getSystemState();
+      const inlineRun = consensusService.getRunInfo();
+
+      consensusService.reset();
+      await consensusService.startConsensus({ runtime: 'workers', stepDelayMs: 0 });
+      const workers = consensusService.getSystemState();
+
+      const workersRun = consensusService.getRunInfo();
+      expect(workersRun).toMatchObject({ status: 'completed', runtime: 'workers' });
+      expect(workers.processes).toEqual(inline.processes);
+      expect(workers.totalExchanges).toBe(inline.totalExchanges);
+      expect(workersRun.iterations).toBe(inlineRun.iterations);
+      expect(workersRun.messagesDelivered).toEqual(inlineRun.messagesDelivered);
+    }, 30000);
+
+    it('should show what each worker reported and relay its console output', async () => {
+      log.mockClear();
+      const { steps } = await consensusService.step(5, { runtime: 'workers' });
+
+      const inspections = [1, 2, 3].map(id => consensusService.getProcessInspection(id)!);
+      const delivered = steps.filter(step => step.message).length;
+      expect(inspections.reduce((sum, p) => sum + p.received, 0)).toBe(delivered);
+      expect(log).toHaveBeenCalledWith(expect.stringMatching(/^Process \d received request for [RGB] from Process \d$/));
+    }, 30000);
+
+    it('should patch corrupted state into the workers and recover from it', async () => {
+      await consensusService.step(15, { runtime: 'workers' });
+      consensusService.injectCorruption({ processes: [{ id: 2, partner: 2, isDone: true }] });
+      expect(consensusService.getProcessInspection(2)!.state).toMatchObject({ partner: 2, isDone: true });
+
+      await consensusService.startConsensus();
+
+      expect(consensusService.getRunInfo().status).toBe('completed');
+      expect(consensusService.getRecoveryReport().records[0].status).toBe('recovered');
+    }, 30000);
+  });
+});